@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '@shared/features/auth/AuthContext';
 import { useSearchParams } from 'react-router-dom';
 import api from '../../services/api';
+import type { BountyType, TournamentType, UnderMinAction } from '../../hooks/useTournaments';
+import { TournamentTemplates } from './TournamentTemplates';
 
 interface BlindLevel {
   level: number;
@@ -9,8 +11,22 @@ interface BlindLevel {
   bigBlind: number;
   duration: number | null; // null means infinite (final round)
   breakAfter?: number; // break duration in minutes (5, 10, or 15)
+  ante?: number;
+  bigBlindAnte?: boolean; // the big blind pays the ante for the whole table
 }
 
+// null on the server means the standard percentages for the places paid
+type PayoutType = 'STANDARD' | 'PERCENT' | 'FIXED';
+
+interface PayoutStructure {
+  type: 'PERCENT' | 'FIXED';
+  amounts: number[]; // one per prize place, first place first
+}
+
+// Trim or pad (with zeros) to one amount per prize place
+const sizePayouts = (amounts: number[], places: number) =>
+  Array.from({ length: places }, (_, i) => amounts[i] ?? 0);
+
 interface DiscordServer {
   id: string;
   serverId: string;
@@ -26,6 +42,8 @@ export function CreateTournament() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [templateSaved, setTemplateSaved] = useState(false);
+  const [templatesVersion, setTemplatesVersion] = useState(0); // bumped to refetch the templates list
   const [servers, setServers] = useState<DiscordServer[]>([]);
   const [selectedServerIds, setSelectedServerIds] = useState<string[]>([]);
   const [loadingServers, setLoadingServers] = useState(true);
@@ -38,6 +56,13 @@ export function CreateTournament() {
     const seatsPerTable = parseInt(searchParams.get('seatsPerTable') || '9');
     const startingChips = parseInt(searchParams.get('startingChips') || '10000');
     const prizePlaces = parseInt(searchParams.get('prizePlaces') || '3');
+    const prizePool = parseInt(searchParams.get('prizePool') || '0');
+    const lateRegLevels = parseInt(searchParams.get('lateRegLevels') || '0');
+    const maxReentries = parseInt(searchParams.get('maxReentries') || '0');
+    const optionalInt = (key: string) => {
+      const value = searchParams.get(key);
+      return value ? parseInt(value) : null;
+    };
     
     return {
       name,
@@ -47,9 +72,40 @@ export function CreateTournament() {
       seatsPerTable,
       startingChips,
       prizePlaces,
+      prizePool,
+      lateRegLevels,
+      maxReentries,
+      rebuyLevels: parseInt(searchParams.get('rebuyLevels') || '0'),
+      maxRebuys: optionalInt('maxRebuys'), // null = no limit
+      rebuyChips: parseInt(searchParams.get('rebuyChips') || String(startingChips)),
+      rebuyMaxStack: optionalInt('rebuyMaxStack'), // null = the starting stack
+      rebuyCost: parseInt(searchParams.get('rebuyCost') || '0'),
+      addOnChips: parseInt(searchParams.get('addOnChips') || '0'),
+      addOnCost: parseInt(searchParams.get('addOnCost') || '0'),
+      bountyType: (searchParams.get('bountyType') || '') as BountyType | '', // '' = no bounties
+      type: (searchParams.get('type') || 'MTT') as TournamentType,
+      autoRespawn: searchParams.get('autoRespawn') === 'true',
+      autoStart: searchParams.get('autoStart') !== 'false',
+      minEntrants: parseInt(searchParams.get('minEntrants') || '2'),
+      underMinAction: (searchParams.get('underMinAction') || 'CANCEL') as UnderMinAction,
+      startDelayMinutes: parseInt(searchParams.get('startDelayMinutes') || '15'),
+      maxStartDelays: parseInt(searchParams.get('maxStartDelays') || '0'),
+      bountyAmount: parseInt(searchParams.get('bountyAmount') || '0'),
     };
   };
 
+  const getInitialPayouts = (): PayoutStructure | null => {
+    const payoutsParam = searchParams.get('payouts');
+    if (payoutsParam) {
+      try {
+        return JSON.parse(payoutsParam);
+      } catch (e) {
+        console.error('Failed to parse payouts from URL:', e);
+      }
+    }
+    return null;
+  };
+
   const getInitialBlindLevels = (): BlindLevel[] => {
     const blindLevelsParam = searchParams.get('blindLevels');
     if (blindLevelsParam) {
@@ -96,6 +152,9 @@ export function CreateTournament() {
   const [formData, setFormData] = useState(getInitialFormData());
   const [blindRoundDuration, setBlindRoundDuration] = useState(getInitialBlindRoundDuration());
   const [blindLevels, setBlindLevels] = useState<BlindLevel[]>(getInitialBlindLevels());
+  const [bigBlindAnte, setBigBlindAnte] = useState(() => getInitialBlindLevels().some((level) => level.bigBlindAnte));
+  const [payoutType, setPayoutType] = useState<PayoutType>(() => getInitialPayouts()?.type || 'STANDARD');
+  const [payoutAmounts, setPayoutAmounts] = useState<number[]>(() => getInitialPayouts()?.amounts || []);
 
   const startingChipsOptions = [1000, 2000, 5000, 10000, 20000, 50000, 100000];
 
@@ -145,6 +204,67 @@ export function CreateTournament() {
     );
   }
 
+  // The form as the server takes it (see tournamentData on the server)
+  const tournamentSettings = () => {
+    // Apply single duration to all rounds except the final one (which is infinite)
+    const blindLevelsWithDuration = blindLevels.map((level, index) => ({
+      ...level,
+      duration: index === blindLevels.length - 1 ? null : blindRoundDuration,
+    }));
+
+    return {
+      ...formData,
+      blindLevelsJson: JSON.stringify(blindLevelsWithDuration),
+      payouts: payoutType === 'STANDARD'
+        ? null
+        : { type: payoutType, amounts: sizePayouts(payoutAmounts, formData.prizePlaces) },
+      bountyType: formData.bountyType || null,
+    };
+  };
+
+  // Save the form (less its start time) to create tournaments from later
+  const handleSaveTemplate = async () => {
+    if (!formData.name) {
+      setError('Give the template a name first');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setTemplateSaved(false);
+
+    try {
+      const token = localStorage.getItem('sessionToken');
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const { name, description, startTime, ...settings } = tournamentSettings();
+      await api.post(
+        '/api/admin/templates',
+        {
+          name,
+          description,
+          settings: { ...settings, blindLevelsJson: JSON.parse(settings.blindLevelsJson) },
+          serverIds: selectedServerIds,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      setTemplateSaved(true);
+      setTemplatesVersion((v) => v + 1);
+      setTimeout(() => setTemplateSaved(false), 3000);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to save template');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -157,17 +277,10 @@ export function CreateTournament() {
         throw new Error('Not authenticated');
       }
 
-      // Apply single duration to all rounds except the final one (which is infinite)
-      const blindLevelsWithDuration = blindLevels.map((level, index) => ({
-        ...level,
-        duration: index === blindLevels.length - 1 ? null : blindRoundDuration,
-      }));
-
       const response = await api.post(
         '/api/admin/tournaments',
         {
-          ...formData,
-          blindLevelsJson: JSON.stringify(blindLevelsWithDuration),
+          ...tournamentSettings(),
           serverIds: selectedServerIds, // Include selected Discord servers
         },
         {
@@ -190,7 +303,28 @@ export function CreateTournament() {
           seatsPerTable: 9,
           startingChips: 10000,
           prizePlaces: 3,
+          prizePool: 0,
+          lateRegLevels: 0,
+          maxReentries: 0,
+          rebuyLevels: 0,
+          maxRebuys: null,
+          rebuyChips: 10000,
+          rebuyMaxStack: null,
+          rebuyCost: 0,
+          addOnChips: 0,
+          addOnCost: 0,
+          bountyType: '',
+          bountyAmount: 0,
+          type: 'MTT',
+          autoRespawn: false,
+          autoStart: true,
+          minEntrants: 2,
+          underMinAction: 'CANCEL',
+          startDelayMinutes: 15,
+          maxStartDelays: 0,
         });
+        setPayoutType('STANDARD');
+        setPayoutAmounts([]);
         setTimeout(() => setSuccess(false), 3000);
       }
     } catch (err: any) {
@@ -216,6 +350,8 @@ export function CreateTournament() {
         level: lastLevel.level + 1,
         smallBlind: lastLevel.bigBlind,
         bigBlind: lastLevel.bigBlind * 2,
+        ...(lastLevel.ante ? { ante: lastLevel.ante * 2 } : {}),
+        ...(bigBlindAnte ? { bigBlindAnte: true } : {}),
         duration: null, // New final round is infinite
       },
     ]);
@@ -244,6 +380,45 @@ export function CreateTournament() {
     setBlindLevels(updated);
   };
 
+  // The big blind ante is a property of the whole structure, stored on every level
+  const handleBigBlindAnteChange = (enabled: boolean) => {
+    setBigBlindAnte(enabled);
+    setBlindLevels(blindLevels.map((level) => {
+      if (enabled) {
+        return { ...level, bigBlindAnte: true };
+      }
+      const { bigBlindAnte: _bigBlindAnte, ...rest } = level;
+      return rest;
+    }));
+  };
+
+  const handlePrizePlacesChange = (places: number) => {
+    setFormData({ ...formData, prizePlaces: places });
+    setPayoutAmounts(sizePayouts(payoutAmounts, places || 0));
+  };
+
+  // Custom percentages start as an even split, with first place taking the rounding
+  const handlePayoutTypeChange = (type: PayoutType) => {
+    setPayoutType(type);
+    const places = formData.prizePlaces || 0;
+    if (type === 'PERCENT' && places > 0) {
+      const even = Math.floor(10000 / places) / 100;
+      const amounts = Array.from({ length: places }, () => even);
+      amounts[0] = Math.round((100 - even * (places - 1)) * 100) / 100;
+      setPayoutAmounts(amounts);
+    } else {
+      setPayoutAmounts(sizePayouts([], places));
+    }
+  };
+
+  const updatePayoutAmount = (index: number, amount: number) => {
+    const updated = sizePayouts(payoutAmounts, formData.prizePlaces || 0);
+    updated[index] = amount;
+    setPayoutAmounts(updated);
+  };
+
+  const payoutTotal = sizePayouts(payoutAmounts, formData.prizePlaces || 0).reduce((sum, amount) => sum + amount, 0);
+
   // Update durations when blindRoundDuration changes (except final round)
   const handleBlindRoundDurationChange = (newDuration: number) => {
     setBlindRoundDuration(newDuration);
@@ -298,26 +473,143 @@ export function CreateTournament() {
 
             <div>
               <label className="block text-sm font-medium text-slate-300">
-                Start Time *
+                Format
               </label>
-              <input
-                type="datetime-local"
-                required
-                value={formData.startTime}
-                onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+              <select
+                value={formData.type}
+                onChange={(e) => setFormData({ ...formData, type: e.target.value as TournamentType })}
                 className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none"
-              />
+              >
+                <option value="MTT">Scheduled (starts at its start time)</option>
+                <option value="SIT_AND_GO">Sit &amp; Go (starts itself when every seat is taken)</option>
+              </select>
             </div>
+
+            {formData.type === 'SIT_AND_GO' ? (
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={formData.autoRespawn}
+                  onChange={(e) => setFormData({ ...formData, autoRespawn: e.target.checked })}
+                  className="rounded border-slate-700 bg-slate-800"
+                />
+                Open a fresh copy whenever this one fills
+              </label>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-slate-300">
+                  Start Time *
+                </label>
+                <input
+                  type="datetime-local"
+                  required
+                  value={formData.startTime}
+                  onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                  className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none"
+                />
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Scheduled Start */}
+        {formData.type === 'MTT' && (
+          <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-6">
+            <h2 className="mb-4 text-lg font-semibold">Scheduled Start</h2>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={formData.autoStart}
+                onChange={(e) => setFormData({ ...formData, autoStart: e.target.checked })}
+                className="rounded border-slate-700 bg-slate-800"
+              />
+              Close registration and start automatically at the start time
+            </label>
+
+            {formData.autoStart && (
+              <div className="mt-4 grid gap-4 md:grid-cols-2">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300">
+                    Minimum Players
+                  </label>
+                  <input
+                    type="number"
+                    min="2"
+                    max={formData.maxPlayers}
+                    value={formData.minEntrants}
+                    onChange={(e) =>
+                      setFormData({ ...formData, minEntrants: parseInt(e.target.value) || 2 })
+                    }
+                    className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-300">
+                    With Fewer Players
+                  </label>
+                  <select
+                    value={formData.underMinAction}
+                    onChange={(e) => {
+                      const underMinAction = e.target.value as UnderMinAction;
+                      setFormData({
+                        ...formData,
+                        underMinAction,
+                        maxStartDelays: underMinAction === 'DELAY' ? Math.max(1, formData.maxStartDelays) : 0,
+                      });
+                    }}
+                    className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none"
+                  >
+                    <option value="CANCEL">Cancel the tournament</option>
+                    <option value="DELAY">Delay the start, then cancel</option>
+                  </select>
+                </div>
+
+                {formData.underMinAction === 'DELAY' && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-300">
+                        Delay (minutes)
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={formData.startDelayMinutes}
+                        onChange={(e) =>
+                          setFormData({ ...formData, startDelayMinutes: parseInt(e.target.value) || 1 })
+                        }
+                        className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-slate-300">
+                        Delays Before Cancelling
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={formData.maxStartDelays}
+                        onChange={(e) =>
+                          setFormData({ ...formData, maxStartDelays: parseInt(e.target.value) || 0 })
+                        }
+                        className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Tournament Settings */}
         <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-6">
           <h2 className="mb-4 text-lg font-semibold">Tournament Settings</h2>
           <div className="grid gap-4 md:grid-cols-2">
             <div>
               <label className="block text-sm font-medium text-slate-300">
-                Max Players
+                {formData.type === 'SIT_AND_GO' ? 'Seats' : 'Max Players'}
               </label>
               <input
                 type="number"
@@ -373,15 +665,276 @@ export function CreateTournament() {
                 type="number"
                 min="1"
                 value={formData.prizePlaces}
+                onChange={(e) => handlePrizePlacesChange(parseInt(e.target.value))}
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300">
+                Late Registration
+              </label>
+              <select
+                value={formData.lateRegLevels}
+                onChange={(e) =>
+                  setFormData({ ...formData, lateRegLevels: parseInt(e.target.value) })
+                }
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none"
+              >
+                <option value={0}>None</option>
+                {blindLevels.slice(0, -1).map((level, index) => (
+                  <option key={level.level} value={index + 1}>
+                    Until the end of level {level.level}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300">
+                Re-entries per Player
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={formData.maxReentries}
+                disabled={!formData.lateRegLevels}
+                onChange={(e) =>
+                  setFormData({ ...formData, maxReentries: parseInt(e.target.value) || 0 })
+                }
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none disabled:opacity-50"
+              />
+              <p className="mt-1 text-xs text-slate-500">Busted players can buy back in while late registration is open</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Rebuys & Add-on */}
+        <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-6">
+          <h2 className="mb-4 text-lg font-semibold">Rebuys &amp; Add-on</h2>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-slate-300">
+                Rebuy Period
+              </label>
+              <select
+                value={formData.rebuyLevels}
+                onChange={(e) =>
+                  setFormData({ ...formData, rebuyLevels: parseInt(e.target.value) })
+                }
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none"
+              >
+                <option value={0}>No rebuys</option>
+                {blindLevels.slice(0, -1).map((level, index) => (
+                  <option key={level.level} value={index + 1}>
+                    Until the end of level {level.level}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300">
+                Rebuys per Player
+              </label>
+              <input
+                type="number"
+                min="1"
+                placeholder="No limit"
+                value={formData.maxRebuys ?? ''}
+                disabled={!formData.rebuyLevels}
+                onChange={(e) =>
+                  setFormData({ ...formData, maxRebuys: e.target.value === '' ? null : parseInt(e.target.value) || 0 })
+                }
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none disabled:opacity-50"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300">
+                Rebuy Chips
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={formData.rebuyChips}
+                disabled={!formData.rebuyLevels}
+                onChange={(e) =>
+                  setFormData({ ...formData, rebuyChips: parseInt(e.target.value) || 0 })
+                }
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none disabled:opacity-50"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300">
+                Rebuy Allowed At
+              </label>
+              <input
+                type="number"
+                min="0"
+                placeholder={`${formData.startingChips.toLocaleString()} (starting stack) or less`}
+                value={formData.rebuyMaxStack ?? ''}
+                disabled={!formData.rebuyLevels}
+                onChange={(e) =>
+                  setFormData({ ...formData, rebuyMaxStack: e.target.value === '' ? null : parseInt(e.target.value) || 0 })
+                }
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none disabled:opacity-50"
+              />
+              <p className="mt-1 text-xs text-slate-500">Players can rebuy with this many chips or fewer</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300">
+                Add-on Chips
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={formData.addOnChips}
                 onChange={(e) =>
-                  setFormData({ ...formData, prizePlaces: parseInt(e.target.value) })
+                  setFormData({ ...formData, addOnChips: parseInt(e.target.value) || 0 })
                 }
                 className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none"
               />
+              <p className="mt-1 text-xs text-slate-500">Taken once, on the first break (0 for no add-on)</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-300">
+                  Rebuy Adds to Pool
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.rebuyCost}
+                  disabled={!formData.rebuyLevels}
+                  onChange={(e) =>
+                    setFormData({ ...formData, rebuyCost: parseInt(e.target.value) || 0 })
+                  }
+                  className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none disabled:opacity-50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-300">
+                  Add-on Adds to Pool
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.addOnCost}
+                  disabled={!formData.addOnChips}
+                  onChange={(e) =>
+                    setFormData({ ...formData, addOnCost: parseInt(e.target.value) || 0 })
+                  }
+                  className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none disabled:opacity-50"
+                />
+              </div>
             </div>
           </div>
         </div>
 
+        {/* Prizes */}
+        <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-6">
+          <h2 className="mb-4 text-lg font-semibold">Prizes</h2>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-slate-300">
+                Prize Pool
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={formData.prizePool}
+                onChange={(e) =>
+                  setFormData({ ...formData, prizePool: parseInt(e.target.value) || 0 })
+                }
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300">
+                Payouts
+              </label>
+              <select
+                value={payoutType}
+                onChange={(e) => handlePayoutTypeChange(e.target.value as PayoutType)}
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none"
+              >
+                <option value="STANDARD">Standard percentages</option>
+                <option value="PERCENT">Custom percentages of the pool</option>
+                <option value="FIXED">Fixed prizes</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300">
+                Bounties
+              </label>
+              <select
+                value={formData.bountyType}
+                onChange={(e) =>
+                  setFormData({ ...formData, bountyType: e.target.value as BountyType | '' })
+                }
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none"
+              >
+                <option value="">No bounties</option>
+                <option value="STANDARD">Bounty (eliminator takes it all)</option>
+                <option value="PROGRESSIVE">Progressive knockout (half paid, half onto their head)</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300">
+                Bounty per Entry
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={formData.bountyAmount}
+                disabled={!formData.bountyType}
+                onChange={(e) =>
+                  setFormData({ ...formData, bountyAmount: parseInt(e.target.value) || 0 })
+                }
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-slate-100 focus:border-emerald-500 focus:outline-none disabled:opacity-50"
+              />
+            </div>
+          </div>
+
+          {payoutType === 'STANDARD' ? (
+            <p className="mt-4 text-sm text-slate-400">
+              The pool is split by the standard table for the number of places paid. The field decides how many
+              places that is, up to Prize Places: 1 for up to 3 players, 2 up to 6, 3 up to 10, 4 up to 18, 5 up
+              to 27, then 15% of the field.
+            </p>
+          ) : (
+            <div className="mt-4">
+              <div className="grid gap-3 sm:grid-cols-3 md:grid-cols-5">
+                {sizePayouts(payoutAmounts, formData.prizePlaces || 0).map((amount, index) => (
+                  <div key={index}>
+                    <label className="block text-xs text-slate-400">
+                      Place {index + 1}{payoutType === 'PERCENT' ? ' (%)' : ''}
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step={payoutType === 'PERCENT' ? '0.01' : '1'}
+                      value={amount}
+                      onChange={(e) => updatePayoutAmount(index, parseFloat(e.target.value) || 0)}
+                      className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className={`mt-2 text-xs ${payoutType === 'PERCENT' && Math.abs(payoutTotal - 100) > 0.01 ? 'text-red-400' : 'text-slate-400'}`}>
+                Total: {payoutType === 'PERCENT' ? `${Math.round(payoutTotal * 100) / 100}% (must be 100%)` : payoutTotal.toLocaleString()}
+              </p>
+            </div>
+          )}
+        </div>
+
         {/* Blind Levels */}
         <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-6">
           <div className="mb-4 flex items-center justify-between">
@@ -409,6 +962,16 @@ export function CreateTournament() {
             />
           </div>
 
+          <label className="mb-4 flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={bigBlindAnte}
+              onChange={(e) => handleBigBlindAnteChange(e.target.checked)}
+              className="h-4 w-4 rounded border-slate-600 text-emerald-600 focus:ring-emerald-500"
+            />
+            Big blind ante (the big blind pays the ante for the whole table)
+          </label>
+
           <div className="space-y-3">
             {blindLevels.map((level, index) => {
               const isFinalRound = index === blindLevels.length - 1;
@@ -446,6 +1009,18 @@ export function CreateTournament() {
                         className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none"
                       />
                     </div>
+                    <div className="flex-1 min-w-[120px]">
+                      <label className="block text-xs text-slate-400">{bigBlindAnte ? 'BB Ante' : 'Ante'}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={level.ante || 0}
+                        onChange={(e) =>
+                          updateBlindLevel(index, 'ante', parseInt(e.target.value) || 0)
+                        }
+                        className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none"
+                      />
+                    </div>
                     <div className="w-32">
                       <label className="block text-xs text-slate-400">Duration</label>
                       <div className="mt-1 flex items-center gap-1 rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100">
@@ -555,8 +1130,22 @@ export function CreateTournament() {
           </div>
         )}
 
+        {templateSaved && (
+          <div className="rounded-lg border border-emerald-500/50 bg-emerald-500/10 p-4 text-emerald-200">
+            Template saved. Schedule it or create tournaments from it below.
+          </div>
+        )}
+
         {/* Submit Button */}
-        <div className="flex justify-end">
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={handleSaveTemplate}
+            disabled={loading}
+            className="rounded-lg border border-slate-600 px-6 py-2 font-medium text-slate-200 transition-colors hover:bg-slate-800 disabled:opacity-50"
+          >
+            Save as Template
+          </button>
           <button
             type="submit"
             disabled={loading}
@@ -566,6 +1155,8 @@ export function CreateTournament() {
           </button>
         </div>
       </form>
+
+      <TournamentTemplates refreshKey={templatesVersion} />
     </div>
   );
 }
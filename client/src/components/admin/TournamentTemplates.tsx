@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import api from '../../services/api';
+import { useTemplates, TournamentTemplate } from '../../hooks/useTemplates';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface ScheduleForm {
+  recurring: boolean;
+  daysOfWeek: number[];
+  timeOfDay: string;
+  timeZone: string;
+  leadHours: number;
+}
+
+const scheduleForm = (template: TournamentTemplate): ScheduleForm => ({
+  recurring: template.recurring,
+  daysOfWeek: template.daysOfWeek,
+  timeOfDay: template.timeOfDay || '20:00',
+  timeZone: template.recurring
+    ? template.timeZone
+    : Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  leadHours: template.leadHours,
+});
+
+const describeSchedule = (template: TournamentTemplate) =>
+  `Every ${template.daysOfWeek.map((d) => DAY_NAMES[d]).join(', ')} at ${template.timeOfDay} (${template.timeZone}), ` +
+  `created ${template.leadHours}h ahead`;
+
+interface TournamentTemplatesProps {
+  refreshKey: number; // changes when a template is saved from the form
+}
+
+/**
+ * Saved tournament templates: put one on a weekly schedule (its
+ * tournaments are created and posted to Discord ahead of each start), or
+ * create a one-off tournament from it.
+ */
+export function TournamentTemplates({ refreshKey }: TournamentTemplatesProps) {
+  const { templates, loading, error, refetch } = useTemplates(refreshKey);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<ScheduleForm | null>(null);
+  const [startTimes, setStartTimes] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const adminRequest = async (method: 'post' | 'patch' | 'delete', path: string, body?: object) => {
+    setSubmitting(true);
+    try {
+      const token = localStorage.getItem('sessionToken');
+      if (!token) {
+        alert('Not authenticated');
+        return false;
+      }
+
+      const headers = { Authorization: `Bearer ${token}` };
+      if (method === 'delete') {
+        await api.delete(`/api/admin/${path}`, { headers });
+      } else {
+        await api[method](`/api/admin/${path}`, body, { headers });
+      }
+      await refetch();
+      return true;
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to update the template');
+      console.error('Error updating template:', err);
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const startEditing = (template: TournamentTemplate) => {
+    setEditingId(template.id);
+    setSchedule(scheduleForm(template));
+  };
+
+  const saveSchedule = async (template: TournamentTemplate) => {
+    if (!schedule) return;
+    if (await adminRequest('patch', `templates/${template.id}`, schedule)) {
+      setEditingId(null);
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    if (!schedule) return;
+    setSchedule({
+      ...schedule,
+      daysOfWeek: schedule.daysOfWeek.includes(day)
+        ? schedule.daysOfWeek.filter((d) => d !== day)
+        : [...schedule.daysOfWeek, day],
+    });
+  };
+
+  const createNow = async (template: TournamentTemplate) => {
+    const startTime = startTimes[template.id];
+    if (!startTime) {
+      alert('Pick a start time first');
+      return;
+    }
+    if (await adminRequest('post', `templates/${template.id}/tournaments`, { startTime: new Date(startTime).toISOString() })) {
+      setStartTimes({ ...startTimes, [template.id]: '' });
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-6">
+      <h2 className="text-lg font-semibold">Templates</h2>
+      <p className="mb-4 mt-1 text-sm text-slate-400">
+        Fill in the form above and use Save as Template to add one.
+      </p>
+
+      {loading && templates.length === 0 && <p className="text-sm text-slate-400">Loading templates...</p>}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {!loading && !error && templates.length === 0 && (
+        <p className="text-sm text-slate-400">No templates yet.</p>
+      )}
+
+      <div className="space-y-3">
+        {templates.map((template) => (
+          <div key={template.id} className="rounded border border-slate-700 bg-slate-800/50 p-4">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <p className="font-medium text-slate-100">{template.name}</p>
+                <p className="mt-1 text-sm text-slate-400">
+                  {template.recurring ? describeSchedule(template) : 'Not scheduled'}
+                  {template._count && ` · ${template._count.tournaments} tournament(s) so far`}
+                </p>
+                {template.nextStartTime && (
+                  <p className="text-sm text-emerald-400">
+                    Next: {new Date(template.nextStartTime).toLocaleString()}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => (editingId === template.id ? setEditingId(null) : startEditing(template))}
+                  disabled={submitting}
+                  className="rounded bg-slate-700 px-3 py-1 text-xs font-medium text-white hover:bg-slate-600 disabled:opacity-50"
+                >
+                  {editingId === template.id ? 'Close' : 'Schedule'}
+                </button>
+                <button
+                  onClick={() => confirm(`Delete the "${template.name}" template? Its tournaments are kept.`) && adminRequest('delete', `templates/${template.id}`)}
+                  disabled={submitting}
+                  className="rounded bg-red-600/80 px-3 py-1 text-xs font-medium text-white hover:bg-red-600 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            {editingId === template.id && schedule && (
+              <div className="mt-4 space-y-3 border-t border-slate-700 pt-4">
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={schedule.recurring}
+                    onChange={(e) => setSchedule({ ...schedule, recurring: e.target.checked })}
+                    className="rounded border-slate-700 bg-slate-800"
+                  />
+                  Run this tournament every week
+                </label>
+
+                {schedule.recurring && (
+                  <>
+                    <div className="flex flex-wrap gap-2">
+                      {DAY_NAMES.map((name, day) => (
+                        <button
+                          key={name}
+                          type="button"
+                          onClick={() => toggleDay(day)}
+                          className={`rounded px-3 py-1 text-xs font-medium ${
+                            schedule.daysOfWeek.includes(day)
+                              ? 'bg-emerald-600 text-white'
+                              : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                          }`}
+                        >
+                          {name}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="grid gap-3 md:grid-cols-3">
+                      <div>
+                        <label className="block text-xs font-medium text-slate-400">Start Time</label>
+                        <input
+                          type="time"
+                          value={schedule.timeOfDay}
+                          onChange={(e) => setSchedule({ ...schedule, timeOfDay: e.target.value })}
+                          className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-slate-400">Time Zone</label>
+                        <input
+                          type="text"
+                          value={schedule.timeZone}
+                          onChange={(e) => setSchedule({ ...schedule, timeZone: e.target.value })}
+                          placeholder="e.g. America/New_York"
+                          className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-slate-400">Create &amp; Post (hours ahead)</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={schedule.leadHours}
+                          onChange={(e) => setSchedule({ ...schedule, leadHours: parseInt(e.target.value) || 0 })}
+                          className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none"
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+
+                <button
+                  onClick={() => saveSchedule(template)}
+                  disabled={submitting}
+                  className="rounded bg-emerald-600 px-3 py-1 text-xs font-medium text-white hover:bg-emerald-500 disabled:opacity-50"
+                >
+                  Save Schedule
+                </button>
+              </div>
+            )}
+
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <input
+                type="datetime-local"
+                value={startTimes[template.id] || ''}
+                onChange={(e) => setStartTimes({ ...startTimes, [template.id]: e.target.value })}
+                className="rounded border border-slate-700 bg-slate-800 px-3 py-1 text-sm text-slate-100 focus:border-emerald-500 focus:outline-none"
+              />
+              <button
+                onClick={() => createNow(template)}
+                disabled={submitting}
+                className="rounded bg-slate-700 px-3 py-1 text-xs font-medium text-white hover:bg-slate-600 disabled:opacity-50"
+              >
+                Create Tournament
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
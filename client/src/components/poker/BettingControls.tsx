@@ -1,76 +1,62 @@
 import { useState, useEffect } from "react";
+import type { LegalAction } from "@shared/types/poker";
 
 interface BettingControlsProps {
   onAction: (action: string, amount: number) => void;
-  currentBet?: number;
+  legalActions?: LegalAction[] | null; // What the server allows right now (only set on my turn)
   bigBlind?: number;
-  myChips?: number;
-  street?: string;
-  minimumRaise?: number;
-  isBigBlind?: boolean;
+  pot?: number;
   isMyTurn?: boolean; // Whether it's currently the player's turn
-  myContribution?: number; // How much I've already contributed this round
 }
 
 export function BettingControls({ 
   onAction, 
-  currentBet = 0, 
+  legalActions,
   bigBlind = 20,
-  myChips = 0,
-  street = 'PREFLOP',
-  minimumRaise = 20,
-  isBigBlind = false,
+  pot = 0,
   isMyTurn = false,
-  myContribution = 0, // How much I've already contributed this round
 }: BettingControlsProps) {
-  const [raiseAmount, setRaiseAmount] = useState(bigBlind * 2);
+  // Everything below is rendered from the server's legal actions rather
+  // than re-derived here, so the buttons can't offer something it rejects
+  const actions = isMyTurn ? legalActions ?? [] : [];
+  const checkAction = actions.find((a) => a.type === 'CHECK');
+  const callAction = actions.find((a) => a.type === 'CALL');
+  const raiseAction = actions.find((a) => a.type === 'BET' || a.type === 'RAISE');
+  const allInAction = actions.find((a) => a.type === 'ALL_IN');
+  const canAct = actions.length > 0;
 
-  const potSize = 100; // TODO: Get actual pot size from props
-  const isPreflop = street === 'PREFLOP';
-  // Determine if there have been raises (any bet > big blind in preflop, or any bet > 0 post-flop)
-  const hasRaises = isPreflop ? currentBet > bigBlind : currentBet > 0;
-  const canCheck = !isPreflop || (isPreflop && isBigBlind && !hasRaises && currentBet === bigBlind);
-  
-  // CALL amount: how much MORE I need to add (currentBet - what I've already contributed)
-  const callAmount = Math.max(0, currentBet - myContribution);
-  
-  // RAISE amount: total bet amount I'd raise to (currentBet + minimumRaise)
-  const minRaiseAmount = currentBet + minimumRaise;
+  // BET/RAISE amounts are what my bet on this street becomes ("raise to")
+  const minRaiseAmount = raiseAction?.min ?? 0;
+  const maxRaiseAmount = raiseAction?.max ?? 0;
+  const clampRaise = (amount: number) => Math.max(minRaiseAmount, Math.min(maxRaiseAmount, amount));
 
-  // Update raise amount when current bet changes
+  const [raiseAmount, setRaiseAmount] = useState(minRaiseAmount);
+
+  // Start from the minimum whenever the legal range changes
   useEffect(() => {
-    if (isPreflop && currentBet === 0) {
-      // Preflop, no bets yet - min raise is 2x big blind
-      setRaiseAmount(bigBlind * 2);
-    } else if (currentBet > 0) {
-      // There's a current bet - min raise is current bet + minimum raise
-      setRaiseAmount(minRaiseAmount);
-    } else {
-      // Post-flop, no bets yet - min bet is big blind
-      setRaiseAmount(bigBlind);
-    }
-  }, [currentBet, bigBlind, minimumRaise, isPreflop, minRaiseAmount]);
+    setRaiseAmount(minRaiseAmount);
+  }, [minRaiseAmount, maxRaiseAmount]);
 
   const handlePreset = (preset: string) => {
     switch (preset) {
       case 'half':
-        setRaiseAmount(Math.floor(potSize / 2));
+        setRaiseAmount(clampRaise(Math.floor(pot / 2)));
         break;
       case 'twothirds':
-        setRaiseAmount(Math.floor(potSize * 0.67));
+        setRaiseAmount(clampRaise(Math.floor(pot * 0.67)));
         break;
       case 'pot':
-        setRaiseAmount(potSize);
+        setRaiseAmount(clampRaise(pot));
         break;
       case 'allin':
-        setRaiseAmount(myChips);
+        setRaiseAmount(maxRaiseAmount);
         break;
     }
   };
 
   const handleFold = () => {
-    if (!isPreflop && currentBet === 0) {
-      // Post-flop, no bets - warn it's free to check
+    if (checkAction) {
+      // Nothing to call - warn it's free to check
       if (window.confirm('It\'s free to check. Are you sure you want to fold?')) {
         onAction("FOLD", 0);
       }
@@ -99,11 +85,18 @@ export function BettingControls({
   // Use windowSize to force recalculation
   void windowSize.width;
 
-  // Determine which buttons to show
-  const showCheck = !isPreflop || (isPreflop && isBigBlind && !hasRaises && currentBet === bigBlind);
-  const actionLabel = isPreflop && currentBet === 0 ? 'RAISE' : (currentBet > 0 ? 'RAISE' : 'BET');
-  // RAISE button shows total bet amount to raise TO (currentBet + minimumRaise)
-  const actionAmount = raiseAmount;
+  // Determine which buttons to show. Too short to raise fully, the third
+  // button goes all-in instead.
+  const showCheck = !callAction;
+  const raiseLabel = raiseAction ? raiseAction.type : (allInAction ? 'ALL IN' : 'RAISE');
+  const raiseButtonAmount = raiseAction ? raiseAmount : allInAction?.amount;
+  const handleRaise = () => {
+    if (raiseAction) {
+      onAction(raiseAction.type, raiseAmount);
+    } else if (allInAction) {
+      onAction("ALL_IN", allInAction.amount ?? 0);
+    }
+  };
 
   return (
     <div className="flex flex-col items-end gap-3">
@@ -111,7 +104,7 @@ export function BettingControls({
       <div className="flex items-center gap-3" style={{ width: containerWidth }}>
         <button
           onClick={handleFold}
-          disabled={!isMyTurn}
+          disabled={!canAct}
           className="rounded-lg bg-red-600 font-bold text-white shadow-lg hover:bg-red-700 transition-colors flex-1 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
           style={{ 
             minWidth: `var(--action-button-width, 140px)`, 
@@ -128,7 +121,7 @@ export function BettingControls({
         {showCheck ? (
           <button
             onClick={() => onAction("CHECK", 0)}
-            disabled={!isMyTurn}
+            disabled={!checkAction}
             className="rounded-lg bg-blue-600 font-bold text-white shadow-lg hover:bg-blue-700 transition-colors flex-1 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
             style={{ 
               minWidth: `var(--action-button-width, 140px)`, 
@@ -144,8 +137,8 @@ export function BettingControls({
           </button>
         ) : (
           <button
-            onClick={() => onAction("CALL", callAmount)}
-            disabled={!isMyTurn}
+            onClick={() => onAction("CALL", callAction?.amount ?? 0)}
+            disabled={!callAction}
             className="rounded-lg bg-blue-600 font-bold text-white shadow-lg hover:bg-blue-700 transition-colors flex-1 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
             style={{ 
               minWidth: `var(--action-button-width, 140px)`, 
@@ -157,12 +150,12 @@ export function BettingControls({
               fontSize: `var(--action-button-text, 16px)`
             }}
           >
-            CALL {callAmount}
+            CALL {callAction?.amount}
           </button>
         )}
         <button
-          onClick={() => onAction(actionLabel, actionAmount)}
-          disabled={!isMyTurn}
+          onClick={handleRaise}
+          disabled={!raiseAction && !allInAction}
           className="rounded-lg bg-emerald-600 font-bold text-white shadow-lg hover:bg-emerald-700 transition-colors flex-1 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
           style={{ 
             minWidth: `var(--action-button-width, 140px)`, 
@@ -174,7 +167,7 @@ export function BettingControls({
             fontSize: `var(--action-button-text, 16px)`
           }}
         >
-          {actionLabel} {actionAmount}
+          {raiseLabel} {raiseButtonAmount}
         </button>
       </div>
 
@@ -186,7 +179,7 @@ export function BettingControls({
           <div className="flex items-center gap-2">
             <button
               onClick={() => handlePreset('half')}
-              disabled={!isMyTurn}
+              disabled={!raiseAction}
               className="rounded bg-slate-700 font-medium text-slate-200 hover:bg-slate-600 transition-colors flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
               style={{
                 paddingLeft: `var(--preset-button-padding-x, 12px)`,
@@ -201,7 +194,7 @@ export function BettingControls({
             </button>
             <button
               onClick={() => handlePreset('pot')}
-              disabled={!isMyTurn}
+              disabled={!raiseAction}
               className="rounded bg-slate-700 font-medium text-slate-200 hover:bg-slate-600 transition-colors flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
               style={{
                 paddingLeft: `var(--preset-button-padding-x, 12px)`,
@@ -219,7 +212,7 @@ export function BettingControls({
           <div className="flex items-center gap-2">
             <button
               onClick={() => handlePreset('twothirds')}
-              disabled={!isMyTurn}
+              disabled={!raiseAction}
               className="rounded bg-slate-700 font-medium text-slate-200 hover:bg-slate-600 transition-colors flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
               style={{
                 paddingLeft: `var(--preset-button-padding-x, 12px)`,
@@ -234,7 +227,7 @@ export function BettingControls({
             </button>
             <button
               onClick={() => handlePreset('allin')}
-              disabled={!isMyTurn}
+              disabled={!raiseAction}
               className="rounded bg-red-700 font-medium text-white hover:bg-red-600 transition-colors flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
               style={{
                 paddingLeft: `var(--preset-button-padding-x, 12px)`,
@@ -253,11 +246,8 @@ export function BettingControls({
         {/* Right side: Amount Input with +/- Controls - same height as both preset rows combined */}
         <div className="flex items-center gap-2">
             <button
-              onClick={() => {
-                const minAmount = isPreflop && currentBet === 0 ? bigBlind * 2 : (currentBet > 0 ? minRaiseAmount : bigBlind);
-                setRaiseAmount(Math.max(minAmount, raiseAmount - minimumRaise));
-              }}
-              disabled={!isMyTurn}
+              onClick={() => setRaiseAmount(clampRaise(raiseAmount - bigBlind))}
+              disabled={!raiseAction}
               className="flex items-center justify-center rounded-full bg-slate-700 font-bold text-white hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               style={{
                 width: `var(--input-button-size, 48px)`,
@@ -269,7 +259,7 @@ export function BettingControls({
             </button>
           <input
             type="number"
-            disabled={!isMyTurn}
+            disabled={!raiseAction}
             className="rounded-lg border-2 border-slate-600 bg-slate-800 text-center font-bold text-white focus:border-emerald-500 focus:outline-none no-spinner disabled:opacity-50 disabled:cursor-not-allowed"
             style={{ 
               width: `var(--amount-input-width, 128px)`,
@@ -283,17 +273,15 @@ export function BettingControls({
             }}
             value={raiseAmount}
             onChange={(e) => {
-              const minAmount = isPreflop && currentBet === 0 ? bigBlind * 2 : (currentBet > 0 ? minRaiseAmount : bigBlind);
-              const val = Math.max(minAmount, Math.min(myChips, Number(e.target.value) || minAmount));
-              setRaiseAmount(val);
+              setRaiseAmount(clampRaise(Number(e.target.value) || minRaiseAmount));
             }}
             onWheel={(e) => e.currentTarget.blur()}
-            min={isPreflop && currentBet === 0 ? bigBlind * 2 : (currentBet > 0 ? minRaiseAmount : bigBlind)}
-            max={myChips}
+            min={minRaiseAmount}
+            max={maxRaiseAmount}
           />
           <button
-            onClick={() => setRaiseAmount(Math.min(myChips, raiseAmount + minimumRaise))}
-            disabled={!isMyTurn}
+            onClick={() => setRaiseAmount(clampRaise(raiseAmount + bigBlind))}
+            disabled={!raiseAction}
             className="flex items-center justify-center rounded-full bg-slate-700 font-bold text-white hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             style={{
               width: `var(--input-button-size, 48px)`,
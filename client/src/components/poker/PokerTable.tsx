@@ -66,13 +66,13 @@ function PokerCardImage({
   className = '', 
   faceDown = false 
 }: { 
-  card: Card; 
+  card?: Card; 
   width: number; 
   height: number; 
   className?: string;
   faceDown?: boolean;
 }) {
-  if (faceDown) {
+  if (faceDown || !card) {
     return (
       <div
         className={`${className} bg-blue-800 border-2 border-white rounded-lg relative overflow-hidden`}
@@ -171,7 +171,8 @@ interface PokerTableProps {
     name: string;
     chips: number;
     seatNumber: number;
-    holeCards?: Card[];
+    holeCards?: Card[] | null;
+    hasCards?: boolean;
     isActive?: boolean;
     isDealer?: boolean;
     isSmallBlind?: boolean;
@@ -179,6 +180,7 @@ interface PokerTableProps {
     avatarUrl?: string;
     userId?: string;
     contribution?: number;
+    bounty?: number; // on the player's head, in bounty tournaments
   }>;
   communityCards: Card[];
   pot: number;
@@ -300,7 +302,6 @@ export function PokerTable({
           const radiusPercent = 45; // Position at 45% from center (near edge)
           const angleRad = (position.angle * Math.PI) / 180;
           
-          const isMyPlayer = player && (myUserId === player.id || myUserId === player.userId);
           const isCurrentTurn = player && (currentPlayer === player.id || currentPlayer === player.userId);
           const hasActiveTimer = turnTimer && player && (player.userId === turnTimer.userId || player.id === turnTimer.userId);
           const timerRemaining = hasActiveTimer 
@@ -429,6 +430,15 @@ export function PokerTable({
                             {player.chips.toLocaleString()}
                           </div>
                         </div>
+                        {(player.bounty ?? 0) > 0 && (
+                          <div
+                            className="mt-0.5 rounded bg-amber-500/20 px-2 text-center font-semibold text-amber-300 whitespace-nowrap"
+                            style={{ fontSize: 'var(--player-chips-size, 12px)' }}
+                            title="Bounty"
+                          >
+                            ★ {player.bounty!.toLocaleString()}
+                          </div>
+                        )}
                       </div>
                     </>
                   ) : (
@@ -456,8 +466,11 @@ export function PokerTable({
             </div>
           ];
 
-          // Add cards as separate element if player has cards (including own player)
-          if (player && player.holeCards && player.holeCards.length > 0) {
+          // Add cards as separate element if player has cards (including own player).
+          // Opponents' cards only arrive once they're shown down; until then the
+          // server just tells us they're holding a hand and we draw the backs.
+          const shownCards = player?.holeCards && player.holeCards.length > 0 ? player.holeCards : null;
+          if (player && (shownCards || player.hasCards)) {
             elements.push(
               <div
                 key={`cards-${player.id}`}
@@ -473,7 +486,7 @@ export function PokerTable({
                   <BetChip value={player.contribution!} />
                 )}
                 <div className="flex" style={{ gap: 'var(--hole-card-gap, 4px)' }}>
-                  {player.holeCards.map((_, cardIdx) => {
+                  {(shownCards ?? [undefined, undefined]).map((card, cardIdx) => {
                     // Recalculate when window size changes
                     const holeWidth = typeof window !== 'undefined'
                       ? parseInt(getComputedStyle(document.documentElement).getPropertyValue('--hole-card-width')) || 28
@@ -484,11 +497,11 @@ export function PokerTable({
                     return (
                       <PokerCardImage
                         key={`${player.id}-${cardIdx}-${windowSize.width}`}
-                        card={player.holeCards![cardIdx]}
+                        card={card}
                         width={holeWidth}
                         height={holeHeight}
                         className="shadow-md"
-                        faceDown={!isMyPlayer}
+                        faceDown={!card}
                       />
                     );
                   })}
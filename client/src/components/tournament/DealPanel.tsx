@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react';
+import api from '../../services/api';
+import { getSocket } from '../../services/socket';
+import type { DealProposal, DealMethod } from '../../hooks/useTournaments';
+
+interface DealPanelProps {
+  tournamentId: string;
+  myUserId?: string;
+  isAdmin: boolean;
+  onClose: () => void;
+}
+
+const methodNames: Record<DealMethod, string> = {
+  ICM: 'ICM',
+  CHIP_CHOP: 'Chip chop',
+  CUSTOM: 'Custom',
+};
+
+/**
+ * Final table deal numbers: each player's ICM and chip-chop equity on the
+ * current stacks, and the deal once it's agreed. Admins can put the numbers
+ * in front of everyone and record the deal.
+ */
+export function DealPanel({ tournamentId, myUserId, isAdmin, onClose }: DealPanelProps) {
+  const [proposal, setProposal] = useState<DealProposal | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchProposal = async () => {
+      try {
+        const response = await api.get(`/api/tournaments/${tournamentId}/deal`);
+        setProposal(response.data);
+        setError(null);
+      } catch (err: any) {
+        setError(err.response?.data?.error || 'Failed to load deal');
+      }
+    };
+
+    fetchProposal();
+
+    // Stacks change with every bust, and the deal arrives over the socket
+    const socket = getSocket();
+    const handleProposal = (data: DealProposal) => {
+      if (data.tournamentId === tournamentId) {
+        setProposal(data);
+      }
+    };
+    const handleChange = (data: { tournamentId: string }) => {
+      if (data.tournamentId === tournamentId) {
+        fetchProposal();
+      }
+    };
+
+    socket.on('deal-proposed', handleProposal);
+    socket.on('deal-recorded', handleChange);
+    socket.on('player-eliminated', handleChange);
+
+    return () => {
+      socket.off('deal-proposed', handleProposal);
+      socket.off('deal-recorded', handleChange);
+      socket.off('player-eliminated', handleChange);
+    };
+  }, [tournamentId]);
+
+  const adminPost = async (path: string, body: object) => {
+    setSubmitting(true);
+    try {
+      const token = localStorage.getItem('sessionToken');
+      if (!token) {
+        alert('Not authenticated');
+        return;
+      }
+
+      await api.post(`/api/admin/tournaments/${tournamentId}/${path}`, body, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to update the deal');
+      console.error('Error updating deal:', err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const deal = proposal?.deal;
+
+  return (
+    <div className="absolute right-4 top-4 z-40 w-96 rounded-xl border border-slate-700 bg-slate-900/95 p-4 shadow-xl">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="font-semibold text-white">
+          {deal ? `${methodNames[deal.method]} deal agreed` : 'Deal'}
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-200">
+          ✕
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {proposal && (
+        <>
+          <p className="mb-3 text-xs text-slate-400">
+            {proposal.total.toLocaleString()} left in prizes
+            {proposal.handInProgress && !deal && ' · stacks settle when this hand ends'}
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase text-slate-400">
+                <th className="pb-1 font-medium">Player</th>
+                <th className="pb-1 text-right font-medium">Chips</th>
+                {deal ? (
+                  <th className="pb-1 text-right font-medium">Gets</th>
+                ) : (
+                  <>
+                    <th className="pb-1 text-right font-medium">ICM</th>
+                    <th className="pb-1 text-right font-medium">Chop</th>
+                  </>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {deal
+                ? deal.players.map((player) => (
+                    <tr key={player.userId} className={player.userId === myUserId ? 'text-emerald-400' : 'text-slate-200'}>
+                      <td className="py-1">{player.username || 'Player'}</td>
+                      <td className="py-1 text-right">{player.chips.toLocaleString()}</td>
+                      <td className="py-1 text-right font-semibold">{player.amount.toLocaleString()}</td>
+                    </tr>
+                  ))
+                : proposal.players.map((player) => (
+                    <tr key={player.playerId} className={player.userId === myUserId ? 'text-emerald-400' : 'text-slate-200'}>
+                      <td className="py-1">{player.username || 'Player'}</td>
+                      <td className="py-1 text-right">{player.chips.toLocaleString()}</td>
+                      <td className="py-1 text-right">{player.icm === null ? '-' : player.icm.toLocaleString()}</td>
+                      <td className="py-1 text-right">{player.chipChop.toLocaleString()}</td>
+                    </tr>
+                  ))}
+            </tbody>
+          </table>
+
+          {isAdmin && !deal && (
+            <div className="mt-4 flex flex-wrap gap-2">
+              <button
+                onClick={() => adminPost('deal/propose', {})}
+                disabled={submitting}
+                className="rounded bg-slate-700 px-3 py-1 text-xs font-medium text-white hover:bg-slate-600 disabled:opacity-50"
+              >
+                Show Everyone
+              </button>
+              <button
+                onClick={() => confirm('Record an ICM deal on these stacks?') && adminPost('deal', { method: 'ICM' })}
+                disabled={submitting || proposal.players.some((p) => p.icm === null)}
+                className="rounded bg-emerald-600 px-3 py-1 text-xs font-medium text-white hover:bg-emerald-500 disabled:opacity-50"
+              >
+                Record ICM Deal
+              </button>
+              <button
+                onClick={() => confirm('Record a chip-chop deal on these stacks?') && adminPost('deal', { method: 'CHIP_CHOP' })}
+                disabled={submitting}
+                className="rounded bg-emerald-600 px-3 py-1 text-xs font-medium text-white hover:bg-emerald-500 disabled:opacity-50"
+              >
+                Record Chip Chop
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
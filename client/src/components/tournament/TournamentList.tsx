@@ -5,6 +5,7 @@ import { useState, useEffect } from 'react';
 import api from '../../services/api';
 import { TournamentTimestamp } from './TournamentTimestamp';
 import { useAuth } from '@shared/features/auth/AuthContext';
+import { getSocket } from '../../services/socket';
 
 interface ServerWithMembership {
   id: string;
@@ -20,6 +21,7 @@ function TournamentCard({ tournament, onCancel, onDuplicate, onAddTestPlayers, o
   const startTime = new Date(tournament.startTime);
   const registeredCount = tournament.registeredCount || 0;
   const spotsLeft = tournament.maxPlayers - registeredCount;
+  const isWaitingSitAndGo = tournament.type === 'SIT_AND_GO' && (tournament.status === 'SCHEDULED' || tournament.status === 'REGISTERING');
   const servers = tournament.servers || [];
   const [serversWithMembership, setServersWithMembership] = useState<ServerWithMembership[]>(servers);
 
@@ -77,7 +79,11 @@ function TournamentCard({ tournament, onCancel, onDuplicate, onAddTestPlayers, o
           <h3 className="text-lg font-semibold text-slate-100">
             {tournament.name}
           </h3>
-          <TournamentTimestamp startTime={startTime} showCountdown={tournament.status === 'SCHEDULED' || tournament.status === 'REGISTERING' || tournament.status === 'REGISTRATION'} />
+          {isWaitingSitAndGo ? (
+            <p className="text-sm text-slate-400">Sit &amp; Go · starts when {spotsLeft} more {spotsLeft === 1 ? 'player joins' : 'players join'}</p>
+          ) : (
+            <TournamentTimestamp startTime={startTime} showCountdown={tournament.status === 'SCHEDULED' || tournament.status === 'REGISTERING' || tournament.status === 'REGISTRATION'} />
+          )}
         </div>
         <span
           className={`rounded-full px-3 py-1 text-xs font-medium ${
@@ -232,6 +238,27 @@ export function TournamentList() {
   const [deleting, setDeleting] = useState<string | null>(null);
   const [filter, setFilter] = useState<TournamentFilter>('all');
 
+  // A Sit & Go that fills opens its replacement (see autoRespawn), and
+  // scheduled starts go ahead, get pushed back or get cancelled on their own
+  useEffect(() => {
+    const socket = getSocket();
+    const handleCreated = () => refetch();
+    socket.on('tournament-created', handleCreated);
+    socket.on('tournament-started', handleCreated);
+    socket.on('tournament-delayed', handleCreated);
+    socket.on('tournament-cancelled', handleCreated);
+    if (!socket.connected) {
+      socket.connect();
+    }
+
+    return () => {
+      socket.off('tournament-created', handleCreated);
+      socket.off('tournament-started', handleCreated);
+      socket.off('tournament-delayed', handleCreated);
+      socket.off('tournament-cancelled', handleCreated);
+    };
+  }, []);
+
   const handleCancel = async (tournamentId: string) => {
     if (!confirm('Are you sure you want to cancel this tournament?')) {
       return;
@@ -379,6 +406,26 @@ export function TournamentList() {
           seatsPerTable: response.data.seatsPerTable?.toString() || '9',
           startingChips: response.data.startingChips?.toString() || '10000',
           prizePlaces: response.data.prizePlaces?.toString() || '3',
+          prizePool: response.data.prizePool?.toString() || '0',
+          lateRegLevels: response.data.lateRegLevels?.toString() || '0',
+          maxReentries: response.data.maxReentries?.toString() || '0',
+          rebuyLevels: response.data.rebuyLevels?.toString() || '0',
+          maxRebuys: response.data.maxRebuys?.toString() || '',
+          rebuyChips: response.data.rebuyChips?.toString() || '',
+          rebuyMaxStack: response.data.rebuyMaxStack?.toString() || '',
+          rebuyCost: response.data.rebuyCost?.toString() || '0',
+          addOnChips: response.data.addOnChips?.toString() || '0',
+          addOnCost: response.data.addOnCost?.toString() || '0',
+          bountyType: response.data.bountyType || '',
+          bountyAmount: response.data.bountyAmount?.toString() || '0',
+          type: response.data.type || 'MTT',
+          autoRespawn: response.data.autoRespawn ? 'true' : '',
+          autoStart: String(!!response.data.autoStart),
+          minEntrants: response.data.minEntrants?.toString() || '2',
+          underMinAction: response.data.underMinAction || 'CANCEL',
+          startDelayMinutes: response.data.startDelayMinutes?.toString() || '15',
+          maxStartDelays: response.data.maxStartDelays?.toString() || '0',
+          ...(response.data.payouts ? { payouts: JSON.stringify(response.data.payouts) } : {}),
           blindLevels: JSON.stringify(response.data.blindLevels || []),
         });
         navigate(`/admin?${params.toString()}`);
@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useTournament } from '../../hooks/useTournaments';
+import { useTournament, formatPlace, type TournamentResult, type TournamentTable } from '../../hooks/useTournaments';
 import { useAuth } from '@shared/features/auth/AuthContext';
 import { useAdmin } from '../../hooks/useAdmin';
 import { TournamentTimestamp } from './TournamentTimestamp';
 import api from '../../services/api';
+import { getSocket } from '../../services/socket';
+import { useTournamentClock, formatClock } from '../../hooks/useTournamentClock';
 
 type Tab = 'players' | 'blinds' | 'prizes' | 'tables';
 
@@ -14,15 +16,20 @@ interface BlindLevel {
   bigBlind: number;
   duration: number | null;
   breakAfter?: number;
+  ante?: number;
+  bigBlindAnte?: boolean;
 }
 
+const formatBlinds = (level: BlindLevel) =>
+  `${level.smallBlind}/${level.bigBlind}${level.ante ? ` (${level.ante}${level.bigBlindAnte ? ' BB' : ''} ante)` : ''}`;
+
 interface Player {
   id: string;
   userId: string;
   user: {
     id: string;
     username: string;
-    avatarUrl?: string;
+    avatarUrl?: string | null;
   };
   chips: number;
   status: string;
@@ -35,18 +42,20 @@ export function TournamentLobby() {
   const { user } = useAuth();
   const { isAdmin } = useAdmin();
   const { tournament, loading, error, refetch } = useTournament(id);
+  const { clock, remainingMs: clockRemainingMs } = useTournamentClock(tournament);
   const [activeTab, setActiveTab] = useState<Tab>('players');
   const [players, setPlayers] = useState<Player[]>([]);
   const [runningTime, setRunningTime] = useState<string>('');
   const [currentBlindLevel, setCurrentBlindLevel] = useState<BlindLevel | null>(null);
   const [nextBlindLevel, setNextBlindLevel] = useState<BlindLevel | null>(null);
-  const [nextBlindIn, setNextBlindIn] = useState<string>('');
   const [remainingPlayers, setRemainingPlayers] = useState<number>(0);
   const [currentPosition, setCurrentPosition] = useState<number | null>(null);
   const [blindLevels, setBlindLevels] = useState<BlindLevel[]>([]);
   const [closingRegistration, setClosingRegistration] = useState(false);
   const [startingTournament, setStartingTournament] = useState(false);
-  const [tables, setTables] = useState<any[]>([]);
+  const [updatingClock, setUpdatingClock] = useState(false);
+  const [lateRegistering, setLateRegistering] = useState(false);
+  const [tables, setTables] = useState<TournamentTable[]>([]);
   const [myGameId, setMyGameId] = useState<string | null>(null);
 
   // Parse blind levels from tournament
@@ -143,65 +152,57 @@ export function TournamentLobby() {
       const hours = Math.floor(diff / (1000 * 60 * 60));
       const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
       setRunningTime(`${hours}h ${minutes}m`);
+    };
 
-      // TODO: Get current blind level from game state
-      // For now, calculate based on running time and blind durations
-      if (blindLevels.length > 0) {
-        let elapsed = diff / 1000 / 60; // minutes
-        let currentLevel = 0;
-        for (let i = 0; i < blindLevels.length; i++) {
-          const level = blindLevels[i];
-          if (level.duration === null) {
-            // Final level (infinite)
-            currentLevel = i;
-            break;
-          }
-          if (elapsed <= level.duration) {
-            currentLevel = i;
-            break;
-          }
-          elapsed -= level.duration;
-          if (level.breakAfter) {
-            elapsed -= level.breakAfter;
-          }
-        }
-        
-        if (currentLevel < blindLevels.length) {
-          setCurrentBlindLevel(blindLevels[currentLevel]);
-          
-          // Get next level
-          if (currentLevel + 1 < blindLevels.length) {
-            setNextBlindLevel(blindLevels[currentLevel + 1]);
-            // Calculate time until next level
-            const currentLevelDuration = blindLevels[currentLevel].duration || 0;
-            const breakDuration = blindLevels[currentLevel].breakAfter || 0;
-            const timeUntilNext = (currentLevelDuration + breakDuration) * 60 * 1000 - (elapsed * 60 * 1000);
-            if (timeUntilNext > 0) {
-              const mins = Math.floor(timeUntilNext / (1000 * 60));
-              setNextBlindIn(`${mins}m`);
-            }
-          } else {
-            setNextBlindLevel(null);
-          }
-        }
-      }
+    updateRunningStats();
+    const interval = setInterval(updateRunningStats, 1000);
+
+    return () => clearInterval(interval);
+  }, [tournament]);
 
-      // TODO: Get actual remaining players from game state
-      // For now, use registered count as placeholder
-      setRemainingPlayers(tournament.registeredCount || 0);
+  // Busts, late entries and the finish change the standings
+  useEffect(() => {
+    if (!id) return;
 
-      // TODO: Get current position for logged-in user
-      if (user) {
-        // Placeholder - would need to query game state
-        setCurrentPosition(null);
+    const socket = getSocket();
+    const handleStandingsChanged = (data: { tournamentId: string }) => {
+      if (data.tournamentId === id) {
+        refetch();
       }
     };
 
-    updateRunningStats();
-    const interval = setInterval(updateRunningStats, 1000);
+    socket.on('player-eliminated', handleStandingsChanged);
+    socket.on('tournament-entry', handleStandingsChanged);
+    socket.on('tournament-completed', handleStandingsChanged);
+    socket.on('tournament-started', handleStandingsChanged);
+    socket.on('tournament-delayed', handleStandingsChanged);
+    socket.on('tournament-cancelled', handleStandingsChanged);
+    if (!socket.connected) {
+      socket.connect();
+    }
 
-    return () => clearInterval(interval);
-  }, [tournament, blindLevels, user]);
+    return () => {
+      socket.off('player-eliminated', handleStandingsChanged);
+      socket.off('tournament-entry', handleStandingsChanged);
+      socket.off('tournament-completed', handleStandingsChanged);
+      socket.off('tournament-started', handleStandingsChanged);
+      socket.off('tournament-delayed', handleStandingsChanged);
+      socket.off('tournament-cancelled', handleStandingsChanged);
+    };
+  }, [id]);
+
+  // The tables' current level comes from the server's clock
+  useEffect(() => {
+    if (!clock || blindLevels.length === 0) {
+      setCurrentBlindLevel(null);
+      setNextBlindLevel(null);
+      return;
+    }
+
+    const currentLevel = Math.min(clock.level, blindLevels.length - 1);
+    setCurrentBlindLevel(blindLevels[currentLevel]);
+    setNextBlindLevel(currentLevel + 1 < blindLevels.length ? blindLevels[currentLevel + 1] : null);
+  }, [clock, blindLevels]);
 
   // Fetch players (registrations or active players)
   useEffect(() => {
@@ -212,39 +213,50 @@ export function TournamentLobby() {
         // If tournament is running/active, fetch from games
         // Otherwise, fetch from registrations
         if (tournament.status === 'RUNNING' || tournament.status === 'ACTIVE') {
-          // TODO: Fetch active players with chip stacks from games
-          // For now, show registered players
+          // Players still in by chip count, then everyone who's out by place
           const response = await api.get(`/api/tournaments/${id}`);
-          if (response.data?.registrations) {
-            const activePlayers = response.data.registrations
-              .filter((r: any) => r.status === 'CONFIRMED')
-              .map((r: any) => ({
-                id: r.id,
-                userId: r.userId,
-                user: r.user,
-                chips: tournament.startingChips, // Placeholder
-                status: 'ACTIVE',
-              }))
-              .sort((a: Player, b: Player) => b.chips - a.chips);
-            setPlayers(activePlayers);
-          }
+          const games: TournamentTable[] = response.data?.games || [];
+          const stillIn: Player[] = games
+            .flatMap((g) => g.players)
+            .filter((p) => p.status !== 'ELIMINATED')
+            .sort((a, b) => b.chips - a.chips)
+            .map((p, index) => ({
+              id: p.id,
+              userId: p.userId,
+              user: p.user,
+              chips: p.chips,
+              status: p.status,
+              position: index + 1,
+            }));
+          const out: Player[] = (response.data?.results || []).map((r: TournamentResult) => ({
+            id: r.id,
+            userId: r.userId,
+            user: r.user,
+            chips: 0,
+            status: 'ELIMINATED',
+            position: r.place,
+          }));
+          const standings = [...stillIn, ...out];
+          setPlayers(standings);
+          setRemainingPlayers(stillIn.length);
+          setCurrentPosition(standings.find((p) => p.userId === user?.id)?.position ?? null);
         } else if (tournament.status === 'COMPLETED') {
-          // TODO: Fetch final standings
           const response = await api.get(`/api/tournaments/${id}`);
-          if (response.data?.registrations) {
-            const finalPlayers = response.data.registrations
-              .filter((r: any) => r.status === 'CONFIRMED')
-              .map((r: any, index: number) => ({
-                id: r.id,
-                userId: r.userId,
-                user: r.user,
-                chips: tournament.startingChips, // Placeholder - would be final chips
-                status: 'COMPLETED',
-                position: index + 1,
-              }))
-              .sort((a: Player, b: Player) => (a.position || 0) - (b.position || 0));
-            setPlayers(finalPlayers);
-          }
+          const games: TournamentTable[] = response.data?.games || [];
+          const finalChips = new Map<string, number>(
+            games
+              .flatMap((g) => g.players)
+              .map((p) => [p.id, p.chips])
+          );
+          const finalPlayers: Player[] = (response.data?.results || []).map((r: TournamentResult) => ({
+            id: r.id,
+            userId: r.userId,
+            user: r.user,
+            chips: finalChips.get(r.playerId ?? '') ?? 0,
+            status: 'COMPLETED',
+            position: r.place,
+          }));
+          setPlayers(finalPlayers);
         } else {
           // Show registered players
           const response = await api.get(`/api/tournaments/${id}`);
@@ -267,7 +279,7 @@ export function TournamentLobby() {
     };
 
     fetchPlayers();
-  }, [tournament, id]);
+  }, [tournament, id, user]);
 
   if (loading) {
     return (
@@ -347,14 +359,97 @@ export function TournamentLobby() {
     }
   };
 
+  const handleClockAction = async (action: 'pause' | 'resume' | 'skip-level') => {
+    setUpdatingClock(true);
+    try {
+      const token = localStorage.getItem('sessionToken');
+      if (!token) {
+        alert('Not authenticated');
+        return;
+      }
+
+      // The new clock arrives over the socket
+      await api.post(
+        `/api/admin/tournaments/${id}/clock/${action}`,
+        {},
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        }
+      );
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to update the clock');
+      console.error('Error updating clock:', err);
+    } finally {
+      setUpdatingClock(false);
+    }
+  };
+
+  const handleLateRegister = async () => {
+    if (!user) return;
+
+    setLateRegistering(true);
+    try {
+      const token = localStorage.getItem('sessionToken');
+      if (!token) {
+        alert('Not authenticated');
+        return;
+      }
+
+      // The server seats the new entry at the shortest table
+      await api.post(
+        `/api/tournaments/${id}/register`,
+        {},
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        }
+      );
+      await refetch();
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to register');
+      console.error('Error late registering:', err);
+    } finally {
+      setLateRegistering(false);
+    }
+  };
+
   const startTime = new Date(tournament.startTime);
   const registeredCount = tournament.registeredCount || 0;
   const isRunning = tournament.status === 'RUNNING' || tournament.status === 'ACTIVE';
+  const isWaitingSitAndGo = tournament.type === 'SIT_AND_GO' && (tournament.status === 'SCHEDULED' || tournament.status === 'REGISTERING');
   const isCompleted = tournament.status === 'COMPLETED';
   const isSeated = tournament.status === 'SEATED';
   const isRegistering = tournament.status === 'REGISTERING' || tournament.status === 'REGISTRATION' || tournament.status === 'SCHEDULED';
   const servers = tournament.servers || [];
 
+  // Late registration runs from seating through the end of level `lateRegLevels`
+  const lateRegLevels = tournament.lateRegLevels || 0;
+  const maxReentries = tournament.maxReentries || 0;
+  const lateRegOpen = lateRegLevels > 0 && (isSeated || (isRunning && !!clock && clock.level < lateRegLevels));
+  const myEntries = tables
+    .flatMap((g) => g.players || [])
+    .filter((p) => p.userId === user?.id);
+  const stillPlaying = myEntries.some((p) => p.status !== 'ELIMINATED');
+  // Bounties collected so far (final amounts once it's over, one result
+  // per entry), added up per player, biggest first
+  const bountiesWon = isCompleted
+    ? (tournament.results || []).map((r) => ({ userId: r.userId, username: r.user.username, amount: r.bounty || 0 }))
+    : tables
+        .flatMap((g) => g.players || [])
+        .map((p) => ({ userId: p.userId, username: p.user?.username || 'Player', amount: p.bountyWon }));
+  const bountyWinners: { userId: string; username: string; amount: number }[] = Object.values(
+    bountiesWon
+      .filter((b) => b.amount > 0)
+      .reduce((byUser: Record<string, { userId: string; username: string; amount: number }>, b) => {
+        const entry = byUser[b.userId] || { ...b, amount: 0 };
+        entry.amount += b.amount;
+        byUser[b.userId] = entry;
+        return byUser;
+      }, {})
+  );
+  bountyWinners.sort((a, b) => b.amount - a.amount);
+  const canLateRegister = !!user && lateRegOpen && !stillPlaying &&
+    (myEntries.length === 0 ? registeredCount < tournament.maxPlayers : myEntries.length <= maxReentries);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -372,7 +467,12 @@ export function TournamentLobby() {
         <div className="flex items-start justify-between">
           <div className="flex-1">
             <h1 className="text-3xl font-bold text-slate-100">{tournament.name}</h1>
-            {!isCompleted && (
+            {isWaitingSitAndGo && (
+              <p className="mt-2 text-slate-400">
+                Sit &amp; Go · starts when all {tournament.maxPlayers} seats are taken ({registeredCount} so far)
+              </p>
+            )}
+            {!isCompleted && !isWaitingSitAndGo && (
               <div className="mt-2">
                 <TournamentTimestamp 
                   startTime={startTime} 
@@ -380,6 +480,15 @@ export function TournamentLobby() {
                 />
               </div>
             )}
+            {tournament.autoStart && (tournament.status === 'SCHEDULED' || tournament.status === 'REGISTERING') && (
+              <p className="mt-1 text-sm text-slate-400">
+                Starts automatically with at least {tournament.minEntrants ?? 2} players
+                {tournament.underMinAction === 'DELAY'
+                  ? ', or is pushed back until it has them'
+                  : ', or is cancelled'}
+                {!!tournament.startDelays && ` · delayed ${tournament.startDelays} ${tournament.startDelays === 1 ? 'time' : 'times'}`}
+              </p>
+            )}
             {isCompleted && (
               <p className="mt-2 text-slate-400">
                 Completed: {startTime.toLocaleString()}
@@ -424,9 +533,67 @@ export function TournamentLobby() {
                 {startingTournament ? 'Starting Tournament...' : 'Start Tournament'}
               </button>
             )}
+            {isRunning && clock && (
+              <>
+                <button
+                  onClick={() => handleClockAction(clock.paused ? 'resume' : 'pause')}
+                  disabled={updatingClock}
+                  className="rounded bg-amber-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {clock.paused ? 'Resume Clock' : 'Pause Clock'}
+                </button>
+                <button
+                  onClick={() => handleClockAction('skip-level')}
+                  disabled={updatingClock || !nextBlindLevel}
+                  className="rounded bg-slate-700 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Skip to Next Level
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Late Registration */}
+        {lateRegOpen && (
+          <div className="mt-4 flex items-center justify-between gap-3 rounded-lg border border-blue-500/30 bg-blue-500/10 px-4 py-3">
+            <div className="text-sm text-blue-200">
+              Late registration open through level {lateRegLevels}
+              {maxReentries > 0 && (
+                <span className="text-blue-300/70">
+                  {' '}· up to {maxReentries} re-entr{maxReentries === 1 ? 'y' : 'ies'}
+                </span>
+              )}
+            </div>
+            {canLateRegister && (
+              <button
+                onClick={handleLateRegister}
+                disabled={lateRegistering}
+                className="rounded bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {lateRegistering ? 'Registering...' : myEntries.length > 0 ? 'Re-enter' : 'Late Register'}
+              </button>
+            )}
           </div>
         )}
 
+        {/* Rebuys & Add-on */}
+        {((tournament.rebuyLevels || 0) > 0 || (tournament.addOnChips || 0) > 0) && !isCompleted && (
+          <p className="mt-4 text-sm text-slate-400">
+            {(tournament.rebuyLevels || 0) > 0 && (
+              <>
+                Rebuys of {(tournament.rebuyChips || 0).toLocaleString()} through level {tournament.rebuyLevels}
+                {' '}({tournament.maxRebuys == null ? 'no limit' : `up to ${tournament.maxRebuys}`}, at{' '}
+                {(tournament.rebuyMaxStack ?? tournament.startingChips).toLocaleString()} chips or less)
+              </>
+            )}
+            {(tournament.rebuyLevels || 0) > 0 && (tournament.addOnChips || 0) > 0 && ' · '}
+            {(tournament.addOnChips || 0) > 0 && (
+              <>Add-on of {(tournament.addOnChips || 0).toLocaleString()} on the first break</>
+            )}
+          </p>
+        )}
+
         {/* Running Tournament Stats */}
         {isRunning && (
           <div className="mt-6 grid grid-cols-2 gap-4 md:grid-cols-4 rounded-lg border border-slate-800 bg-slate-800/30 p-4">
@@ -437,7 +604,7 @@ export function TournamentLobby() {
             <div>
               <span className="text-xs text-slate-400">Current Blinds</span>
               <p className="mt-1 text-lg font-semibold text-slate-200">
-                {currentBlindLevel ? `${currentBlindLevel.smallBlind}/${currentBlindLevel.bigBlind}` : '-'}
+                {currentBlindLevel ? formatBlinds(currentBlindLevel) : '-'}
               </p>
             </div>
             <div>
@@ -445,8 +612,14 @@ export function TournamentLobby() {
               <p className="mt-1 text-lg font-semibold text-slate-200">
                 {nextBlindLevel ? (
                   <>
-                    {nextBlindLevel.smallBlind}/{nextBlindLevel.bigBlind}
-                    {nextBlindIn && <span className="ml-1 text-sm text-slate-400">in {nextBlindIn}</span>}
+                    {formatBlinds(nextBlindLevel)}
+                    {clock?.paused ? (
+                      <span className="ml-1 text-sm text-amber-400">paused</span>
+                    ) : clockRemainingMs !== null && (
+                      <span className="ml-1 text-sm text-slate-400">
+                        {clock?.onBreak ? 'after break, ' : ''}in {formatClock(clockRemainingMs)}
+                      </span>
+                    )}
                   </>
                 ) : '-'}
               </p>
@@ -460,7 +633,7 @@ export function TournamentLobby() {
             {currentPosition && (
               <div className="col-span-2 md:col-span-4">
                 <span className="text-xs text-slate-400">Your Position</span>
-                <p className="mt-1 text-lg font-semibold text-emerald-400">{currentPosition}th</p>
+                <p className="mt-1 text-lg font-semibold text-emerald-400">{formatPlace(currentPosition)}</p>
               </div>
             )}
           </div>
@@ -614,7 +787,9 @@ export function TournamentLobby() {
                         {player.chips.toLocaleString()} chips
                       </p>
                       {isRunning && player.position && (
-                        <p className="text-xs text-slate-400">Position: {player.position}th</p>
+                        <p className="text-xs text-slate-400">
+                          {player.status === 'ELIMINATED' ? 'Finished' : 'Position:'} {formatPlace(player.position)}
+                        </p>
                       )}
                     </div>
                   </div>
@@ -652,6 +827,11 @@ export function TournamentLobby() {
                           <p className="mt-1 text-lg font-bold text-slate-100">
                             {level.smallBlind} / {level.bigBlind}
                           </p>
+                          {level.ante ? (
+                            <p className="mt-1 text-xs text-slate-400">
+                              {level.bigBlindAnte ? 'Big blind ante' : 'Ante'} {level.ante}
+                            </p>
+                          ) : null}
                         </div>
                         <div className="text-right">
                           {level.duration === null ? (
@@ -674,8 +854,90 @@ export function TournamentLobby() {
           )}
 
           {activeTab === 'prizes' && (
-            <div className="text-center py-8">
-              <p className="text-slate-400">Prize structure coming soon</p>
+            <div className="space-y-3">
+              {tournament.payoutStructure?.type !== 'FIXED' && (
+                <p className="text-sm text-slate-400">
+                  Prize pool:{' '}
+                  <span className="font-semibold text-slate-200">
+                    {(tournament.prizePoolTotal ?? tournament.prizePool ?? 0).toLocaleString()}
+                  </span>
+                  {(tournament.rebuysTaken || tournament.addOnsTaken) ? (
+                    <span className="ml-2 text-xs text-slate-500">
+                      incl. {tournament.rebuysTaken || 0} rebuy(s), {tournament.addOnsTaken || 0} add-on(s)
+                    </span>
+                  ) : null}
+                </p>
+              )}
+              {tournament.deal && (
+                <div className="rounded-lg border border-emerald-500/50 bg-emerald-500/5 p-4">
+                  <p className="font-medium text-emerald-300">
+                    Deal agreed ({{ ICM: 'ICM', CHIP_CHOP: 'chip chop', CUSTOM: 'custom' }[tournament.deal.method]})
+                  </p>
+                  {tournament.deal.players.map((player) => (
+                    <p key={player.userId} className="text-sm text-slate-300">
+                      {player.username || 'Player'}: {player.amount.toLocaleString()}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {tournament.bountyType && (
+                <div className="rounded-lg border border-amber-500/30 bg-amber-500/5 p-4">
+                  <p className="font-medium text-amber-300">
+                    {tournament.bountyType === 'PROGRESSIVE' ? 'Progressive knockout' : 'Bounties'}:{' '}
+                    {(tournament.bountyAmount || 0).toLocaleString()} per entry
+                  </p>
+                  {tournament.bountyType === 'PROGRESSIVE' && (
+                    <p className="text-xs text-slate-400">Half of each bounty is paid out, half goes onto the eliminator's head</p>
+                  )}
+                  {bountyWinners.map((winner) => (
+                    <p
+                      key={winner.userId}
+                      className={`text-sm ${winner.userId === user?.id ? 'text-emerald-400' : 'text-slate-300'}`}
+                    >
+                      {winner.username}: {winner.amount.toLocaleString()}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {!tournament.payouts || tournament.payouts.length === 0 ? (
+                <p className="text-slate-400 text-center py-8">No prizes configured.</p>
+              ) : (
+                tournament.payouts.map((payout) => {
+                  // Players tied on a place split its prize with the places below
+                  const winners = isCompleted
+                    ? (tournament.results || []).filter((r) => r.place === payout.place)
+                    : [];
+                  return (
+                    <div
+                      key={payout.place}
+                      className={`flex items-center justify-between rounded-lg border border-slate-800 bg-slate-800/30 p-4 ${
+                        winners.some((w) => w.userId === user?.id) ? 'border-emerald-500/50 bg-emerald-500/5' : ''
+                      }`}
+                    >
+                      <div className="flex items-center gap-4">
+                        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-slate-700 text-lg font-bold text-slate-200">
+                          {payout.place}
+                        </div>
+                        <div>
+                          <p className="font-medium text-slate-200">{formatPlace(payout.place)}</p>
+                          {winners.map((winner) => (
+                            <p key={winner.id} className="text-xs text-slate-400">
+                              {winner.user.username}
+                              {winner.prize !== null && ` won ${winner.prize.toLocaleString()}`}
+                            </p>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold text-slate-200">{payout.amount.toLocaleString()}</p>
+                        {payout.percent !== null && (
+                          <p className="text-xs text-slate-400">{payout.percent}%</p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })
+              )}
             </div>
           )}
 
@@ -709,7 +971,7 @@ export function TournamentLobby() {
                           </p>
                           {table.players && table.players.length > 0 && (
                             <div className="mt-2 flex flex-wrap gap-2">
-                              {table.players.map((player: any) => (
+                              {table.players.map((player) => (
                                 <span
                                   key={player.id}
                                   className="rounded bg-slate-700 px-2 py-1 text-xs text-slate-300"
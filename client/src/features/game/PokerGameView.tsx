@@ -1,15 +1,18 @@
 import { useEffect, useState } from "react";
-import { useParams } from "react-router-dom";
-import { getSocket } from "../../services/socket";
+import { useNavigate, useParams } from "react-router-dom";
+import { ensureSocketAuth, getSocket } from "../../services/socket";
 import { PokerTable } from "../../components/poker/PokerTable";
-import type { Card } from "@shared/types/poker";
+import type { Card, LegalAction } from "@shared/types/poker";
 import { BettingControls } from "../../components/poker/BettingControls";
 import { useAuth } from "@shared/features/auth/AuthContext";
 import Chat from "@shared/components/chat/Chat";
 import type { Player } from "@shared/types/game";
 import PlayerStatsModal from "../../components/modals/PlayerStatsModal";
 import { api } from "../../services/api";
-import { useTournament } from "../../hooks/useTournaments";
+import { useTournament, formatPlace, type ChipsEligibility } from "../../hooks/useTournaments";
+import { useTournamentClock, formatClock } from "../../hooks/useTournamentClock";
+import { useAdmin } from "../../hooks/useAdmin";
+import { DealPanel } from "../../components/tournament/DealPanel";
 
 interface PlayerViewModel {
   id: string;
@@ -17,10 +20,12 @@ interface PlayerViewModel {
   chips: number;
   seatNumber: number;
   status: string;
-  holeCards?: Card[];
+  holeCards?: Card[] | null;
+  hasCards?: boolean;
   avatarUrl?: string;
   userId?: string;
   contribution?: number;
+  bounty?: number; // bounty tournaments only
 }
 
 interface GameStatePayload {
@@ -28,17 +33,24 @@ interface GameStatePayload {
   tournamentId?: string;
   tableNumber?: number;
   pot: number;
+  sidePots?: { amount: number; eligiblePlayerIds: string[] }[];
   communityCards: string;
   players: PlayerViewModel[];
   smallBlind?: number;
   bigBlind?: number;
+  ante?: number;
+  bigBlindAnte?: boolean;
+  blindLevel?: number | null;
   dealerSeat?: number;
   smallBlindSeat?: number;
   bigBlindSeat?: number;
   currentTurnUserId?: string;
+  handNumber?: number | null;
+  actionSeq?: number;
   street?: string;
   currentBet?: number;
   minimumRaise?: number;
+  legalActions?: LegalAction[] | null;
 }
 
 function parseCommunityCards(encoded: string): Card[] {
@@ -69,15 +81,21 @@ function playSound(soundFile: string, volume: number = 0.7) {
 
 export function PokerGameView() {
   const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
   const [gameState, setGameState] = useState<GameStatePayload | null>(null);
   const [prevGameState, setPrevGameState] = useState<GameStatePayload | null>(null);
   const [connecting, setConnecting] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [turnTimer, setTurnTimer] = useState<{ userId: string; expiresAt: number; duration: number } | null>(null);
-  const [nextBlindTime, setNextBlindTime] = useState<string>('--:--');
   const [isPortrait, setIsPortrait] = useState(false);
   const { user } = useAuth();
+  const { isAdmin } = useAdmin();
+  const [showDeal, setShowDeal] = useState(false);
+  const [buyingChips, setBuyingChips] = useState(false);
   const { tournament, refetch: refetchTournament } = useTournament(gameState?.tournamentId);
+  // Newer than the tournament's canRebuy/canAddOn until it's fetched again
+  const [chipsEligibility, setChipsEligibility] = useState<ChipsEligibility | null>(null);
+  const { clock, remainingMs: clockRemainingMs } = useTournamentClock(tournament);
   
   // Check screen orientation
   useEffect(() => {
@@ -116,6 +134,11 @@ export function PokerGameView() {
     }
   }, [gameState?.tournamentId, tournament?.status, tournament?.startedAt, refetchTournament]);
 
+  // A fresh fetch of the tournament is at least as new as what was pushed
+  useEffect(() => {
+    setChipsEligibility(null);
+  }, [tournament]);
+
   useEffect(() => {
     if (!id) return;
 
@@ -130,16 +153,47 @@ export function PokerGameView() {
     };
     
     socket.on('tournament-started', handleTournamentStarted);
+
+    // Busts, deals and the finish bring the results (and maybe our place) up to date
+    const handleStandingsChanged = (data: { tournamentId: string }) => {
+      if (data.tournamentId === gameState?.tournamentId) {
+        refetchTournament();
+      }
+    };
+    socket.on('player-eliminated', handleStandingsChanged);
+    socket.on('tournament-completed', handleStandingsChanged);
+    socket.on('deal-recorded', handleStandingsChanged);
+
+    // An admin put deal numbers in front of the players
+    const handleDealProposed = (data: { tournamentId: string }) => {
+      if (data.tournamentId === gameState?.tournamentId) {
+        setShowDeal(true);
+      }
+    };
+    socket.on('deal-proposed', handleDealProposed);
+
+    // Rebuys and add-ons change the prize pool (and our pending chips)
+    socket.on('chips-bought', handleStandingsChanged);
+
+    // What we can buy moves with our stack and the clock; the server tells
+    // our seat when it does
+    socket.on('chips-eligibility', setChipsEligibility);
     
     // Ensure socket is connected
     if (!socket.connected) {
       socket.connect();
     }
 
+    // Make sure the handshake carries the current session before joining;
+    // if it reconnects, the "connect" handler below re-joins
+    ensureSocketAuth();
+
     // Use default namespace - backend handles routing
     socket.emit("join-table", { gameId: id });
 
     socket.on("game-state", (payload: GameStatePayload) => {
+      // Ignore a table we've just been moved away from
+      if (payload.id !== id) return;
       setGameState((prev) => {
         // Store previous state before updating
         if (prev) {
@@ -156,6 +210,14 @@ export function PokerGameView() {
       setConnecting(false);
     });
 
+    // Stale actions (double clicks, or the turn moved on first) are expected;
+    // the next game-state brings the controls up to date, so just note them
+    socket.on("action-rejected", (payload: { gameId: string; action: string; message: string }) => {
+      if (payload.gameId === id) {
+        console.warn(`[POKER] ${payload.action} rejected: ${payload.message}`);
+      }
+    });
+
     socket.on("connect", () => {
       // Re-join table when reconnected
       socket.emit("join-table", { gameId: id });
@@ -166,6 +228,22 @@ export function PokerGameView() {
       window.dispatchEvent(new CustomEvent('gameMessage', { detail: { gameId: id, message } }));
     });
 
+    // Table balancing moved us, or broke this table
+    socket.on("table-changed", (payload: { gameId: string; fromGameId: string; tableNumber: number }) => {
+      if (payload.fromGameId === id) {
+        console.log(`[POKER] Moved to table ${payload.tableNumber}`);
+        setGameState(null);
+        setPrevGameState(null);
+        navigate(`/game/${payload.gameId}`, { replace: true });
+      }
+    });
+
+    socket.on("table-closed", (payload: { gameId: string }) => {
+      if (payload.gameId === id) {
+        navigate(gameState?.tournamentId ? `/tournaments/${gameState.tournamentId}` : '/tournaments', { replace: true });
+      }
+    });
+
     socket.on("turn-timer-start", (payload: { gameId: string; userId: string; expiresAt: number; duration: number }) => {
       if (payload.gameId === id) {
         setTurnTimer({ userId: payload.userId, expiresAt: payload.expiresAt, duration: payload.duration });
@@ -186,104 +264,25 @@ export function PokerGameView() {
     }, 100);
 
     return () => {
+      socket.off('tournament-started', handleTournamentStarted);
+      socket.off('player-eliminated', handleStandingsChanged);
+      socket.off('tournament-completed', handleStandingsChanged);
+      socket.off('deal-recorded', handleStandingsChanged);
+      socket.off('deal-proposed', handleDealProposed);
+      socket.off('chips-bought', handleStandingsChanged);
+      socket.off('chips-eligibility', setChipsEligibility);
       socket.off("game-state");
       socket.off("error");
+      socket.off("action-rejected");
       socket.off("connect");
       socket.off("game_message");
+      socket.off("table-changed");
+      socket.off("table-closed");
       socket.off("turn-timer-start");
       clearInterval(timerInterval);
     };
-  }, [id, turnTimer]);
+  }, [id, turnTimer, user?.id]);
 
-  // Calculate next blind timer based on tournament startedAt
-  useEffect(() => {
-    if (!tournament) {
-      setNextBlindTime('--:--');
-      return;
-    }
-    
-    if (!tournament.startedAt) {
-      setNextBlindTime('--:--');
-      return;
-    }
-    
-    // Timer only works when tournament is RUNNING (after Start Tournament is clicked)
-    // This sets startedAt and status to RUNNING
-    if (tournament.status !== 'RUNNING') {
-      setNextBlindTime('--:--');
-      return;
-    }
-    
-    const calculateNextBlind = () => {
-      if (!tournament.startedAt) {
-        setNextBlindTime('--:--');
-        return;
-      }
-      
-      const now = new Date();
-      const startedAt = new Date(tournament.startedAt);
-      const elapsedMs = now.getTime() - startedAt.getTime();
-      let elapsedMinutes = elapsedMs / 1000 / 60;
-      
-      if (elapsedMs < 0) {
-        // Tournament hasn't started yet
-        setNextBlindTime('--:--');
-        return;
-      }
-
-      const blindLevels = tournament.blindLevels || [];
-      if (blindLevels.length === 0) {
-        setNextBlindTime('--:--');
-        return;
-      }
-
-      // Find current blind level
-      let currentLevelIndex = 0;
-      for (let i = 0; i < blindLevels.length; i++) {
-        const level = blindLevels[i];
-        if (level.duration === null) {
-          // Final level (infinite duration)
-          currentLevelIndex = i;
-          break;
-        }
-        if (elapsedMinutes <= level.duration) {
-          currentLevelIndex = i;
-          break;
-        }
-        elapsedMinutes -= level.duration;
-        // Account for break after level
-        if (level.breakAfter) {
-          elapsedMinutes -= level.breakAfter;
-        }
-      }
-
-      // Calculate time until next level
-      if (currentLevelIndex + 1 < blindLevels.length) {
-        const currentLevel = blindLevels[currentLevelIndex];
-        const levelDuration = currentLevel.duration || 0;
-        const breakDuration = currentLevel.breakAfter || 0;
-        const totalLevelTime = (levelDuration + breakDuration) * 60 * 1000; // Convert to ms
-        const timeIntoLevel = elapsedMinutes * 60 * 1000;
-        const timeUntilNext = totalLevelTime - timeIntoLevel;
-
-        if (timeUntilNext > 0) {
-          const minutes = Math.floor(timeUntilNext / 60000);
-          const seconds = Math.floor((timeUntilNext % 60000) / 1000);
-          setNextBlindTime(`${minutes}:${seconds.toString().padStart(2, '0')}`);
-        } else {
-          setNextBlindTime('0:00');
-        }
-      } else {
-        // Final level
-        setNextBlindTime('∞');
-      }
-    };
-
-    calculateNextBlind();
-    const interval = setInterval(calculateNextBlind, 1000); // Update every second
-
-    return () => clearInterval(interval);
-  }, [tournament]);
 
   // Sound effects: Play sounds when game state changes
   useEffect(() => {
@@ -340,9 +339,11 @@ export function PokerGameView() {
     const socket = getSocket();
     socket.emit("player-action", {
       gameId: id,
-      userId: user.id,
       action,
-      amount
+      amount,
+      // Lets the server drop double clicks and clicks that raced the turn timer
+      handNumber: gameState.handNumber,
+      actionSeq: gameState.actionSeq
     });
   };
 
@@ -395,10 +396,55 @@ export function PokerGameView() {
 
   const smallBlind = gameState.smallBlind || 10;
   const bigBlind = gameState.bigBlind || 20;
+  const ante = gameState.ante || 0;
+  // Time to the next level (or the end of the break), as the server's clock has it
+  const nextBlindTime = !clock
+    ? '--:--'
+    : clock.paused
+      ? 'PAUSED'
+      : clockRemainingMs === null
+        ? '∞'
+        : formatClock(clockRemainingMs);
   const activePlayers = gameState.players.filter(p => p.status !== 'ELIMINATED');
   const myPlayer = gameState.players.find(p => p.userId === user?.id || p.id === user?.id);
   const myPosition = myPlayer ? activePlayers.findIndex(p => p.id === myPlayer.id) + 1 : null;
-  const myContribution = myPlayer?.contribution || 0;
+  const myResult = tournament?.results?.find(r => r.userId === user?.id);
+  // Deals are made once it's down to one table
+  const isFinalTable = tournament?.status === 'RUNNING'
+    && (tournament.games || []).filter((g) => g.status === 'ACTIVE').length === 1;
+
+  // Rebuys and the add-on as the server would allow them: sent with the
+  // tournament, then pushed to our seat as they change
+  const myEntry = chipsEligibility && chipsEligibility.playerId === myPlayer?.id
+    ? chipsEligibility
+    : (tournament?.games || [])
+        .flatMap((g) => g.players)
+        .find((p) => p.id === myPlayer?.id);
+  const pendingChips = myEntry?.pendingChips || 0;
+  const canRebuy = !!myEntry?.canRebuy;
+  const canAddOn = !!myEntry?.canAddOn;
+
+  const handleBuyChips = async (kind: 'REBUY' | 'ADD_ON') => {
+    setBuyingChips(true);
+    try {
+      const token = localStorage.getItem('sessionToken');
+      if (!token) {
+        alert('Not authenticated');
+        return;
+      }
+
+      await api.post(
+        `/api/tournaments/${gameState.tournamentId}/buy-chips`,
+        { kind },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to buy chips');
+      console.error('Error buying chips:', err);
+    } finally {
+      setBuyingChips(false);
+    }
+  };
 
   // Show landscape prompt if in portrait mode
   if (isPortrait) {
@@ -433,13 +479,18 @@ export function PokerGameView() {
               className="font-semibold text-slate-400 uppercase tracking-wide"
               style={{ fontSize: 'var(--top-bar-label-size, 12px)' }}
             >
-              BLINDS
+              BLINDS{gameState.blindLevel != null && ` · LVL ${gameState.blindLevel + 1}`}
             </span>
             <span 
               className="font-bold text-white"
               style={{ fontSize: 'var(--top-bar-value-size, 18px)' }}
             >
               {smallBlind}/{bigBlind}
+              {ante > 0 && (
+                <span className="ml-1 text-slate-400" style={{ fontSize: 'var(--top-bar-label-size, 12px)' }}>
+                  ({ante}{gameState.bigBlindAnte ? ' BB' : ''} ante)
+                </span>
+              )}
             </span>
           </div>
           <div className="flex flex-col">
@@ -447,7 +498,7 @@ export function PokerGameView() {
               className="font-semibold text-slate-400 uppercase tracking-wide"
               style={{ fontSize: 'var(--top-bar-label-size, 12px)' }}
             >
-              NEXT BLIND
+              {clock?.onBreak ? 'BREAK ENDS' : 'NEXT BLIND'}
             </span>
             <span 
               className="font-bold text-white"
@@ -470,8 +521,59 @@ export function PokerGameView() {
               {gameState.pot.toLocaleString()}
             </span>
           </div>
+          {gameState.sidePots && gameState.sidePots.length > 1 && (
+            <div className="flex flex-col">
+              <span 
+                className="font-semibold text-slate-400 uppercase tracking-wide"
+                style={{ fontSize: 'var(--top-bar-label-size, 12px)' }}
+              >
+                POTS
+              </span>
+              <span 
+                className="font-bold text-white"
+                style={{ fontSize: 'var(--top-bar-value-size, 18px)' }}
+              >
+                {gameState.sidePots.map((sidePot, index) => (
+                  <span key={index} className={index > 0 ? 'ml-3' : ''}>
+                    {index === 0 ? 'Main' : `Side ${index}`}: {sidePot.amount.toLocaleString()}
+                  </span>
+                ))}
+              </span>
+            </div>
+          )}
         </div>
         <div className="flex items-center" style={{ gap: 'var(--top-bar-gap, 24px)' }}>
+          {pendingChips > 0 && (
+            <span className="text-xs font-semibold text-emerald-400">
+              +{pendingChips.toLocaleString()} next hand
+            </span>
+          )}
+          {canRebuy && (
+            <button
+              onClick={() => handleBuyChips('REBUY')}
+              disabled={buyingChips}
+              className="rounded bg-emerald-600 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white hover:bg-emerald-500 disabled:opacity-50"
+            >
+              Rebuy {tournament?.rebuyChips?.toLocaleString()}
+            </button>
+          )}
+          {canAddOn && (
+            <button
+              onClick={() => handleBuyChips('ADD_ON')}
+              disabled={buyingChips}
+              className="rounded bg-emerald-600 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white hover:bg-emerald-500 disabled:opacity-50"
+            >
+              Add-on {tournament?.addOnChips?.toLocaleString()}
+            </button>
+          )}
+          {isFinalTable && (
+            <button
+              onClick={() => setShowDeal(!showDeal)}
+              className="rounded bg-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white hover:bg-slate-600"
+            >
+              {tournament?.deal ? 'Deal' : 'Deal?'}
+            </button>
+          )}
           <div className="flex flex-col text-right">
             <span 
               className="font-semibold text-slate-400 uppercase tracking-wide"
@@ -520,6 +622,7 @@ export function PokerGameView() {
                 chips: p.chips,
                 seatNumber: p.seatNumber,
                 holeCards: p.holeCards,
+                hasCards: p.hasCards,
                 isActive: p.status === 'ACTIVE',
                 isDealer: p.seatNumber === gameState.dealerSeat,
                 isSmallBlind: p.seatNumber === gameState.smallBlindSeat,
@@ -527,6 +630,7 @@ export function PokerGameView() {
                 avatarUrl: p.avatarUrl,
                 userId: p.userId,
                 contribution: p.contribution || 0,
+                bounty: p.bounty || 0,
               }))}
               communityCards={communityCards}
               pot={gameState.pot}
@@ -536,6 +640,29 @@ export function PokerGameView() {
               bigBlind={bigBlind}
               myUserId={user?.id}
             />
+            {showDeal && gameState.tournamentId && (
+              <DealPanel
+                tournamentId={gameState.tournamentId}
+                myUserId={user?.id}
+                isAdmin={isAdmin}
+                onClose={() => setShowDeal(false)}
+              />
+            )}
+            {myResult && (
+              <div className="absolute inset-0 z-40 flex items-center justify-center bg-slate-950/60">
+                <div className="rounded-xl border border-slate-700 bg-slate-900/95 px-8 py-6 text-center shadow-xl">
+                  <p className="text-2xl font-bold text-white">
+                    {myResult.place === 1 ? 'You won the tournament!' : `You finished ${formatPlace(myResult.place)}`}
+                  </p>
+                  <button
+                    onClick={() => navigate(`/tournaments/${tournament?.id}`)}
+                    className="mt-4 rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-500"
+                  >
+                    Back to lobby
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Betting controls - fixed at bottom */}
@@ -572,14 +699,10 @@ export function PokerGameView() {
             )}
               <BettingControls 
                 onAction={handleAction} 
-                currentBet={gameState.currentBet || 0}
+                legalActions={gameState.legalActions}
                 bigBlind={bigBlind}
-                myChips={myPlayer?.chips || 0}
-                street={gameState.street || 'PREFLOP'}
-                minimumRaise={gameState.minimumRaise || bigBlind}
-                isBigBlind={myPlayer?.seatNumber === gameState.bigBlindSeat}
+                pot={gameState.pot}
                 isMyTurn={gameState.currentTurnUserId === user?.id}
-                myContribution={myContribution}
               />
           </div>
         </div>
@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import { api } from '../services/api';
+
+// A saved tournament setup; see TournamentTemplates on the server
+export interface TournamentTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  settings: Record<string, unknown>; // the create form's fields, less name and start time
+  serverIds: string[]; // Discord servers its tournaments are posted to
+  recurring: boolean;
+  daysOfWeek: number[]; // 0 = Sunday
+  timeOfDay: string | null; // "HH:MM" in timeZone
+  timeZone: string;
+  leadHours: number; // tournaments are created and posted this long before they start
+  nextStartTime: string | null;
+  _count?: { tournaments: number };
+}
+
+export function useTemplates(refreshKey = 0) {
+  const [templates, setTemplates] = useState<TournamentTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTemplates = async () => {
+    try {
+      setLoading(true);
+      const token = localStorage.getItem('sessionToken');
+      const response = await api.get('/api/admin/templates', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      setTemplates(response.data);
+      setError(null);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to fetch templates');
+      console.error('Error fetching templates:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [refreshKey]);
+
+  return { templates, loading, error, refetch: fetchTemplates };
+}
@@ -0,0 +1,60 @@
+import { useState, useEffect } from 'react';
+import { getSocket } from '../services/socket';
+import type { Tournament, TournamentClockState } from './useTournaments';
+
+/**
+ * The tournament's blind clock, kept current by the server's `clock` events.
+ * `remainingMs` counts down locally from the last update we got (so our own
+ * clock being off doesn't matter) and stays put while the clock is paused.
+ */
+export function useTournamentClock(tournament: Tournament | null) {
+  const [clock, setClock] = useState<{ state: TournamentClockState; receivedAt: number } | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Start from the clock that came with the tournament
+  useEffect(() => {
+    setClock(tournament?.clock ? { state: tournament.clock, receivedAt: Date.now() } : null);
+  }, [tournament]);
+
+  useEffect(() => {
+    if (!tournament?.id) return;
+
+    const socket = getSocket();
+    const handleClock = (state: TournamentClockState) => {
+      if (state.tournamentId === tournament.id) {
+        setClock({ state, receivedAt: Date.now() });
+      }
+    };
+
+    socket.on('clock', handleClock);
+    if (!socket.connected) {
+      socket.connect();
+    }
+
+    return () => {
+      socket.off('clock', handleClock);
+    };
+  }, [tournament?.id]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!clock) {
+    return { clock: null, remainingMs: null };
+  }
+
+  const { state, receivedAt } = clock;
+  const remainingMs = state.remainingMs === null || state.paused
+    ? state.remainingMs
+    : Math.max(0, state.remainingMs - (now - receivedAt));
+
+  return { clock: state, remainingMs };
+}
+
+export function formatClock(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { api } from '../services/api';
 
 export interface TournamentServer {
@@ -8,6 +8,124 @@ export interface TournamentServer {
   inviteLink: string | null;
 }
 
+// The server's blind clock; see TournamentClock on the server
+export interface TournamentClockState {
+  tournamentId: string;
+  level: number; // index into blindLevels the tables are playing
+  onBreak: boolean; // on the break after `level`
+  paused: boolean;
+  levelStartedAt: string | null;
+  endsAt: string | null;
+  remainingMs: number | null; // left in the level or break; null if it doesn't end
+}
+
+// Where one entry finished (a player who re-entered has one per entry);
+// written as it busts, and for the winner when the tournament completes
+export interface TournamentResult {
+  id: string;
+  userId: string;
+  playerId?: string | null; // the entry; missing on results from before re-entries
+  place: number; // 1 = winner
+  prize: number | null; // set when the tournament completes
+  bounty?: number; // bounties won, set when the tournament completes
+  finishedAt: Date | string;
+  user: {
+    id: string;
+    username: string;
+    avatarUrl?: string | null;
+  };
+}
+
+// 1 -> "1st", 2 -> "2nd", 11 -> "11th", 22 -> "22nd"
+export function formatPlace(place: number) {
+  const tens = place % 100;
+  if (tens >= 11 && tens <= 13) return `${place}th`;
+  return `${place}${['th', 'st', 'nd', 'rd'][place % 10] || 'th'}`;
+}
+
+// What a place pays; `percent` is null for fixed prizes
+export interface TournamentPayout {
+  place: number;
+  percent: number | null;
+  amount: number;
+}
+
+// MTTs are closed and started by an admin; a Sit & Go starts itself when full
+export type TournamentType = 'MTT' | 'SIT_AND_GO';
+
+// What a scheduled start does with fewer than `minEntrants` registered
+export type UnderMinAction = 'CANCEL' | 'DELAY';
+
+// STANDARD pays the whole bounty to the eliminator; PROGRESSIVE pays half
+// and puts the other half on the eliminator's own head
+export type BountyType = 'STANDARD' | 'PROGRESSIVE';
+
+export type DealMethod = 'ICM' | 'CHIP_CHOP' | 'CUSTOM';
+
+// A deal the final players agreed; each gets `amount` instead of their place's prize
+export interface TournamentDeal {
+  method: DealMethod;
+  agreedAt: string;
+  players: { userId: string; username?: string; chips: number; amount: number }[];
+}
+
+// What each player still in would get from a deal on their current stacks
+export interface DealProposal {
+  tournamentId: string;
+  prizes: number[]; // still to be paid, 1st first
+  total: number;
+  handInProgress: boolean;
+  players: {
+    playerId: string;
+    userId: string;
+    username?: string;
+    chips: number;
+    icm: number | null; // null when too many players are left to work it out
+    chipChop: number;
+  }[];
+  deal: TournamentDeal | null;
+}
+
+// One entry at a tournament table; a re-entry is a new entry
+export interface TournamentEntry {
+  id: string;
+  userId: string;
+  seatNumber: number;
+  chips: number;
+  entryNumber: number;
+  rebuys: number;
+  addOn: boolean;
+  pendingChips: number; // bought mid-hand; on the stack from the next hand
+  bounty: number;
+  bountyWon: number;
+  status: 'ACTIVE' | 'FOLDED' | 'ALL_IN' | 'ELIMINATED';
+  canRebuy: boolean; // as the server would allow it right now
+  canAddOn: boolean;
+  user: {
+    id: string;
+    username: string;
+    avatarUrl?: string | null;
+  };
+}
+
+// What an entry can buy now; pushed to its seat when its stack, the level
+// or the break changes (see sendChipsEligibility on the server)
+export interface ChipsEligibility {
+  tournamentId: string;
+  playerId: string;
+  pendingChips: number;
+  canRebuy: boolean;
+  canAddOn: boolean;
+}
+
+// A tournament table; broken tables are COMPLETED
+export interface TournamentTable {
+  id: string;
+  tableNumber: number | null;
+  status: 'PENDING' | 'ACTIVE' | 'COMPLETED';
+  players: TournamentEntry[];
+}
+
 export interface Tournament {
   id: string;
   name: string;
@@ -18,11 +136,40 @@ export interface Tournament {
   seatsPerTable: number;
   startingChips: number;
   blindLevels: any; // JSON structure
+  clock?: TournamentClockState | null; // set while the tournament is running
+  results?: TournamentResult[]; // best place first
   prizePlaces: number;
+  prizePool?: number;
+  payoutStructure?: { type: 'PERCENT' | 'FIXED'; amounts: number[] } | null; // null = standard percentages
+  payouts?: TournamentPayout[]; // for the field that's seated, or as planned before then
+  deal?: TournamentDeal | null;
+  lateRegLevels?: number; // late registration runs through this many levels (0 = none)
+  maxReentries?: number;
+  rebuyLevels?: number; // rebuys run through this many levels (0 = none)
+  maxRebuys?: number | null; // per entry; null = no limit
+  rebuyChips?: number;
+  rebuyMaxStack?: number | null; // null = the starting stack
+  rebuyCost?: number; // paid into the prize pool per rebuy
+  addOnChips?: number; // 0 = no add-on
+  addOnCost?: number;
+  rebuysTaken?: number;
+  addOnsTaken?: number;
+  prizePoolTotal?: number; // prizePool plus what rebuys and add-ons paid in
+  type?: TournamentType;
+  autoRespawn?: boolean; // Sit & Go: a fresh copy opens when it fills
+  autoStart?: boolean; // registration closes and it starts at startTime
+  minEntrants?: number;
+  underMinAction?: UnderMinAction;
+  startDelayMinutes?: number;
+  maxStartDelays?: number;
+  startDelays?: number; // times the start has been pushed back
+  bountyType?: BountyType | null; // null = no bounties
+  bountyAmount?: number; // on each entry's head
   registeredCount?: number;
   createdBy: string | any;
   createdAt: Date | string;
   servers?: TournamentServer[];
+  games?: TournamentTable[]; // by table number
 }
 
 export function useTournaments() {
@@ -70,7 +217,7 @@ export function useTournament(id: string | undefined) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchTournament = async () => {
+  const fetchTournament = useCallback(async () => {
     if (!id) {
       setLoading(false);
       return;
@@ -87,16 +234,19 @@ export function useTournament(id: string | undefined) {
     } finally {
       setLoading(false);
     }
-  };
+  }, [id]);
 
   useEffect(() => {
     fetchTournament();
-  }, [id]);
+  }, [fetchTournament]);
 
   const register = async () => {
     if (!id) return;
     try {
-      await api.post(`/api/tournaments/${id}/register`);
+      const token = localStorage.getItem('sessionToken');
+      await api.post(`/api/tournaments/${id}/register`, {}, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
       // Refetch tournament to get updated registration count
       await fetchTournament();
       return { success: true };
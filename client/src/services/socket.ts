@@ -6,11 +6,19 @@ const SOCKET_URL =
   "http://localhost:3000";
 
 let socket: Socket | null = null;
+// Token sent on the last handshake, so we know when to reconnect after login/logout
+let handshakeToken: string | null = null;
 
 export function getSocket(): Socket {
   if (!socket) {
     socket = io(SOCKET_URL, {
       withCredentials: true,
+      // Read the session token on every (re)connect; the server verifies it
+      // and uses it as our identity. No token = spectator.
+      auth: (cb) => {
+        handshakeToken = localStorage.getItem('sessionToken');
+        cb(handshakeToken ? { token: handshakeToken } : {});
+      },
       path: "/socket.io",
       transports: ["websocket", "polling"],
       reconnection: true,
@@ -28,6 +36,15 @@ export function getSocket(): Socket {
   return socket;
 }
 
+// Reconnect if the session token changed since the socket connected
+// (e.g. the socket was opened before the user logged in)
+export function ensureSocketAuth() {
+  const s = getSocket();
+  if (s.connected && localStorage.getItem('sessionToken') !== handshakeToken) {
+    s.disconnect().connect();
+  }
+}
+
 export function disconnectSocket() {
   if (socket) {
     socket.disconnect();
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN IF NOT EXISTS "dealerSeat" INTEGER;
+ALTER TABLE "Game" ADD COLUMN IF NOT EXISTS "smallBlindSeat" INTEGER;
+ALTER TABLE "Game" ADD COLUMN IF NOT EXISTS "bigBlindSeat" INTEGER;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "clockLevel" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "clockOnBreak" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "levelStartedAt" TIMESTAMP(3);
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "clockEndsAt" TIMESTAMP(3);
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "clockPausedAt" TIMESTAMP(3);
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "clockRemainingMs" INTEGER;
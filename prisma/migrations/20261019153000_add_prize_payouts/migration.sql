@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "prizePool" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "payoutsJson" TEXT;
+
+-- AlterTable
+ALTER TABLE "TournamentResult" ADD COLUMN IF NOT EXISTS "prize" INTEGER;
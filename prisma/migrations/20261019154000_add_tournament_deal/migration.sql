@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "dealJson" TEXT;
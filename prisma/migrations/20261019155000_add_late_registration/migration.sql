@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "lateRegLevels" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "maxReentries" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Player" ADD COLUMN IF NOT EXISTS "entryNumber" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "rebuyLevels" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "maxRebuys" INTEGER;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "rebuyChips" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "rebuyMaxStack" INTEGER;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "rebuyCost" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "addOnChips" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "addOnCost" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Player" ADD COLUMN IF NOT EXISTS "rebuys" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Player" ADD COLUMN IF NOT EXISTS "addOn" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Player" ADD COLUMN IF NOT EXISTS "pendingChips" INTEGER NOT NULL DEFAULT 0;
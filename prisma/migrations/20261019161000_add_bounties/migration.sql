@@ -0,0 +1,17 @@
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "BountyType" AS ENUM ('STANDARD', 'PROGRESSIVE');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "bountyType" "BountyType";
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "bountyAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Player" ADD COLUMN IF NOT EXISTS "bounty" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Player" ADD COLUMN IF NOT EXISTS "bountyWon" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "TournamentResult" ADD COLUMN IF NOT EXISTS "bounty" INTEGER NOT NULL DEFAULT 0;
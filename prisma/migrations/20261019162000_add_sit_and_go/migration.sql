@@ -0,0 +1,10 @@
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "TournamentType" AS ENUM ('MTT', 'SIT_AND_GO');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "type" "TournamentType" NOT NULL DEFAULT 'MTT';
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "autoRespawn" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,52 @@
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "UnderMinAction" AS ENUM ('CANCEL', 'DELAY');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "JobType" AS ENUM ('START_TOURNAMENT');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "JobStatus" AS ENUM ('PENDING', 'RUNNING', 'DONE', 'FAILED', 'CANCELLED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "autoStart" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "minEntrants" INTEGER NOT NULL DEFAULT 2;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "underMinAction" "UnderMinAction" NOT NULL DEFAULT 'CANCEL';
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "startDelayMinutes" INTEGER NOT NULL DEFAULT 15;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "maxStartDelays" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "startDelays" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "ScheduledJob" (
+    "id" TEXT NOT NULL,
+    "type" "JobType" NOT NULL,
+    "tournamentId" TEXT,
+    "runAt" TIMESTAMP(3) NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduledJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ScheduledJob_status_runAt_idx" ON "ScheduledJob"("status", "runAt");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "ScheduledJob" ADD CONSTRAINT "ScheduledJob_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
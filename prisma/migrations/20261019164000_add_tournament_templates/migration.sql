@@ -0,0 +1,46 @@
+-- AlterEnum
+ALTER TYPE "JobType" ADD VALUE IF NOT EXISTS 'CREATE_FROM_TEMPLATE';
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "TournamentTemplate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "settingsJson" TEXT NOT NULL,
+    "serverIdsJson" TEXT NOT NULL DEFAULT '[]',
+    "recurring" BOOLEAN NOT NULL DEFAULT false,
+    "daysOfWeek" INTEGER[],
+    "timeOfDay" TEXT,
+    "timeZone" TEXT NOT NULL DEFAULT 'UTC',
+    "leadHours" INTEGER NOT NULL DEFAULT 24,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TournamentTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN IF NOT EXISTS "templateId" TEXT;
+ALTER TABLE "ScheduledJob" ADD COLUMN IF NOT EXISTS "templateId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "Tournament_templateId_startTime_key" ON "Tournament"("templateId", "startTime");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "TournamentTemplate" ADD CONSTRAINT "TournamentTemplate_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "Tournament" ADD CONSTRAINT "Tournament_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "TournamentTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "ScheduledJob" ADD CONSTRAINT "ScheduledJob_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "TournamentTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
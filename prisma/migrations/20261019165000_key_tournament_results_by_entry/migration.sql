@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "TournamentResult" ADD COLUMN IF NOT EXISTS "playerId" TEXT;
+
+-- DropIndex
+DROP INDEX IF EXISTS "TournamentResult_tournamentId_userId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "TournamentResult_playerId_key" ON "TournamentResult"("playerId");
+CREATE INDEX IF NOT EXISTS "TournamentResult_tournamentId_idx" ON "TournamentResult"("tournamentId");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "TournamentResult" ADD CONSTRAINT "TournamentResult_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Player" ADD COLUMN IF NOT EXISTS "handStartChips" INTEGER;
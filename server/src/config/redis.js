@@ -29,6 +29,10 @@ const getRedisConfig = () => {
 
 const redisClient = createClient(getRedisConfig());
 
+// Whether this deployment runs on Redis (and so may run several instances).
+// Local development without REDIS_URL is a single instance.
+const isRedisConfigured = !!process.env.REDIS_URL || process.env.NODE_ENV === 'production';
+
 redisClient.on('error', (err) => {
   console.error('[REDIS] Connection error:', err);
 });
@@ -58,4 +62,4 @@ async function connectRedis() {
 // Connect in background
 connectRedis();
 
-export { redisClient };
+export { redisClient, isRedisConfigured };
@@ -2,6 +2,7 @@ import express from "express";
 import cors from "cors";
 import { createServer } from "http";
 import { Server } from "socket.io";
+import { createAdapter } from "@socket.io/redis-adapter";
 import dotenv from "dotenv";
 import session from "express-session";
 import path from "path";
@@ -9,6 +10,8 @@ import fs from "fs";
 import { fileURLToPath } from "url";
 import passport from "./passport.js";
 import apiRouter from "../routes/index.js";
+import { authenticateSocket } from "../middleware/auth.js";
+import { redisClient } from "./redis.js";
 
 dotenv.config();
 
@@ -100,6 +103,25 @@ const io = new Server(server, {
   transports: ['polling', 'websocket']
 });
 
+// Verify the session JWT on connect; handlers read the user from socket.data
+io.use(authenticateSocket);
+
+// Share rooms and server-side events between instances through Redis.
+// Without Redis (local dev) we stay on the in-memory adapter, i.e. one instance.
+const pubClient = redisClient.duplicate();
+const subClient = pubClient.duplicate();
+pubClient.on('error', (err) => console.error('[SOCKET.IO] Redis adapter pub error:', err.message));
+subClient.on('error', (err) => console.error('[SOCKET.IO] Redis adapter sub error:', err.message));
+
+Promise.all([pubClient.connect(), subClient.connect()])
+  .then(() => {
+    io.adapter(createAdapter(pubClient, subClient));
+    console.log('[SOCKET.IO] Using Redis adapter');
+  })
+  .catch((err) => {
+    console.error('[SOCKET.IO] Redis adapter unavailable, using in-memory adapter:', err.message);
+  });
+
 const PORT = process.env.PORT || 3000;
 
 export { app, server, io, PORT };
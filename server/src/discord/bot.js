@@ -1,6 +1,11 @@
 import { Client, GatewayIntentBits, REST, Routes, ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder } from 'discord.js';
 import dotenv from 'dotenv';
 import { prisma } from '../config/database.js';
+import { calculatePayouts, formatPlace } from '../services/PrizeStructure.js';
+import { isLateRegistrationOpen } from '../services/TournamentClock.js';
+import { TournamentEngine } from '../services/TournamentEngine.js';
+
+const engine = new TournamentEngine();
 
 dotenv.config();
 
@@ -221,6 +226,18 @@ async function handleRegisterButton(interaction, tournamentId) {
       return;
     }
 
+    // Late registration and re-entry take a seat straight away
+    if (isLateRegistrationOpen(tournament)) {
+      const { player, error } = await engine.lateRegister(tournamentId, user.id);
+      await interaction.reply({
+        content: error
+          ? `❌ ${error}.`
+          : `✅ You're in${player.entryNumber > 1 ? ` (re-entry ${player.entryNumber - 1})` : ''}! Open the tournament lobby to find your table.`,
+        ephemeral: true,
+      });
+      return;
+    }
+
     if (tournament.status !== 'SCHEDULED' && tournament.status !== 'REGISTERING') {
       await interaction.reply({
         content: '❌ This tournament is no longer accepting registrations.',
@@ -229,6 +246,23 @@ async function handleRegisterButton(interaction, tournamentId) {
       return;
     }
 
+    // A Sit & Go starts itself once the last seat is taken
+    if (tournament.type === 'SIT_AND_GO') {
+      const { started, error } = await engine.registerForSitAndGo(tournamentId, user.id);
+      await interaction.reply({
+        content: error
+          ? `❌ ${error}.`
+          : started
+            ? '✅ You took the last seat - the Sit & Go is starting! Open the tournament lobby to find your table.'
+            : '✅ Registered! The Sit & Go starts as soon as every seat is taken.',
+        ephemeral: true,
+      });
+      if (!error && !started) {
+        await updateTournamentEmbeds(tournamentId);
+      }
+      return;
+    }
+
     // Check if already registered
     const existingRegistration = await prisma.tournamentRegistration.findUnique({
       where: {
@@ -447,41 +481,87 @@ async function buildTournamentEmbed(tournament, discordUserId = null) {
     }
   }
   
+  // Prizes: the payout table until it's over, then who won what
+  let prizes = '';
+  try {
+    if (tournament.status === 'COMPLETED') {
+      const results = await prisma.tournamentResult.findMany({
+        where: { tournamentId: tournament.id, place: { lte: tournament.prizePlaces } },
+        include: { user: { select: { username: true } } },
+        orderBy: { place: 'asc' },
+      });
+      prizes = results
+        .map((r) => `${formatPlace(r.place)}: ${r.user.username}${r.prize ? ` - ${r.prize.toLocaleString()}` : ''}`)
+        .join('\n');
+    } else {
+      prizes = calculatePayouts(tournament)
+        .map((p) => {
+          if (p.percent === null) return `${formatPlace(p.place)}: ${p.amount.toLocaleString()}`;
+          return `${formatPlace(p.place)}: ${p.percent}%${tournament.prizePool ? ` (${p.amount.toLocaleString()})` : ''}`;
+        })
+        .join('\n');
+    }
+  } catch (error) {
+    console.error('[DISCORD BOT] Error building prizes:', error);
+  }
+  // Discord caps a field at 1024 characters
+  if (prizes.length > 1024) {
+    prizes = `${prizes.slice(0, prizes.lastIndexOf('\n', 1020))}\n…`;
+  }
+
   // Build description based on tournament status
   let description = tournament.description || 'Join the tournament and compete for prizes!';
   if (tournament.status === 'SEATED') {
     description = '🔒 **Registration Closed** - Tournament starting soon!';
   } else if (tournament.status === 'RUNNING' || tournament.status === 'ACTIVE') {
-    description = '▶️ **Tournament In Progress**';
+    description = isLateRegistrationOpen(tournament)
+      ? '▶️ **Tournament In Progress** - late registration open!'
+      : '▶️ **Tournament In Progress**';
   } else if (tournament.status === 'COMPLETED') {
     description = '✅ **Tournament Completed**';
   } else if (tournament.status === 'CANCELLED') {
     description = '❌ **Tournament Cancelled**';
   }
 
+  // Scheduled starts go ahead with enough players; otherwise see TournamentScheduler.runStart
+  let autoStartNote = '';
+  if (tournament.autoStart && (tournament.status === 'SCHEDULED' || tournament.status === 'REGISTERING')) {
+    autoStartNote = `\nStarts automatically with ${tournament.minEntrants}+ players`;
+    if (tournament.startDelays > 0) {
+      autoStartNote += ` (delayed ${tournament.startDelays}×)`;
+    }
+  }
+
   const embed = new EmbedBuilder()
     .setTitle(`🃏 ${tournament.name}`)
     .setDescription(description)
     .setThumbnail(logoUrl)
     .addFields(
-      { name: 'Start Time', value: `<t:${Math.floor(startTime.getTime() / 1000)}:F>`, inline: true },
-      { name: 'Players', value: `${registrationCount} / ${tournament.maxPlayers}`, inline: true },
+      tournament.type === 'SIT_AND_GO'
+        ? { name: 'Sit & Go', value: 'Starts when every seat is taken', inline: true }
+        : { name: 'Start Time', value: `<t:${Math.floor(startTime.getTime() / 1000)}:F>${autoStartNote}`, inline: true },
+      { name: tournament.type === 'SIT_AND_GO' ? 'Seats' : 'Players', value: `${registrationCount} / ${tournament.maxPlayers}`, inline: true },
       { name: 'Starting Chips', value: tournament.startingChips.toLocaleString(), inline: true },
       { name: 'Prize Places', value: tournament.prizePlaces.toString(), inline: true },
     )
     .setColor(tournament.status === 'SEATED' ? 0xFFD700 : (tournament.status === 'RUNNING' || tournament.status === 'ACTIVE' ? 0x00FF00 : 0x00AE86))
     .setTimestamp();
+  if (prizes) {
+    embed.addFields({ name: tournament.status === 'COMPLETED' ? 'Results' : 'Prizes', value: prizes });
+  }
 
   const isFull = registrationCount >= tournament.maxPlayers;
-  // Can register only if SCHEDULED or REGISTERING and not full and not SEATED
-  const canRegister = (tournament.status === 'SCHEDULED' || tournament.status === 'REGISTERING') && !isFull && tournament.status !== 'SEATED';
+  const lateRegistration = isLateRegistrationOpen(tournament);
+  // Can register if SCHEDULED or REGISTERING and not full, or during late
+  // registration (busted players can still re-enter when it's full)
+  const canRegister = ((tournament.status === 'SCHEDULED' || tournament.status === 'REGISTERING') && !isFull) || lateRegistration;
 
   // Build buttons
   // Note: We don't disable based on isRegistered because Discord embeds are shared
   // The button handler will check registration status and show appropriate messages
   const registerButton = new ButtonBuilder()
     .setCustomId(`register_${tournament.id}`)
-    .setLabel(isFull ? 'Full' : 'Register')
+    .setLabel(lateRegistration ? (tournament.maxReentries > 0 ? 'Late Register / Re-enter' : 'Late Register') : isFull ? 'Full' : 'Register')
     .setStyle(ButtonStyle.Primary)
     .setDisabled(!canRegister); // Only disable if tournament is full or not accepting registrations
 
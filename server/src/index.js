@@ -2,11 +2,27 @@ import dotenv from "dotenv";
 import { app, server, io, PORT } from "./config/server.js";
 import { registerSocketHandlers } from "./modules/socket-handlers/index.js";
 import { initializeDiscordBot } from "./discord/bot.js";
+import { tournamentClock } from "./services/TournamentClock.js";
+import { tournamentScheduler } from "./services/TournamentScheduler.js";
+import { tournamentTemplates } from "./services/TournamentTemplates.js";
 
 dotenv.config();
 
 registerSocketHandlers(io);
 
+// Pick the blind clocks of running tournaments back up
+tournamentClock.restore().catch((err) => {
+  console.error("[TOURNAMENT CLOCK] Failed to restore clocks:", err);
+});
+
+// Re-arm scheduled starts and template runs, and keep polling for due jobs
+tournamentScheduler
+  .restore()
+  .then(() => tournamentTemplates.restore())
+  .catch((err) => {
+    console.error("[SCHEDULER] Failed to restore jobs:", err);
+  });
+
 // Initialize Discord bot (non-blocking)
 initializeDiscordBot().catch((err) => {
   console.error("[DISCORD BOT] Failed to initialize:", err);
@@ -32,3 +32,28 @@ export const authenticateToken = (req, res, next) => {
     next();
   });
 };
+
+// Socket.IO middleware: verify the same JWT on the handshake and bind the
+// user to the socket. Sockets without a token connect as spectators.
+export const authenticateSocket = (socket, next) => {
+  const token = socket.handshake.auth?.token;
+
+  if (!token) {
+    socket.data.userId = null;
+    return next();
+  }
+
+  jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret', (err, decoded) => {
+    if (err) {
+      console.error('[AUTH MIDDLEWARE] Socket token verification error:', {
+        socketId: socket.id,
+        name: err.name,
+        message: err.message
+      });
+      return next(new Error(err.name === 'TokenExpiredError' ? 'Token expired' : 'Invalid token'));
+    }
+    socket.data.user = decoded;
+    socket.data.userId = decoded.userId;
+    next();
+  });
+};
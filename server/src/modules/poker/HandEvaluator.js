@@ -3,6 +3,8 @@
 // Cards use the shared poker shape:
 // { suit: "CLUBS" | "DIAMONDS" | "HEARTS" | "SPADES", rank: "2" | ... | "A" }
 
+/** @typedef {{ suit: string, rank: string }} Card */
+
 const RANK_ORDER = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K", "A"];
 const RANK_VALUE = Object.fromEntries(RANK_ORDER.map((r, i) => [r, i + 2]));
 
@@ -19,15 +21,18 @@ const CATEGORY_ORDER = [
   "ROYAL_FLUSH"
 ];
 
+/** @param {Card} card */
 function cardValue(card) {
   return RANK_VALUE[card.rank];
 }
 
+/** @param {Card[]} cards */
 function sortByValueDesc(cards) {
   return [...cards].sort((a, b) => cardValue(b) - cardValue(a));
 }
 
 // Generate all 5-card combinations from 7 cards (C(7,5) = 21).
+/** @param {Card[]} cards */
 function generateFiveCardCombos(cards) {
   const combos = [];
   const n = cards.length;
@@ -45,6 +50,7 @@ function generateFiveCardCombos(cards) {
   return combos;
 }
 
+/** @param {Card[]} sortedCards */
 function isStraight(sortedCards) {
   // sortedCards must be in descending value order
   const values = sortedCards.map(cardValue);
@@ -77,11 +83,13 @@ function isStraight(sortedCards) {
   return { ok: false, high: 0 };
 }
 
+/** @param {Card[]} cards */
 function evaluateFiveCardHand(cards) {
   const sorted = sortByValueDesc(cards);
   const values = sorted.map(cardValue);
 
   // Count ranks
+  /** @type {Map<number, number>} */
   const counts = new Map();
   for (const v of values) {
     counts.set(v, (counts.get(v) || 0) + 1);
@@ -93,6 +101,7 @@ function evaluateFiveCardHand(cards) {
     return b[0] - a[0];
   });
 
+  /** @type {Map<string, number>} */
   const suits = new Map();
   for (const c of sorted) {
     suits.set(c.suit, (suits.get(c.suit) || 0) + 1);
@@ -113,6 +122,7 @@ function evaluateFiveCardHand(cards) {
   const [secondVal, secondCount] = countEntries[1] || [0, 0];
 
   let category = "HIGH_CARD";
+  /** @type {number[]} */
   let tiebreak = [];
 
   if (isRoyal) {
@@ -177,6 +187,7 @@ function evaluateFiveCardHand(cards) {
 }
 
 export class HandEvaluator {
+  /** @param {Card[]} sevenCards */
   evaluateBestHand(sevenCards) {
     if (!sevenCards || sevenCards.length < 5) {
       throw new Error("Need at least 5 cards to evaluate a hand");
@@ -0,0 +1,111 @@
+// PotCalculator: builds the main pot and side pots from what each player
+// has put in over the whole hand, and awards each pot only to the players
+// who are eligible for it.
+
+/**
+ * Build main/side pots from per-player hand contributions.
+ *
+ * Each distinct contribution level of a player still in the hand caps a pot.
+ * Folded players' chips are dead money: they fill the pots they reached but
+ * never make the folder eligible.
+ *
+ * @param {Array<{ id: string, contribution: number, folded: boolean }>} entries
+ * @returns {Array<{ amount: number, eligiblePlayerIds: string[] }>} main pot first
+ */
+export function buildPots(entries) {
+  const contributors = entries.filter((e) => (e.contribution || 0) > 0);
+  if (contributors.length === 0) return [];
+
+  const live = contributors.filter((e) => !e.folded);
+  const caps = [...new Set(live.map((e) => e.contribution))].sort((a, b) => a - b);
+
+  const pots = [];
+  let previousCap = 0;
+
+  for (const cap of caps) {
+    let amount = 0;
+    for (const entry of contributors) {
+      amount += Math.max(0, Math.min(entry.contribution, cap) - previousCap);
+    }
+
+    const eligiblePlayerIds = live
+      .filter((e) => e.contribution >= cap)
+      .map((e) => e.id);
+
+    if (amount > 0) {
+      pots.push({ amount, eligiblePlayerIds });
+    }
+    previousCap = cap;
+  }
+
+  // Chips a folded player put in above the largest live contribution can't be
+  // contested by anyone; they belong with the last pot.
+  let deadOverflow = 0;
+  for (const entry of contributors) {
+    deadOverflow += Math.max(0, entry.contribution - previousCap);
+  }
+  if (deadOverflow > 0) {
+    if (pots.length > 0) {
+      pots[pots.length - 1].amount += deadOverflow;
+    } else {
+      pots.push({ amount: deadOverflow, eligiblePlayerIds: [] });
+    }
+  }
+
+  return pots;
+}
+
+/**
+ * Award each pot to the strongest eligible hand(s).
+ *
+ * Split pots are divided evenly; odd chips go one at a time to the tied
+ * winners in `oddChipOrder` (first seat clockwise from the button first).
+ *
+ * @param {Array<{ amount: number, eligiblePlayerIds: string[] }>} pots
+ * @param {Map<string, number>} strengths - playerId -> hand strength (only players who showed)
+ * @param {string[]} oddChipOrder - player ids ordered clockwise from the button
+ * @returns {{ awards: Map<string, number>, potResults: Array<{ amount: number, eligiblePlayerIds: string[], winnerIds: string[] }> }}
+ */
+export function awardPots(pots, strengths, oddChipOrder = []) {
+  /** @type {Map<string, number>} */
+  const awards = new Map();
+  /** @type {Array<{ amount: number, eligiblePlayerIds: string[], winnerIds: string[] }>} */
+  const potResults = [];
+
+  for (const pot of pots) {
+    const contenders = pot.eligiblePlayerIds.filter((id) => strengths.has(id));
+
+    if (contenders.length === 0) {
+      // Nobody eligible showed a hand (shouldn't happen at a real showdown).
+      potResults.push({ ...pot, winnerIds: [] });
+      continue;
+    }
+
+    const best = Math.max(...contenders.map((id) => /** @type {number} */ (strengths.get(id))));
+    const winnerIds = contenders
+      .filter((id) => strengths.get(id) === best)
+      .sort((a, b) => rank(oddChipOrder, a) - rank(oddChipOrder, b));
+
+    const share = Math.floor(pot.amount / winnerIds.length);
+    let remainder = pot.amount % winnerIds.length;
+
+    for (const id of winnerIds) {
+      const extra = remainder > 0 ? 1 : 0;
+      remainder -= extra;
+      awards.set(id, (awards.get(id) || 0) + share + extra);
+    }
+
+    potResults.push({ ...pot, winnerIds });
+  }
+
+  return { awards, potResults };
+}
+
+/**
+ * @param {string[]} order
+ * @param {string} id
+ */
+function rank(order, id) {
+  const index = order.indexOf(id);
+  return index === -1 ? order.length : index;
+}
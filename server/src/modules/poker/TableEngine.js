@@ -0,0 +1,739 @@
+// @ts-check
+// TableEngine: the rules of a Hold'em hand as pure functions.
+// Each step takes a table state (plus an action) and returns the next state
+// and a list of events describing what happened. Nothing here touches the
+// database, sockets or timers - the socket handler applies the events.
+//
+// Typed with JSDoc rather than written in TypeScript: the server is plain
+// ES modules run by node with no build step, and `npm run build` type-checks
+// this directory strictly (see tsconfig.json) without compiling anything.
+
+import { BettingRound } from "./BettingRound.js";
+import { TexasHoldem } from "./TexasHoldem.js";
+import { HandEvaluator } from "./HandEvaluator.js";
+import { buildPots, awardPots } from "./PotCalculator.js";
+
+/** @typedef {{ suit: string, rank: string }} Card */
+/** @typedef {"PREFLOP" | "FLOP" | "TURN" | "RIVER"} Street */
+/** @typedef {"BET" | "RAISE" | "CALL" | "CHECK" | "FOLD" | "ALL_IN"} ActionType */
+
+/**
+ * A seated player as the engine sees them. Extra fields (user, avatarUrl...)
+ * are carried through untouched.
+ * @typedef {object} SeatState
+ * @property {string} id - Player row id
+ * @property {string} userId
+ * @property {number} seatNumber
+ * @property {number} chips - Chips behind
+ * @property {string} status - ACTIVE | FOLDED | ALL_IN | ELIMINATED
+ * @property {Card[]} holeCards
+ * @property {number} contributions - Chips put in over the whole hand
+ * @property {string} [name]
+ * @property {{ username?: string }} [user]
+ */
+
+/**
+ * @typedef {object} TableState
+ * @property {number} handNumber
+ * @property {number} actionSeq - Bumped on every applied action
+ * @property {Street} street
+ * @property {Card[]} deck
+ * @property {Card[]} communityCards
+ * @property {BettingRound} bettingRound - Bets on the current street only
+ * @property {number} pot - Chips collected from earlier streets (antes included)
+ * @property {number} [ante] - Ante for this hand; with `bigBlindAnte` only the big blind pays it
+ * @property {boolean} [bigBlindAnte]
+ * @property {number} dealerSeat
+ * @property {number} smallBlindSeat
+ * @property {number} bigBlindSeat
+ * @property {string|null} currentTurnUserId
+ * @property {string|null} lastRaiseUserId
+ * @property {Set<string>} actedPlayersInRound - userIds who have acted on this street
+ * @property {SeatState[]} players
+ * @property {string[]} [revealedPlayerIds] - Players whose hands were shown down
+ * @property {boolean} [handComplete]
+ */
+
+/**
+ * @typedef {object} ShowdownResults
+ * @property {Array<{ playerId: string, userId: string, name: string, seatNumber: number, handCategory: string, potWon: number }>} winners
+ * @property {Array<{ amount: number, eligiblePlayerIds: string[], winnerPlayerIds: string[] }>} sidePots
+ * @property {Array<{ playerId: string, userId: string, name: string, seatNumber: number, handCategory: string, strength: number, holeCards: Card[] }>} allHands
+ * @property {Array<{ playerId: string, eliminatedBy: string[] }>} knockouts - Players left with no chips,
+ *   and who won the biggest pot they were in (more than one on a split pot)
+ */
+
+/**
+ * @typedef {{ type: "HAND_STARTED", players: Array<{ id: string, chips: number, status: string, holeCards: Card[] }> }
+ *   | { type: "ANTES_POSTED", antes: Array<{ playerId: string, amount: number }>, total: number }
+ *   | { type: "ACTION_APPLIED", playerId: string, userId: string, action: ActionType, amount: number, chips: number, status: string }
+ *   | { type: "TURN_STARTED", userId: string }
+ *   | { type: "STREET_DEALT", street: Street, communityCards: Card[] }
+ *   | { type: "BET_RETURNED", playerId: string, userId: string, amount: number, chips: number, status: string }
+ *   | { type: "POT_AWARDED", playerId: string, amount: number, chips: number }
+ *   | { type: "SHOWDOWN", results: ShowdownResults }
+ *   | { type: "HAND_COMPLETE", reason: "FOLDS" | "SHOWDOWN" }} TableEvent
+ */
+
+/** @typedef {{ state: TableState, events: TableEvent[] }} EngineResult */
+
+/**
+ * One thing the player to act may do. BET/RAISE/ALL_IN amounts are street
+ * totals ("raise to"), the same unit clients send back; CALL is the chips it costs.
+ * @typedef {object} LegalAction
+ * @property {ActionType} type
+ * @property {number} [amount] - CALL: chips to call; ALL_IN: street total once all-in
+ * @property {number} [min] - BET/RAISE: smallest legal total
+ * @property {number} [max] - BET/RAISE: largest legal total (the whole stack)
+ */
+
+const evaluator = new HandEvaluator();
+
+/** @param {SeatState} p */
+const inHand = (p) => p.status !== "FOLDED" && p.status !== "ELIMINATED";
+
+/** @param {SeatState} p */
+const canAct = (p) => inHand(p) && p.status !== "ALL_IN";
+
+/**
+ * First player clockwise from `fromSeat` (not counting it until last) that
+ * matches `predicate`. Seats are numbered ANTICLOCKWISE, so clockwise means
+ * decreasing seat numbers, wrapping from the lowest seat to the highest.
+ * @param {SeatState[]} players
+ * @param {number} fromSeat
+ * @param {(p: SeatState) => boolean} [predicate]
+ * @returns {SeatState | null}
+ */
+export function nextSeatClockwise(players, fromSeat, predicate = () => true) {
+  const descending = [...players].sort((a, b) => b.seatNumber - a.seatNumber);
+  const ordered = [
+    ...descending.filter((p) => p.seatNumber < fromSeat),
+    ...descending.filter((p) => p.seatNumber >= fromSeat)
+  ];
+  return ordered.find(predicate) || null;
+}
+
+/**
+ * @typedef {object} ButtonPositions
+ * @property {number} dealerSeat - May be an empty seat (dead button)
+ * @property {number} smallBlindSeat - Nobody posts if its player has busted (dead small blind)
+ * @property {number} bigBlindSeat
+ */
+
+/**
+ * Where the button and blinds go for the next hand, using dead-button rules:
+ * the big blind moves to the next player clockwise, the small blind takes
+ * last hand's big-blind seat and the button last hand's small-blind seat,
+ * even if the player who was there has busted. Nobody skips or repeats a blind.
+ *
+ * Heads-up the button posts the small blind (so it acts first preflop and
+ * last after the flop), and the big blind still moves on every hand.
+ * @param {SeatState[]} players - Everyone seated at the table
+ * @param {ButtonPositions | null} previous - Last hand's positions (null for the table's first hand)
+ * @param {number} firstDealerSeat - Button for the first hand (must be a player with chips)
+ * @returns {ButtonPositions}
+ */
+export function nextButtonPositions(players, previous, firstDealerSeat) {
+  const live = players.filter(canBeDealtIn);
+  if (live.length < 2) {
+    throw new Error("Not enough players with chips to deal a hand");
+  }
+
+  if (live.length === 2) {
+    const bigBlind = previous?.bigBlindSeat != null
+      ? /** @type {SeatState} */ (nextSeatClockwise(live, previous.bigBlindSeat))
+      : /** @type {SeatState} */ (live.find((p) => p.seatNumber !== firstDealerSeat));
+    const button = /** @type {SeatState} */ (live.find((p) => p !== bigBlind));
+    return { dealerSeat: button.seatNumber, smallBlindSeat: button.seatNumber, bigBlindSeat: bigBlind.seatNumber };
+  }
+
+  if (!previous || previous.bigBlindSeat == null) {
+    const smallBlind = /** @type {SeatState} */ (nextSeatClockwise(live, firstDealerSeat));
+    const bigBlind = /** @type {SeatState} */ (nextSeatClockwise(live, smallBlind.seatNumber));
+    return { dealerSeat: firstDealerSeat, smallBlindSeat: smallBlind.seatNumber, bigBlindSeat: bigBlind.seatNumber };
+  }
+
+  const bigBlind = /** @type {SeatState} */ (nextSeatClockwise(live, previous.bigBlindSeat));
+  return {
+    dealerSeat: previous.smallBlindSeat ?? previous.bigBlindSeat,
+    smallBlindSeat: previous.bigBlindSeat,
+    bigBlindSeat: bigBlind.seatNumber
+  };
+}
+
+/** @param {SeatState} p */
+function canBeDealtIn(p) {
+  return p.status !== "ELIMINATED" && p.chips > 0;
+}
+
+/**
+ * Deal a new hand: hole cards, antes, blinds and the first player to act.
+ *
+ * Antes are dead money: they go straight into the pot and don't count
+ * towards calling. Every dealt player antes before the blinds are posted;
+ * a big blind ante is paid by the big blind alone, after the blind.
+ * @param {object} options
+ * @param {number} options.handNumber
+ * @param {SeatState[]} options.players - Everyone seated at the table
+ * @param {ButtonPositions} options.positions - From nextButtonPositions
+ * @param {number} options.smallBlind
+ * @param {number} options.bigBlind
+ * @param {number} [options.ante]
+ * @param {boolean} [options.bigBlindAnte] - The big blind pays the ante for the whole table
+ * @param {Card[]} options.deck - Shuffled deck (shuffling is the caller's job so the engine stays deterministic)
+ * @returns {EngineResult}
+ */
+export function createHand({ handNumber, players, positions, smallBlind, bigBlind, ante = 0, bigBlindAnte = false, deck }) {
+  const dealing = new TexasHoldem({ smallBlind, bigBlind });
+
+  /** @type {SeatState[]} */
+  const seats = players.map((p) => ({
+    ...p,
+    // Busted or eliminated players sit this hand out
+    status: p.status === "ELIMINATED" ? "ELIMINATED" : canBeDealtIn(p) ? "ACTIVE" : "FOLDED",
+    holeCards: [],
+    contributions: 0
+  }));
+  const dealt = seats.filter((p) => p.status === "ACTIVE");
+  if (dealt.length < 2) {
+    throw new Error("Not enough players with chips to deal a hand");
+  }
+
+  const { deck: remainingDeck, players: hands } = dealing.dealHoleCards([...deck], dealt.length);
+  dealt.forEach((p, index) => {
+    p.holeCards = hands[index];
+  });
+
+  const bbPlayer = dealt.find((p) => p.seatNumber === positions.bigBlindSeat);
+  if (!bbPlayer) {
+    throw new Error(`No player with chips at big blind seat ${positions.bigBlindSeat}`);
+  }
+  // A dead small blind (its player busted) isn't posted
+  const sbPlayer = dealt.find((p) => p.seatNumber === positions.smallBlindSeat && p !== bbPlayer) || null;
+
+  /** @type {Array<{ playerId: string, amount: number }>} */
+  const antes = [];
+  /** @param {SeatState} player */
+  const postAnte = (player) => {
+    const amount = Math.min(ante, player.chips);
+    if (amount <= 0) return;
+    player.chips -= amount;
+    player.contributions += amount;
+    if (player.chips <= 0) player.status = "ALL_IN";
+    antes.push({ playerId: player.id, amount });
+  };
+  if (ante > 0 && !bigBlindAnte) {
+    dealt.forEach(postAnte);
+  }
+
+  // Blinds are posted even when short; a short blind is all-in
+  const bettingRound = new BettingRound({ smallBlind, bigBlind, startingPot: 0 });
+  const sbAmount = sbPlayer ? Math.min(smallBlind, sbPlayer.chips) : 0;
+  const bbAmount = Math.min(bigBlind, bbPlayer.chips);
+  bettingRound.postBlinds(sbPlayer?.id ?? null, bbPlayer.id, sbAmount, bbAmount);
+  /** @type {Array<[SeatState, number]>} */
+  const posted = sbPlayer ? [[sbPlayer, sbAmount], [bbPlayer, bbAmount]] : [[bbPlayer, bbAmount]];
+  for (const [player, amount] of posted) {
+    player.chips -= amount;
+    player.contributions += amount;
+    if (player.chips <= 0) player.status = "ALL_IN";
+  }
+  // The blind comes first when the big blind can't cover both
+  if (ante > 0 && bigBlindAnte) {
+    postAnte(bbPlayer);
+  }
+  const anteTotal = antes.reduce((sum, a) => sum + a.amount, 0);
+
+  /** @type {TableState} */
+  const state = {
+    handNumber,
+    actionSeq: 0,
+    street: "PREFLOP",
+    deck: remainingDeck,
+    communityCards: [],
+    bettingRound,
+    pot: anteTotal,
+    ante,
+    bigBlindAnte,
+    dealerSeat: positions.dealerSeat,
+    smallBlindSeat: positions.smallBlindSeat,
+    bigBlindSeat: bbPlayer.seatNumber,
+    currentTurnUserId: null,
+    lastRaiseUserId: null,
+    actedPlayersInRound: new Set(),
+    players: seats
+  };
+
+  /** @type {TableEvent[]} */
+  const events = [{
+    type: "HAND_STARTED",
+    players: seats.map((p) => ({ id: p.id, chips: p.chips, status: p.status, holeCards: p.holeCards }))
+  }];
+  if (antes.length > 0) {
+    events.push({ type: "ANTES_POSTED", antes, total: anteTotal });
+  }
+
+  // First to act preflop is the first player clockwise after the big blind
+  const utg = nextSeatClockwise(seats, bbPlayer.seatNumber, (p) => needsToAct(state, p));
+  if (utg) {
+    state.currentTurnUserId = utg.userId;
+    events.push({ type: "TURN_STARTED", userId: utg.userId });
+  } else {
+    // Blinds put everyone (or all but one) all-in
+    dealNextStreet(state, events);
+  }
+
+  return { state, events };
+}
+
+/**
+ * Actions the player in `seatNumber` may take right now; empty unless it's
+ * their turn.
+ * @param {TableState} state
+ * @param {number} seatNumber
+ * @returns {LegalAction[]}
+ */
+export function getLegalActions(state, seatNumber) {
+  const player = state.players.find((p) => p.seatNumber === seatNumber);
+  if (!player || state.handComplete || state.currentTurnUserId !== player.userId || !canAct(player)) {
+    return [];
+  }
+
+  const round = state.bettingRound;
+  const contribution = round.getPlayerContribution(player.id);
+  const toCall = Math.max(0, round.currentBet - contribution);
+  const stackTotal = contribution + player.chips;
+
+  /** @type {LegalAction[]} */
+  const actions = [{ type: "FOLD" }];
+  if (toCall === 0) {
+    actions.push({ type: "CHECK" });
+  } else {
+    // Calling for less than the full amount puts the player all-in
+    actions.push({ type: "CALL", amount: Math.min(toCall, player.chips) });
+  }
+
+  // Betting is open to this player unless they already acted and have only
+  // faced incomplete (short all-in) raises since, adding up to less than a
+  // full raise
+  const canRaise = !state.actedPlayersInRound.has(player.userId) || toCall >= round.minimumRaise;
+
+  // A full bet or raise must reach the minimum raise; anything short of it
+  // is only possible as an all-in
+  const minTotal = round.currentBet + round.minimumRaise;
+  if (canRaise && stackTotal >= minTotal) {
+    actions.push({ type: round.currentBet === 0 ? "BET" : "RAISE", min: minTotal, max: stackTotal });
+  }
+
+  if (player.chips > 0 && (canRaise || stackTotal <= round.currentBet)) {
+    actions.push({ type: "ALL_IN", amount: stackTotal });
+  }
+
+  return actions;
+}
+
+/**
+ * Why a move can't be applied right now, or null if it can.
+ * @param {TableState} state
+ * @param {{ userId: string, action: ActionType, amount?: number }} move
+ * @returns {string | null}
+ */
+export function validateAction(state, { userId, action, amount = 0 }) {
+  if (state.handComplete) return "Hand is already over";
+
+  const player = state.players.find((p) => p.userId === userId);
+  if (!player) return "Player not at this table";
+  if (state.currentTurnUserId !== userId) return "It's not your turn";
+
+  const legal = getLegalActions(state, player.seatNumber).find((a) => a.type === action);
+  if (!legal) return `You can't ${String(action).toLowerCase().replace("_", " ")} right now`;
+
+  if (legal.min !== undefined && legal.max !== undefined) {
+    if (!Number.isFinite(amount) || amount < legal.min || amount > legal.max) {
+      return legal.min === legal.max
+        ? `${action} must be to ${legal.max}`
+        : `${action} must be to between ${legal.min} and ${legal.max}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply one player's action and move the hand on: next turn, next street,
+ * showdown, or an uncontested pot. Throws if the action isn't legal.
+ * @param {TableState} current
+ * @param {{ userId: string, action: ActionType, amount?: number }} move - BET/RAISE amounts are street totals
+ * @returns {EngineResult}
+ */
+export function applyAction(current, { userId, action, amount = 0 }) {
+  const problem = validateAction(current, { userId, action, amount });
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  const state = cloneState(current);
+  const player = /** @type {SeatState} */ (state.players.find((p) => p.userId === userId));
+
+  const round = state.bettingRound;
+  let spent = 0;
+
+  switch (action) {
+    case "BET":
+    case "RAISE": {
+      // `amount` is what the player's bet on this street becomes
+      spent = amount - round.getPlayerContribution(player.id);
+      round.bet(player.id, spent);
+      // A raise reopens the action: everyone else has to act again
+      state.lastRaiseUserId = player.userId;
+      state.actedPlayersInRound.clear();
+      break;
+    }
+    case "CALL": {
+      spent = round.call(player.id, player.chips);
+      break;
+    }
+    case "CHECK": {
+      // No chips moved; only legal with nothing to call
+      break;
+    }
+    case "FOLD": {
+      player.status = "FOLDED";
+      player.holeCards = [];
+      break;
+    }
+    case "ALL_IN": {
+      spent = player.chips;
+      // Only a full raise reopens the action. A short all-in raises the bet
+      // to call, but players who already acted may then only call or fold.
+      if (round.allIn(player.id, spent)) {
+        state.lastRaiseUserId = player.userId;
+        state.actedPlayersInRound.clear();
+      }
+      break;
+    }
+    default:
+      throw new Error("Unknown action");
+  }
+
+  player.chips -= spent;
+  player.contributions = (player.contributions || 0) + spent;
+  if (spent > 0 && player.chips <= 0) {
+    player.status = "ALL_IN";
+  }
+  state.actedPlayersInRound.add(player.userId);
+
+  // Every applied action moves the hand on one step
+  state.actionSeq = (state.actionSeq || 0) + 1;
+
+  /** @type {TableEvent[]} */
+  const events = [{
+    type: "ACTION_APPLIED",
+    playerId: player.id,
+    userId: player.userId,
+    action,
+    amount: spent,
+    chips: player.chips,
+    status: player.status
+  }];
+
+  progress(state, events, player.seatNumber);
+  return { state, events };
+}
+
+/**
+ * Whether this player still has to act on the current street.
+ * @param {TableState} state
+ * @param {SeatState} player
+ */
+export function needsToAct(state, player) {
+  if (!canAct(player)) return false;
+
+  const owes = state.bettingRound.getPlayerContribution(player.id) < state.bettingRound.currentBet;
+  // With nobody else able to bet, a lone player only has to match what's in front of them
+  if (state.players.filter(canAct).length === 1) return owes;
+
+  return owes || !state.actedPlayersInRound.has(player.userId);
+}
+
+/**
+ * @param {TableState} state
+ * @param {TableEvent[]} events
+ * @param {number} fromSeat - Seat of the player who just acted
+ */
+function progress(state, events, fromSeat) {
+  const live = state.players.filter(inHand);
+
+  if (live.length === 1) {
+    awardUncontested(state, events, live[0]);
+    return;
+  }
+
+  const next = nextSeatClockwise(state.players, fromSeat, (p) => needsToAct(state, p));
+  if (next) {
+    state.currentTurnUserId = next.userId;
+    events.push({ type: "TURN_STARTED", userId: next.userId });
+    return;
+  }
+
+  dealNextStreet(state, events);
+}
+
+/**
+ * Collect this street's bets and deal the next street (running the board out
+ * if at most one player can still bet), or go to showdown after the river.
+ * @param {TableState} state
+ * @param {TableEvent[]} events
+ */
+function dealNextStreet(state, events) {
+  const round = state.bettingRound;
+  returnUncalledBet(state, events);
+  state.pot = (state.pot || 0) + round.getTotalPot();
+  round.playerBets.clear();
+  round.currentBet = 0;
+  round.minimumRaise = round.bigBlind;
+  state.lastRaiseUserId = null;
+  state.actedPlayersInRound = new Set();
+  state.currentTurnUserId = null;
+
+  if (state.street === "RIVER") {
+    showdown(state, events);
+    return;
+  }
+
+  const dealing = new TexasHoldem({ smallBlind: round.smallBlind, bigBlind: round.bigBlind });
+  if (state.street === "PREFLOP") {
+    const { deck, cards } = dealing.dealFlop([...state.deck]);
+    state.deck = deck;
+    state.communityCards = cards;
+    state.street = "FLOP";
+  } else {
+    const { deck, card } = dealing.dealTurnOrRiver([...state.deck]);
+    state.deck = deck;
+    state.communityCards = [...state.communityCards, card];
+    state.street = state.street === "FLOP" ? "TURN" : "RIVER";
+  }
+  events.push({ type: "STREET_DEALT", street: state.street, communityCards: state.communityCards });
+
+  // First to act after the flop is the first player clockwise from the button
+  const first = nextSeatClockwise(state.players, state.dealerSeat, (p) => needsToAct(state, p));
+  if (!first || state.players.filter(canAct).length <= 1) {
+    // Nobody left to bet against - run out the board to showdown
+    dealNextStreet(state, events);
+    return;
+  }
+
+  state.currentTurnUserId = first.userId;
+  events.push({ type: "TURN_STARTED", userId: first.userId });
+}
+
+/**
+ * Move on from a street whose betting is already complete, e.g. a hand
+ * restored from a snapshot taken mid run-out.
+ * @param {TableState} current
+ * @returns {EngineResult}
+ */
+export function advanceStreet(current) {
+  const state = cloneState(current);
+  /** @type {TableEvent[]} */
+  const events = [];
+
+  const live = state.players.filter(inHand);
+  if (live.length === 1) {
+    awardUncontested(state, events, live[0]);
+  } else {
+    dealNextStreet(state, events);
+  }
+  return { state, events };
+}
+
+/**
+ * Give back the part of this street's biggest bet that nobody matched (a bet
+ * everyone folded to, or an all-in bigger than anyone could call) before the
+ * street's bets go into the pot.
+ * @param {TableState} state
+ * @param {TableEvent[]} events
+ */
+function returnUncalledBet(state, events) {
+  const bets = [...state.bettingRound.playerBets.entries()].sort((a, b) => b[1] - a[1]);
+  if (bets.length === 0) return;
+
+  const [bettorId, biggest] = bets[0];
+  // Folded players' bets count too: what they put in was called
+  const matched = bets.length > 1 ? bets[1][1] : 0;
+  const uncalled = biggest - matched;
+  if (uncalled <= 0) return;
+
+  const bettor = state.players.find((p) => p.id === bettorId);
+  if (!bettor) return;
+
+  state.bettingRound.playerBets.set(bettorId, matched);
+  bettor.chips += uncalled;
+  bettor.contributions = (bettor.contributions || 0) - uncalled;
+  if (bettor.status === "ALL_IN") {
+    // Not all-in any more once the excess is back
+    bettor.status = "ACTIVE";
+  }
+
+  events.push({
+    type: "BET_RETURNED",
+    playerId: bettor.id,
+    userId: bettor.userId,
+    amount: uncalled,
+    chips: bettor.chips,
+    status: bettor.status
+  });
+}
+
+/**
+ * Everyone else folded: the last player takes everything in the middle.
+ * @param {TableState} state
+ * @param {TableEvent[]} events
+ * @param {SeatState} winner
+ */
+function awardUncontested(state, events, winner) {
+  returnUncalledBet(state, events);
+  const amount = (state.pot || 0) + state.bettingRound.getTotalPot();
+  winner.chips += amount;
+
+  clearMoney(state);
+  state.currentTurnUserId = null;
+  state.handComplete = true;
+
+  events.push({ type: "POT_AWARDED", playerId: winner.id, amount, chips: winner.chips });
+  events.push({ type: "HAND_COMPLETE", reason: "FOLDS" });
+}
+
+/**
+ * Evaluate the live hands and pay out the main and side pots.
+ * @param {TableState} state
+ * @param {TableEvent[]} events
+ */
+function showdown(state, events) {
+  const live = state.players.filter(inHand);
+
+  const handResults = live.map((player) => {
+    const valid = Array.isArray(player.holeCards) && player.holeCards.length === 2;
+    const hand = valid ? evaluator.evaluateBestHand([...state.communityCards, ...player.holeCards]) : null;
+    return {
+      player,
+      category: hand ? hand.category : "UNKNOWN",
+      // A hand we can't evaluate can still share in a chop but never beats a real one
+      strength: hand ? hand.strength : -1
+    };
+  });
+
+  // Build main and side pots from what each player put in over the whole hand
+  const pots = buildPots(
+    state.players.map((p) => ({
+      id: p.id,
+      contribution: p.contributions || 0,
+      folded: !inHand(p)
+    }))
+  );
+  const potsTotal = pots.reduce((sum, pot) => sum + pot.amount, 0);
+  if (potsTotal !== state.pot) {
+    // Contributions should always add up to the pot; don't lose chips if they don't
+    if (pots.length > 0) {
+      pots[0].amount += state.pot - potsTotal;
+    } else {
+      pots.push({ amount: state.pot, eligiblePlayerIds: live.map((p) => p.id) });
+    }
+  }
+
+  // Odd chips go to the first winner clockwise from the button
+  const oddChipOrder = [];
+  let seat = state.dealerSeat;
+  for (let i = 0; i < live.length; i++) {
+    const next = /** @type {SeatState} */ (nextSeatClockwise(live, seat));
+    oddChipOrder.push(next.id);
+    seat = next.seatNumber;
+  }
+
+  const strengths = new Map(handResults.map((r) => [r.player.id, r.strength]));
+  const { awards, potResults } = awardPots(pots, strengths, oddChipOrder);
+
+  /** @param {SeatState} p */
+  const displayName = (p) => p.name || p.user?.username || `Player ${p.seatNumber}`;
+
+  for (const r of handResults) {
+    const amount = awards.get(r.player.id);
+    if (!amount) continue;
+    r.player.chips += amount;
+    events.push({ type: "POT_AWARDED", playerId: r.player.id, amount, chips: r.player.chips });
+  }
+
+  // A player who lost everything was knocked out by whoever won the last
+  // pot they had chips in; everyone who split that pot shares the knockout
+  const knockouts = live
+    .filter((p) => p.chips === 0)
+    .map((p) => {
+      const lastPot = [...potResults].reverse().find((pot) => pot.eligiblePlayerIds.includes(p.id));
+      return { playerId: p.id, eliminatedBy: lastPot ? lastPot.winnerIds.filter((id) => id !== p.id) : [] };
+    });
+
+  /** @type {ShowdownResults} */
+  const results = {
+    winners: handResults
+      .filter((r) => awards.has(r.player.id))
+      .map((r) => ({
+        playerId: r.player.id,
+        userId: r.player.userId,
+        name: displayName(r.player),
+        seatNumber: r.player.seatNumber,
+        handCategory: r.category,
+        potWon: awards.get(r.player.id) || 0
+      })),
+    sidePots: potResults.map((pot) => ({
+      amount: pot.amount,
+      eligiblePlayerIds: pot.eligiblePlayerIds,
+      winnerPlayerIds: pot.winnerIds
+    })),
+    allHands: handResults.map((r) => ({
+      playerId: r.player.id,
+      userId: r.player.userId,
+      name: displayName(r.player),
+      seatNumber: r.player.seatNumber,
+      handCategory: r.category,
+      strength: r.strength,
+      holeCards: r.player.holeCards
+    })),
+    knockouts
+  };
+
+  clearMoney(state);
+  // Hands that went to showdown are shown to the whole table
+  state.revealedPlayerIds = live.map((p) => p.id);
+  state.handComplete = true;
+
+  events.push({ type: "SHOWDOWN", results });
+  events.push({ type: "HAND_COMPLETE", reason: "SHOWDOWN" });
+}
+
+/**
+ * Everything in the middle has been paid out.
+ * @param {TableState} state
+ */
+function clearMoney(state) {
+  state.pot = 0;
+  state.bettingRound.playerBets.clear();
+  state.players.forEach((p) => {
+    p.contributions = 0;
+  });
+}
+
+/**
+ * Copy a state deeply enough that applying a step never mutates the input.
+ * @param {TableState} state
+ * @returns {TableState}
+ */
+export function cloneState(state) {
+  return {
+    ...state,
+    deck: [...state.deck],
+    communityCards: [...state.communityCards],
+    bettingRound: BettingRound.fromJSON(state.bettingRound.toJSON()),
+    actedPlayersInRound: new Set(state.actedPlayersInRound),
+    players: state.players.map((p) => ({ ...p })),
+    ...(state.revealedPlayerIds ? { revealedPlayerIds: [...state.revealedPlayerIds] } : {})
+  };
+}
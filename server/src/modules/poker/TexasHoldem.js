@@ -2,7 +2,10 @@
 // This is intentionally a thin engine; validation and persistence
 // live in higher-level services.
 
+/** @typedef {{ suit: string, rank: string }} Card */
+
 export class TexasHoldem {
+  /** @param {{ smallBlind?: number, bigBlind?: number }} config */
   constructor(config) {
     this.smallBlind = config.smallBlind ?? 10;
     this.bigBlind = config.bigBlind ?? 20;
@@ -11,6 +14,7 @@ export class TexasHoldem {
   createShuffledDeck() {
     const suits = ["CLUBS", "DIAMONDS", "HEARTS", "SPADES"];
     const ranks = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K", "A"];
+    /** @type {Card[]} */
     const deck = [];
 
     for (const suit of suits) {
@@ -27,24 +31,31 @@ export class TexasHoldem {
     return deck;
   }
 
+  /**
+   * Two cards to each player, one at a time. Takes the cards off `deck`.
+   * @param {Card[]} deck
+   * @param {number} playerCount
+   */
   dealHoleCards(deck, playerCount) {
-    const players = Array.from({ length: playerCount }, () => []);
+    const players = Array.from({ length: playerCount }, () => /** @type {Card[]} */ ([]));
 
     for (let round = 0; round < 2; round++) {
       for (let i = 0; i < playerCount; i++) {
-        players[i].push(deck.shift());
+        players[i].push(/** @type {Card} */ (deck.shift()));
       }
     }
 
     return { deck, players };
   }
 
+  /** @param {Card[]} deck */
   dealFlop(deck) {
     deck.shift();
     const cards = deck.splice(0, 3);
     return { deck, cards };
   }
 
+  /** @param {Card[]} deck */
   dealTurnOrRiver(deck) {
     deck.shift();
     const [card] = deck.splice(0, 1);
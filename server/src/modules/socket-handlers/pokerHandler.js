@@ -1,18 +1,41 @@
 // Socket handler for poker table events.
-// Wires Socket.IO events to PokerGameService, BettingRound and Prisma.
+// Wires Socket.IO events, timers and Prisma to the pure TableEngine: the
+// engine decides what happens in a hand, this file makes it happen.
 
 import { prisma } from "../../config/database.js";
 import { PokerGameService } from "../../services/PokerGameService.js";
 import { TexasHoldem } from "../poker/TexasHoldem.js";
-import { BettingRound } from "../poker/BettingRound.js";
-import { HandEvaluator } from "../poker/HandEvaluator.js";
+import { buildPots } from "../poker/PotCalculator.js";
+import { createHand, applyAction, advanceStreet, getLegalActions, validateAction, nextButtonPositions } from "../poker/TableEngine.js";
+import { TableStateStore } from "../../services/TableStateStore.js";
+import { TableOwnership, RENEW_INTERVAL_MS } from "../../services/TableOwnership.js";
+import { parseBlindLevels, isPlayHalted } from "../../services/TournamentClock.js";
+import { TournamentEngine } from "../../services/TournamentEngine.js";
 
 const gameService = new PokerGameService();
-const engine = new TexasHoldem({ smallBlind: 10, bigBlind: 20 });
+const tournamentEngine = new TournamentEngine();
 
 // In-memory per-game state for the current hand and betting street.
-// For production you'd want this to be more robust / persisted.
+// Every transition is also snapshotted to Redis (see snapshotTable) and
+// restored on boot by restoreTableStates.
 const tableState = new Map();
+const tableStore = new TableStateStore();
+
+// Which tables this instance runs. Events for tables owned by another
+// instance are forwarded there over the Socket.IO adapter.
+const ownership = new TableOwnership();
+const TABLE_EVENT = "poker:table-event";
+
+// How long a forwarded table event waits for the owner to acknowledge it.
+// The Redis adapter gives up on its own after its requestsTimeout (5s); the
+// in-memory adapter never answers, so we stop waiting after this.
+const FORWARD_TIMEOUT_MS = 6000;
+
+// Per-table task queues: gameId -> promise of the last queued task.
+// Every mutation of a table (player actions, timer auto-actions, the
+// showdown hand-off, dealing) runs through runOnTable so tasks never
+// interleave across their awaits.
+const tableQueues = new Map();
 
 // Turn timers: map of gameId -> { playerId, timeout, expiresAt }
 const turnTimers = new Map();
@@ -27,236 +50,347 @@ export function getIO() {
   return ioInstance;
 }
 
-function buildClientGameState(game, state) {
+// Per-seat room: only sockets belonging to this player at this table join it
+export function seatRoom(gameId, userId) {
+  return `game:${gameId}:seat:${userId}`;
+}
+
+// Knocked-out players keep their row (for history) but no longer sit at the table
+function seatedPlayers(players) {
+  return players.filter((p) => p.status !== "ELIMINATED");
+}
+
+function parseHoleCards(p) {
+  if (!p.holeCards) return null;
+  // If already an object, return as-is
+  if (typeof p.holeCards === 'object') return p.holeCards;
+  // If it's a string, try to parse it
+  if (typeof p.holeCards === 'string') {
+    try {
+      return JSON.parse(p.holeCards);
+    } catch (e) {
+      console.warn(`[POKER] Failed to parse holeCards for player ${p.id}:`, e.message);
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the game-state payload as seen by one viewer.
+ * Hole cards are only included for the viewer's own seat and for players
+ * whose hands were shown at showdown; everyone else gets `holeCards: null`
+ * and `hasCards` so the client can draw card backs.
+ * The player to act also gets `legalActions`, which is what their controls offer.
+ * @param {string|null} viewerUserId - User the payload is for (null = spectator)
+ */
+function buildClientGameState(game, state, viewerUserId = null) {
+  const viewerSeat = state?.players.find((p) => p.userId === viewerUserId);
+
   // Calculate total pot: state.pot (accumulated from previous streets) + current betting round
   const totalPot = state 
     ? (state.pot || 0) + (state.bettingRound?.getTotalPot() || 0)
     : game.pot || 0;
+
+  // Side pots are built from chips already collected on earlier streets;
+  // bets on the current street are still shown in front of each player.
+  const sidePots = state
+    ? buildPots(
+        state.players.map((p) => ({
+          id: p.id,
+          contribution: (p.contributions || 0) - (state.bettingRound?.getPlayerContribution(p.id) || 0),
+          folded: p.status === "FOLDED"
+        }))
+      )
+    : [];
   
   return {
     id: game.id,
     tournamentId: game.tournamentId,
     tableNumber: game.tableNumber,
     pot: totalPot,
+    sidePots,
     communityCards: JSON.stringify(state?.communityCards ?? []),
     street: state?.street || "PREFLOP",
     currentBet: state?.bettingRound?.currentBet || 0,
     minimumRaise: state?.bettingRound?.minimumRaise || (state?.bettingRound?.bigBlind || 20),
     smallBlind: state?.bettingRound?.smallBlind || 10,
     bigBlind: state?.bettingRound?.bigBlind || 20,
+    ante: state?.ante || 0,
+    bigBlindAnte: state?.bigBlindAnte || false,
+    // Index into the tournament's blind levels this hand is played at
+    blindLevel: state?.blindLevel ?? game.currentBlindLevel ?? null,
     dealerSeat: state?.dealerSeat ?? game.dealerSeat,
     smallBlindSeat: state?.smallBlindSeat ?? game.smallBlindSeat,
     bigBlindSeat: state?.bigBlindSeat ?? game.bigBlindSeat,
     currentTurnUserId: state?.currentTurnUserId,
-    players: (state?.players ?? game.players).map((p) => ({
+    // Clients echo these back with their action so stale ones can be rejected
+    handNumber: state?.handNumber ?? null,
+    actionSeq: state?.actionSeq ?? 0,
+    legalActions: viewerSeat && state.currentTurnUserId === viewerUserId
+      ? getLegalActions(state, viewerSeat.seatNumber)
+      : null,
+    players: (state?.players ?? seatedPlayers(game.players)).map((p) => ({
       id: p.id,
       userId: p.userId,
       name: p.user?.username || "Player",
       chips: p.chips,
       seatNumber: p.seatNumber,
       status: p.status,
+      bounty: p.bounty || 0,
       avatarUrl: p.user?.avatarUrl || null,
-      holeCards: (() => {
-        if (!p.holeCards) return null;
-        // If already an object, return as-is
-        if (typeof p.holeCards === 'object') return p.holeCards;
-        // If it's a string, try to parse it
-        if (typeof p.holeCards === 'string') {
-          try {
-            return JSON.parse(p.holeCards);
-          } catch (e) {
-            console.warn(`[POKER] Failed to parse holeCards for player ${p.id}:`, e.message);
-            return null;
-          }
-        }
-        return null;
+      ...(() => {
+        const holeCards = parseHoleCards(p);
+        const hasCards = Array.isArray(holeCards) && holeCards.length > 0;
+        const canSee = (viewerUserId && p.userId === viewerUserId) ||
+          (state?.revealedPlayerIds || []).includes(p.id);
+        return {
+          holeCards: hasCards && canSee ? holeCards : null,
+          hasCards
+        };
       })(),
       contribution: state?.bettingRound?.getPlayerContribution(p.id) || 0
     }))
   };
 }
 
-async function ensureHandState(gameId) {
-  let state = tableState.get(gameId);
-  if (state) return state;
+/**
+ * Persist the current hand state and turn deadline for a table.
+ * Reads from tableState so a cleared hand is never written back.
+ */
+function snapshotTable(gameId) {
+  const state = tableState.get(gameId);
+  if (!state) return;
+  tableStore.save(gameId, state, turnTimers.get(gameId) || null);
+}
 
-  const game = await prisma.game.findUnique({
-    where: { id: gameId },
-    include: {
-      players: {
-        include: { user: true }
-      }
-    }
+/**
+ * Queue a task for a table behind everything already queued for it.
+ * A failing task doesn't block the ones after it.
+ * @returns {Promise} settles with the task's own result
+ */
+function runOnTable(gameId, task) {
+  const previous = tableQueues.get(gameId) || Promise.resolve();
+  const result = previous.then(() => task());
+  const tail = result.catch(() => {});
+
+  tableQueues.set(gameId, tail);
+  tail.then(() => {
+    if (tableQueues.get(gameId) === tail) tableQueues.delete(gameId);
   });
+  return result;
+}
 
-  if (!game) {
-    throw new Error("Game not found");
-  }
-
-  const deck = engine.createShuffledDeck();
-  const { deck: remainingDeck, players: dealtHands } = engine.dealHoleCards(
-    deck,
-    game.players.length
-  );
+/**
+ * Whether a timer or client action still applies to the hand as it is now:
+ * same hand, nothing else has happened since, and it's still this user's turn.
+ */
+function isCurrentTurn(state, userId, { handNumber, actionSeq }) {
+  return !!state &&
+    state.handNumber === handNumber &&
+    state.actionSeq === actionSeq &&
+    state.currentTurnUserId === userId;
+}
 
-  // Persist hole cards to players (encoded as JSON string).
-  await Promise.all(
-    game.players.map((p, index) =>
-      prisma.player.update({
-        where: { id: p.id },
-        data: {
-          holeCards: JSON.stringify(dealtHands[index])
-        }
-      })
-    )
-  );
+function clearTableState(gameId) {
+  tableState.delete(gameId);
+  tableStore.remove(gameId);
+}
 
-  const bettingRound = new BettingRound({
-    smallBlind: engine.smallBlind,
-    bigBlind: engine.bigBlind,
-    startingPot: 0 // Pot is tracked in state, not in BettingRound
+/**
+ * Send the game state to everyone at the table: each seated player gets their
+ * own projection on their seat room, everyone else in the room (spectators)
+ * gets the masked one.
+ */
+function emitGameState(io, gameId, game, state) {
+  snapshotTable(gameId);
+  if (!io) return;
+  const players = state?.players ?? game.players ?? [];
+  const seatRooms = players.map((p) => seatRoom(gameId, p.userId));
+
+  io.to(`game:${gameId}`).except(seatRooms).emit("game-state", buildClientGameState(game, state, null));
+  players.forEach((p) => {
+    io.to(seatRoom(gameId, p.userId)).emit("game-state", buildClientGameState(game, state, p.userId));
   });
+}
 
-  state = {
-    street: "PREFLOP",
-    deck: remainingDeck,
-    communityCards: [],
-    bettingRound,
-    pot: game.pot + bettingRound.getTotalPot(), // Start with game.pot + current betting round (blinds)
-    players: game.players.map((p) => ({
-      ...p,
-      contributions: 0
-    }))
-  };
+function clearTurnTimer(gameId) {
+  const timer = turnTimers.get(gameId);
+  if (timer) {
+    clearTimeout(timer.timerId);
+    if (timer.graceTimerId) clearTimeout(timer.graceTimerId);
+    turnTimers.delete(gameId);
+  }
+}
 
-  tableState.set(gameId, state);
-  return state;
+// The `game` argument emitGameState needs, built from the hand state alone
+function gameFromState(gameId, state) {
+  return {
+    id: gameId,
+    tournamentId: state.tournamentId,
+    tableNumber: state.tableNumber,
+    pot: state.pot,
+    players: state.players
+  };
 }
 
-async function applyPlayerAction({ gameId, userId, action, amount }) {
-  const state = await ensureHandState(gameId);
-  
-  // Initialize actedPlayersInRound if not exists (for new betting rounds)
-  if (!state.actedPlayersInRound) {
-    state.actedPlayersInRound = new Set();
-  }
+/**
+ * Make a TableEngine step the table's live state and carry out its events:
+ * persist chips and cards, tell the table what happened, start the next
+ * turn timer, and wrap the hand up once it's over.
+ * Must run on the table's queue.
+ */
+async function runEngineStep(gameId, io, { state, events }) {
+  clearTurnTimer(gameId);
+  // The hand log is every engine event so far, saved on the Hand row once the hand is over
+  state.handLog = [...(state.handLog || []), ...events.map((event) => ({ ...event, at: Date.now() }))];
+  tableState.set(gameId, state);
 
-  const player = state.players.find((p) => p.userId === userId);
-  if (!player) {
-    throw new Error("Player not at this table");
-  }
+  let nextTurnUserId = null;
+  let completion = null;
 
-  const playerName = player.name || player.user?.username || `Player ${player.seatNumber}`;
-  const currentBetBefore = state.bettingRound?.currentBet || 0;
-  const playerContributionBefore = state.bettingRound?.getPlayerContribution(player.id) || 0;
-  
-  console.log(`[ACTION] Player ${playerName} (seat ${player.seatNumber}) performing ${action} with amount ${amount}`);
-  console.log(`[ACTION] Before: currentBet=${currentBetBefore}, playerContribution=${playerContributionBefore}, lastRaiseUserId=${state.lastRaiseUserId || 'null'}`);
-
-  // Basic action handling. This is intentionally simplified:
-  switch (action) {
-    case "BET":
-    case "RAISE": {
-      const wasRaise = state.lastRaiseUserId !== null;
-      state.bettingRound.bet(player.id, amount);
-      player.chips -= amount;
-      // Don't update state.pot here - it's accumulated when advancing streets
-      // state.pot should only change when collecting from betting round
-      state.lastRaiseUserId = player.userId; // Track who raised
-      // Reset acted players when someone raises - all players need to act again
-      state.actedPlayersInRound.clear();
-      // Mark the raiser as having acted (they just raised)
-      state.actedPlayersInRound.add(userId);
-      
-      const newBet = state.bettingRound.currentBet;
-      const newContribution = state.bettingRound.getPlayerContribution(player.id);
-      console.log(`[ACTION] After ${action}: currentBet=${newBet}, playerContribution=${newContribution}, lastRaiseUserId=${state.lastRaiseUserId}`);
-      
-      // Note: We don't set next player here - moveToNextPlayer will handle it
-      // The raise logic above was trying to set next player, but moveToNextPlayer does this correctly
-      break;
-    }
-    case "CALL": {
-      const spent = state.bettingRound.call(player.id, player.chips);
-      player.chips -= spent;
-      // Don't update state.pot here - it's accumulated when advancing streets
-      // state.pot should only change when collecting from betting round
-      const newContribution = state.bettingRound.getPlayerContribution(player.id);
-      console.log(`[ACTION] After CALL: playerContribution=${newContribution}, spent=${spent}`);
-      // Mark player as acted in this betting round
-      state.actedPlayersInRound.add(userId);
-      break;
-    }
-    case "CHECK": {
-      // No chips moved; validity (no outstanding bet) assumed client-side for now.
-      console.log(`[ACTION] After CHECK: no change to contributions`);
-      // Mark player as acted in this betting round
-      state.actedPlayersInRound.add(userId);
-      break;
-    }
-    case "FOLD": {
-      player.status = "FOLDED";
-      // Clear hole cards when player folds (hide them from view)
-      player.holeCards = [];
-      // Also clear in database (async - don't block)
-      prisma.player.update({
-        where: { id: player.id },
-        data: { holeCards: "" }
-      }).catch(err => console.error('[ACTION] Error clearing hole cards in DB:', err));
-      console.log(`[ACTION] After FOLD: player status=FOLDED, holeCards cleared`);
-      break;
-    }
-    case "ALL_IN": {
-      const allInAmount = player.chips;
-      if (allInAmount <= 0) {
-        throw new Error("Cannot go all-in with zero chips");
-      }
-      // All-in acts as a raise if it's more than current bet
-      const currentContribution = state.bettingRound.getPlayerContribution(player.id);
-      const allInContribution = currentContribution + allInAmount;
-      if (allInContribution > state.bettingRound.currentBet) {
-        state.lastRaiseUserId = player.userId; // Track who raised (all-in counts as raise)
-        // Reset acted players when someone raises - all players need to act again
-        state.actedPlayersInRound.clear();
-      }
-      state.bettingRound.bet(player.id, allInAmount);
-      player.chips = 0;
-      // Don't update state.pot here - it's accumulated when advancing streets
-      // state.pot should only change when collecting from betting round
-      // Mark player as having acted (they went all-in)
-      state.actedPlayersInRound.add(userId);
-      break;
+  for (const event of events) {
+    switch (event.type) {
+      case "HAND_STARTED":
+        await Promise.all(
+          event.players.map((p) =>
+            prisma.player.update({
+              where: { id: p.id },
+              data: {
+                chips: p.chips,
+                // Rebuys mid-hand are limited by this, not by what's left behind
+                handStartChips: state.startingStacks?.[p.id] ?? p.chips,
+                status: p.status,
+                holeCards: p.holeCards.length > 0 ? JSON.stringify(p.holeCards) : "",
+                lastAction: null
+              }
+            })
+          )
+        );
+        break;
+      case "ACTION_APPLIED":
+        console.log(`[ACTION] ${event.userId} ${event.action} ${event.amount} (chips=${event.chips}, status=${event.status})`);
+        // Persist chips and status for this player (async - don't block)
+        prisma.player.update({
+          where: { id: event.playerId },
+          data: {
+            chips: event.chips,
+            status: event.status,
+            lastAction: event.action,
+            // Folded cards are gone for good
+            ...(event.action === "FOLD" ? { holeCards: "" } : {})
+          }
+        }).catch(err => console.error('[ACTION] Error updating player in DB:', err));
+        break;
+      case "BET_RETURNED":
+        console.log(`[POKER] Game ${gameId}: returning uncalled ${event.amount} to player ${event.playerId}`);
+        prisma.player.update({
+          where: { id: event.playerId },
+          data: { chips: event.chips, status: event.status }
+        }).catch(err => console.error(`[POKER] Error returning bet to player ${event.playerId}:`, err));
+        io?.to(`game:${gameId}`).emit("bet-returned", {
+          gameId,
+          playerId: event.playerId,
+          userId: event.userId,
+          amount: event.amount
+        });
+        break;
+      case "ANTES_POSTED":
+        console.log(`[POKER] Game ${gameId}: ${event.antes.length} ante(s) posted, ${event.total} in the pot`);
+        break;
+      case "STREET_DEALT":
+        console.log(`[POKER] Game ${gameId}: dealt ${event.street}`);
+        break;
+      case "POT_AWARDED":
+        console.log(`[POKER] Game ${gameId}: awarding ${event.amount} to player ${event.playerId}`);
+        prisma.player.update({
+          where: { id: event.playerId },
+          data: { chips: event.chips }
+        }).catch(err => console.error(`[POKER] Error updating chips for player ${event.playerId}:`, err));
+        break;
+      case "SHOWDOWN":
+        io?.to(`game:${gameId}`).emit("showdown", { gameId, results: event.results });
+        break;
+      case "TURN_STARTED":
+        nextTurnUserId = event.userId;
+        break;
+      case "HAND_COMPLETE":
+        completion = event.reason;
+        break;
     }
-    default:
-      throw new Error("Unknown action");
   }
 
-  // Persist chips and status for this player (async - don't block)
-  prisma.player.update({
-    where: { id: player.id },
-    data: {
-      chips: player.chips,
-      status: player.status,
-      lastAction: action
-    }
-  }).catch(err => console.error('[ACTION] Error updating player in DB:', err));
-
-  // Persist pot to game (async - don't block)
+  // Persist pot and board (async - don't block)
   prisma.game.update({
     where: { id: gameId },
     data: {
-      pot: state.pot
+      pot: state.pot,
+      communityCards: JSON.stringify(state.communityCards)
     }
-  }).catch(err => console.error('[ACTION] Error updating game in DB:', err));
+  }).catch(err => console.error('[POKER] Error updating game in DB:', err));
 
-  return state;
+  if (completion) {
+    saveHandLog(gameId, state);
+  }
+
+  const game = gameFromState(gameId, state);
+  emitGameState(io, gameId, game, state);
+
+  // The finished hand stays on the table until finishHand clears it, so
+  // nothing deals over it meanwhile. Queued so it can't land on top of
+  // another deal; a showdown is left up longer for clients to see.
+  if (completion) {
+    setTimeout(() => runOnTable(gameId, () => finishHand(gameId, state, io)), completion === "SHOWDOWN" ? 5000 : 2000);
+  } else if (nextTurnUserId) {
+    startTurnTimer(gameId, nextTurnUserId, io);
+  }
+}
+
+/**
+ * Write a finished hand's log and result to its Hand row (async - don't block).
+ */
+function saveHandLog(gameId, state) {
+  const awards = state.handLog.filter((e) => e.type === "POT_AWARDED");
+  const biggestWin = awards.reduce((best, e) => (!best || e.amount > best.amount ? e : best), null);
+
+  prisma.hand.update({
+    where: { gameId_handNumber: { gameId, handNumber: state.handNumber } },
+    data: {
+      pot: awards.reduce((sum, e) => sum + e.amount, 0),
+      communityCards: JSON.stringify(state.communityCards),
+      winnerPlayerId: biggestWin?.playerId || null,
+      handHistoryJson: JSON.stringify(state.handLog)
+    }
+  }).catch(err => console.error(`[POKER] Error saving hand ${state.handNumber} log:`, err));
 }
 
 /**
  * Start a hand for a game with dealer assignment and blinds
  * This can be called from startTournament or when players join
  */
-export async function startHandForGame(gameId, io) {
+/**
+ * Deal a new hand at a table. Queued behind anything already running there.
+ */
+export function startHandForGame(gameId, io) {
+  return runOnTable(gameId, () => startHand(gameId, io));
+}
+
+async function startHand(gameId, io) {
+  // Hands are dealt and run by the instance that owns the table
+  if (!(await ownership.claim(gameId))) {
+    const socketIO = io || ioInstance;
+    console.log(`[TABLE OWNERSHIP] Game ${gameId} is owned elsewhere, forwarding start-hand`);
+    if (socketIO) {
+      await forwardTableEvent(socketIO, "start-hand", { gameId });
+    }
+    return;
+  }
+
+  // Rebuys and add-ons bought since the last hand go on the stacks first
+  if (!tableState.get(gameId)) {
+    await tournamentEngine.applyPendingChips(gameId);
+  }
+
   const game = await prisma.game.findUnique({
     where: { id: gameId },
     include: {
@@ -267,7 +401,7 @@ export async function startHandForGame(gameId, io) {
     }
   });
 
-  if (!game || game.players.length < 2) {
+  if (!game || seatedPlayers(game.players).length < 2) {
     throw new Error("Game not found or not enough players");
   }
 
@@ -276,210 +410,89 @@ export async function startHandForGame(gameId, io) {
     return;
   }
 
-  // Get tournament blind levels
-  let smallBlind = 10;
-  let bigBlind = 20;
-  
-  if (game.tournament?.blindLevelsJson) {
-    try {
-      const blindLevels = JSON.parse(game.tournament.blindLevelsJson);
-      if (blindLevels && blindLevels.length > 0) {
-        const firstLevel = blindLevels[0];
-        smallBlind = firstLevel.smallBlind || 10;
-        bigBlind = firstLevel.bigBlind || 20;
-      }
-    } catch (e) {
-      console.warn("Failed to parse blind levels, using defaults");
-    }
+  // The clock deals again once the break or pause is over
+  if (isPlayHalted(game.tournament)) {
+    console.log(`[POKER] Game ${gameId}: tournament is ${game.tournament.clockPausedAt ? "paused" : "on a break"}, not dealing`);
+    return;
   }
 
-  // Create engine with tournament blind levels
-  const tournamentEngine = new TexasHoldem({ 
-    smallBlind, 
-    bigBlind 
-  });
-
-  // Randomly assign dealer (pick random player)
-  const dealerIndex = Math.floor(Math.random() * game.players.length);
-  const dealerPlayer = game.players[dealerIndex];
-  
-  // Seats are numbered ANTICLOCKWISE, so CLOCKWISE movement = DECREASING seat numbers
-  const dealerSeat = dealerPlayer.seatNumber;
-  const maxSeat = Math.max(...game.players.map(p => p.seatNumber));
-  const minSeat = Math.min(...game.players.map(p => p.seatNumber));
-  
-  // Calculate SB and BB seat numbers (clockwise = DECREASING seat numbers, wrapping)
-  const sbSeat = dealerSeat - 1 < minSeat ? maxSeat : dealerSeat - 1;
-  const bbSeat = sbSeat - 1 < minSeat ? maxSeat : sbSeat - 1;
-  
-  // Find players at those seat numbers
-  const sbPlayer = game.players.find(p => p.seatNumber === sbSeat);
-  const bbPlayer = game.players.find(p => p.seatNumber === bbSeat);
-  
-  if (!sbPlayer || !bbPlayer) {
-    throw new Error(`Could not find SB or BB players. Dealer seat: ${dealerSeat}, SB seat: ${sbSeat}, BB seat: ${bbSeat}`);
+  const eligible = game.players.filter((p) => p.chips > 0 && p.status !== "ELIMINATED");
+  if (eligible.length < 2) {
+    throw new Error("Not enough players with chips to start a hand");
   }
 
-  // Deal hole cards
-  const deck = tournamentEngine.createShuffledDeck();
-  const { deck: remainingDeck, players: dealtHands } = tournamentEngine.dealHoleCards(
-    deck,
-    game.players.length
-  );
-
-  // Persist hole cards
-  await Promise.all(
-    game.players.map((p, index) =>
-      prisma.player.update({
-        where: { id: p.id },
-        data: {
-          holeCards: JSON.stringify(dealtHands[index])
-        }
-      })
-    )
-  );
-
-  // Create betting round
-  // Note: startingPot is set to 0 because we track the pot in state.pot
-  // The BettingRound only tracks bets for the current street
-  const bettingRound = new BettingRound({
-    smallBlind,
-    bigBlind,
-    startingPot: 0
+  // Number hands per table. The Hand row's unique (gameId, handNumber) also
+  // makes a second deal of the same hand fail instead of doubling up.
+  const lastHand = await prisma.hand.findFirst({
+    where: { gameId },
+    orderBy: { handNumber: "desc" },
+    select: { handNumber: true }
+  });
+  const handNumber = (lastHand?.handNumber || 0) + 1;
+  await prisma.hand.create({
+    data: { gameId, handNumber, handHistoryJson: "[]" }
   });
 
-  // Post blinds using postBlinds method (doesn't require minimum raise validation)
-  if (sbPlayer.chips >= smallBlind && bbPlayer.chips >= bigBlind) {
-    bettingRound.postBlinds(sbPlayer.id, bbPlayer.id);
-    
-    // Deduct chips from players in database
-    await prisma.player.update({
-      where: { id: sbPlayer.id },
-      data: { chips: sbPlayer.chips - smallBlind }
-    });
-    
-    await prisma.player.update({
-      where: { id: bbPlayer.id },
-      data: { chips: bbPlayer.chips - bigBlind }
-    });
-    
-    // Update chips in memory for state
-    sbPlayer.chips -= smallBlind;
-    bbPlayer.chips -= bigBlind;
+  // Deal at the tournament's current blind level (kept on the game row)
+  let smallBlind = 10;
+  let bigBlind = 20;
+  let ante = 0;
+  let bigBlindAnte = false;
+  let blindLevel = null;
+
+  if (game.tournament) {
+    const blindLevels = parseBlindLevels(game.tournament);
+    if (blindLevels.length > 0) {
+      blindLevel = Math.min(game.currentBlindLevel || 0, blindLevels.length - 1);
+      const level = blindLevels[blindLevel];
+      smallBlind = level.smallBlind || 10;
+      bigBlind = level.bigBlind || 20;
+      ante = level.ante || 0;
+      bigBlindAnte = !!level.bigBlindAnte;
+    }
   }
 
-  // Calculate UTG (first to act after BB) - continue clockwise (DECREASING seat numbers)
-  // UTG is the first player clockwise after BB (not BB themselves, not SB, not dealer)
-  let utgSeat = bbSeat - 1;
-  if (utgSeat < minSeat) utgSeat = maxSeat;
-  
-  // Skip SB and dealer if they're the next player (shouldn't happen in normal play, but handle edge cases)
-  // In normal play: Dealer -> SB -> BB -> UTG (clockwise)
-  // So UTG should be BB - 1, which should never be SB or dealer
-  // But if there are only 2-3 players, we need to ensure UTG is not SB or dealer
-  let attempts = 0;
-  while ((utgSeat === sbSeat || utgSeat === dealerSeat) && attempts < game.players.length) {
-    utgSeat = utgSeat - 1;
-    if (utgSeat < minSeat) utgSeat = maxSeat;
-    attempts++;
-  }
-  
-  const utgPlayer = game.players.find(p => p.seatNumber === utgSeat);
-  
-  if (!utgPlayer) {
-    throw new Error(`Could not find UTG player. BB seat: ${bbSeat}, UTG seat: ${utgSeat}, SB seat: ${sbSeat}, Dealer seat: ${dealerSeat}`);
-  }
-  
-  // CRITICAL: Ensure UTG is NOT the big blind
-  if (utgPlayer.id === bbPlayer.id) {
-    throw new Error(`UTG calculation error: UTG player (${utgPlayer.userId}) is the same as BB player. BB seat: ${bbSeat}, UTG seat: ${utgSeat}`);
-  }
-  
-  console.log(`[POKER] UTG calculation: dealer=${dealerSeat}, sb=${sbSeat}, bb=${bbSeat}, utg=${utgSeat} (${utgPlayer.user?.username || utgPlayer.userId})`);
-
-  // Create hand state
-  const state = {
-    street: "PREFLOP",
-    deck: remainingDeck,
-    communityCards: [],
-    bettingRound,
-    pot: game.pot, // Start with game.pot (should be 0 for new hand), current betting round is added separately in buildClientGameState
-    dealerSeat: dealerPlayer.seatNumber,
-    smallBlindSeat: sbPlayer.seatNumber,
-    bigBlindSeat: bbPlayer.seatNumber,
-    currentTurnUserId: utgPlayer.userId, // First to act after BB (UTG)
-    lastRaiseUserId: null, // Track who last raised (for betting completion check)
-    actedPlayersInRound: new Set(), // Track which players have acted in current betting round
-    players: await Promise.all(
-      game.players.map(async (p, index) => {
-        const updated = await prisma.player.findUnique({ where: { id: p.id } });
-        // Parse hole cards from database (stored as JSON string)
-        // If updated player has holeCards, use those (parsed if string)
-        // Otherwise fall back to p.holeCards (parsed if string)
-        // If neither exists, use dealtHands from current hand
-        let holeCards = null;
-        if (updated?.holeCards) {
-          if (typeof updated.holeCards === 'object') {
-            holeCards = updated.holeCards;
-          } else if (typeof updated.holeCards === 'string') {
-            try {
-              holeCards = JSON.parse(updated.holeCards);
-            } catch (e) {
-              console.warn(`[POKER] Failed to parse holeCards from database for player ${p.id}:`, e.message);
-              holeCards = dealtHands[index];
-            }
-          }
-        } else if (p.holeCards) {
-          if (typeof p.holeCards === 'object') {
-            holeCards = p.holeCards;
-          } else if (typeof p.holeCards === 'string') {
-            try {
-              holeCards = JSON.parse(p.holeCards);
-            } catch (e) {
-              console.warn(`[POKER] Failed to parse holeCards from p for player ${p.id}:`, e.message);
-              holeCards = dealtHands[index];
-            }
-          }
-        } else {
-          holeCards = dealtHands[index];
-        }
-        return {
-          ...p,
-          user: p.user, // Include user object for test player detection
-          chips: updated?.chips || p.chips,
-          holeCards: holeCards, // Include parsed hole cards
-          contributions: (p.id === sbPlayer.id ? smallBlind : 0) + (p.id === bbPlayer.id ? bigBlind : 0),
-          name: p.user?.username || "Player" // Store name for test player detection
-        };
-      })
-    )
-  };
+  const players = seatedPlayers(game.players).map((p) => ({
+    ...p,
+    holeCards: [],
+    contributions: 0,
+    name: p.user?.username || "Player" // Store name for test player detection
+  }));
 
-  tableState.set(gameId, state);
+  // Move the button on from last hand; the table's first button is drawn at random
+  const previousPositions = game.bigBlindSeat != null
+    ? { dealerSeat: game.dealerSeat, smallBlindSeat: game.smallBlindSeat, bigBlindSeat: game.bigBlindSeat }
+    : null;
+  const firstDealerSeat = eligible[Math.floor(Math.random() * eligible.length)].seatNumber;
+  const positions = nextButtonPositions(players, previousPositions, firstDealerSeat);
 
-  // Update game pot
   await prisma.game.update({
     where: { id: gameId },
-    data: { pot: state.pot }
+    data: positions
   });
 
-  // Broadcast game state to all players
-  if (io) {
-    const payload = buildClientGameState(game, state);
-    io.to(`game:${gameId}`).emit("game-state", payload);
-  }
+  const deck = new TexasHoldem({ smallBlind, bigBlind }).createShuffledDeck();
+  const step = createHand({
+    handNumber,
+    positions,
+    smallBlind,
+    bigBlind,
+    ante,
+    bigBlindAnte,
+    deck,
+    players
+  });
+  // Carried on the hand so broadcasts don't need the game row
+  step.state.tournamentId = game.tournamentId;
+  step.state.tableNumber = game.tableNumber;
+  step.state.blindLevel = blindLevel;
+  // Players busting on the same hand are placed by what they started it with
+  step.state.startingStacks = Object.fromEntries(players.map((p) => [p.id, p.chips]));
 
-  // Start turn timer for first player to act (UTG)
-  // CRITICAL: Ensure currentTurnUserId is UTG, not BB
-  console.log(`[POKER] Starting hand: dealer=${dealerPlayer.seatNumber}, sb=${sbPlayer.seatNumber}, bb=${bbPlayer.seatNumber}, utg=${utgPlayer.seatNumber}`);
-  console.log(`[POKER] Setting currentTurnUserId to UTG: ${utgPlayer.userId} (${utgPlayer.user?.username || 'unknown'}), NOT BB: ${bbPlayer.userId}`);
-  console.log(`[POKER] BB contribution: ${bettingRound.getPlayerContribution(bbPlayer.id)}, currentBet: ${bettingRound.currentBet}`);
-  console.log(`[POKER] UTG contribution: ${bettingRound.getPlayerContribution(utgPlayer.id)}, currentBet: ${bettingRound.currentBet}`);
-  
-  startTurnTimer(gameId, utgPlayer.userId, io);
+  const { state } = step;
+  console.log(`[POKER] Started hand ${handNumber} for game ${gameId}: level=${blindLevel === null ? "-" : blindLevel + 1} (${smallBlind}/${bigBlind}), dealer=${state.dealerSeat}, sb=${state.smallBlindSeat}, bb=${state.bigBlindSeat}, first to act=${state.currentTurnUserId}`);
 
-  console.log(`[POKER] Started hand for game ${gameId}: dealer=${dealerPlayer.seatNumber}, sb=${sbPlayer.seatNumber}, bb=${bbPlayer.seatNumber}, utg=${utgPlayer.seatNumber}`);
-  
+  await runEngineStep(gameId, io, step);
   return state;
 }
 
@@ -487,17 +500,11 @@ export async function startHandForGame(gameId, io) {
  * Start a turn timer for a player
  * Human players: 10 seconds grace period, then 10 second countdown (20 seconds total)
  * Test players: 3 seconds total
+ * @param {number|null} resumeExpiresAt - Deadline of a timer restored from a snapshot (keeps the time already used)
  */
-function startTurnTimer(gameId, userId, io) {
+function startTurnTimer(gameId, userId, io, resumeExpiresAt = null) {
   // Clear existing timer for this game
-  const existingTimer = turnTimers.get(gameId);
-  if (existingTimer) {
-    clearTimeout(existingTimer.timerId);
-    if (existingTimer.graceTimerId) {
-      clearTimeout(existingTimer.graceTimerId);
-    }
-    turnTimers.delete(gameId);
-  }
+  clearTurnTimer(gameId);
 
   // Get game state to check if player is test player
   const state = tableState.get(gameId);
@@ -506,6 +513,10 @@ function startTurnTimer(gameId, userId, io) {
   const player = state.players.find((p) => p.userId === userId);
   if (!player) return;
 
+  // The hand position this timer was started for; if anything has happened
+  // by the time it fires (e.g. the player acted), it does nothing
+  const expected = { handNumber: state.handNumber, actionSeq: state.actionSeq };
+
   // Check if test player - test players have username that starts with "Test Player"
   const playerName = player.name || player.user?.username || "";
   const isTestPlayer = playerName.toLowerCase().startsWith('test player');
@@ -514,14 +525,14 @@ function startTurnTimer(gameId, userId, io) {
 
   if (isTestPlayer) {
     // Test players: 3 seconds total, auto-act after
-    const timeoutMs = 3000;
+    const timeoutMs = resumeExpiresAt ? Math.max(0, resumeExpiresAt - Date.now()) : 3000;
     const expiresAt = Date.now() + timeoutMs;
     
     console.log(`[POKER] Starting 3-second timer for test player ${playerName}, will call handleTestPlayerAction`);
     
     const timerId = setTimeout(() => {
       console.log(`[POKER] Timer expired for test player ${playerName}, calling handleTestPlayerAction`);
-      handleTestPlayerAction(gameId, userId, io);
+      runOnTable(gameId, () => handleTestPlayerAction(gameId, userId, io, expected));
     }, timeoutMs);
 
     turnTimers.set(gameId, { timerId, userId, expiresAt, duration: timeoutMs });
@@ -537,9 +548,11 @@ function startTurnTimer(gameId, userId, io) {
     }
   } else {
     // Human players: 10 seconds grace, then 10 second countdown (20 seconds total)
-    const gracePeriodMs = 10000;
     const countdownMs = 10000;
-    const totalTimeoutMs = gracePeriodMs + countdownMs;
+    const totalTimeoutMs = resumeExpiresAt
+      ? Math.max(0, resumeExpiresAt - Date.now())
+      : 10000 + countdownMs;
+    const gracePeriodMs = Math.max(0, totalTimeoutMs - countdownMs);
     const expiresAt = Date.now() + totalTimeoutMs;
     
     // After grace period, emit timer start event (shows countdown)
@@ -556,7 +569,7 @@ function startTurnTimer(gameId, userId, io) {
 
     // After total timeout, auto-fold
     const timeoutTimerId = setTimeout(() => {
-      autoFoldPlayer(gameId, userId, io);
+      runOnTable(gameId, () => autoFoldPlayer(gameId, userId, io, expected));
     }, totalTimeoutMs);
 
     // Store both timers
@@ -569,38 +582,23 @@ function startTurnTimer(gameId, userId, io) {
       gracePeriodMs 
     });
   }
+
+  snapshotTable(gameId);
 }
 
 /**
  * Auto-fold a player when their timer expires
  */
-async function autoFoldPlayer(gameId, userId, io) {
+async function autoFoldPlayer(gameId, userId, io, expected) {
   try {
-    const state = await applyPlayerAction({
-      gameId,
-      userId,
-      action: "FOLD",
-      amount: 0
-    });
-
-    const game = await prisma.game.findUnique({
-      where: { id: gameId },
-      include: {
-        players: {
-          include: { user: true }
-        }
-      }
-    });
-
-    if (!game) return;
-
-    // Move to next player
-    await moveToNextPlayer(gameId, io);
-
-    const payload = buildClientGameState(game, state);
-    if (io) {
-      io.to(`game:${gameId}`).emit("game-state", payload);
+    const state = tableState.get(gameId);
+    if (!isCurrentTurn(state, userId, expected)) {
+      console.log(`[POKER] Skipping stale auto-fold for ${userId} in game ${gameId}`);
+      return;
     }
+
+    console.log(`[POKER] Turn timer expired, auto-folding ${userId} in game ${gameId}`);
+    await runEngineStep(gameId, io, applyAction(state, { userId, action: "FOLD" }));
   } catch (err) {
     console.error("[POKER] Error auto-folding player:", err);
   }
@@ -609,10 +607,14 @@ async function autoFoldPlayer(gameId, userId, io) {
 /**
  * Handle test player auto-action (simple logic: 30% fold, 40% call/check, 30% bet)
  */
-async function handleTestPlayerAction(gameId, userId, io) {
+async function handleTestPlayerAction(gameId, userId, io, expected) {
   try {
     console.log(`[POKER] handleTestPlayerAction called for userId: ${userId}`);
     const state = tableState.get(gameId);
+    if (state && !isCurrentTurn(state, userId, expected)) {
+      console.log(`[POKER] Skipping stale test player action for ${userId} in game ${gameId}`);
+      return;
+    }
     if (!state) {
       console.log(`[POKER] No state found for gameId: ${gameId}`);
       return;
@@ -630,12 +632,11 @@ async function handleTestPlayerAction(gameId, userId, io) {
     
     console.log(`[POKER] Test player ${player.name || userId} is acting...`);
 
-    const currentBet = state.bettingRound?.currentBet || 0;
-    const bigBlind = state.bettingRound?.bigBlind || 20;
-    const myChips = player.chips;
-    const myContribution = state.bettingRound?.getPlayerContribution(player.id) || 0;
-    const amountToCall = currentBet - myContribution;
-    const canCheck = amountToCall === 0;
+    // Bots pick from the same legal actions a human is offered
+    const legalActions = getLegalActions(state, player.seatNumber);
+    const callOption = legalActions.find((a) => a.type === "CALL");
+    const raiseOption = legalActions.find((a) => a.type === "BET" || a.type === "RAISE");
+    const canCheck = legalActions.some((a) => a.type === "CHECK");
 
     // Simple random logic
     const rand = Math.random();
@@ -647,7 +648,7 @@ async function handleTestPlayerAction(gameId, userId, io) {
       action = "FOLD";
       amount = 0;
       console.log(`[POKER] Test player ${player.name || userId} decided to FOLD (rand=${rand.toFixed(2)})`);
-    } else if (rand < 0.7 || canCheck) {
+    } else if (rand < 0.7 || canCheck || !raiseOption) {
       // 40% call/check (or check if no bet)
       if (canCheck) {
         action = "CHECK";
@@ -655,34 +656,63 @@ async function handleTestPlayerAction(gameId, userId, io) {
         console.log(`[POKER] Test player ${player.name || userId} decided to CHECK (rand=${rand.toFixed(2)})`);
       } else {
         action = "CALL";
-        amount = Math.min(amountToCall, myChips);
+        amount = callOption?.amount || 0;
         console.log(`[POKER] Test player ${player.name || userId} decided to CALL ${amount} (rand=${rand.toFixed(2)})`);
       }
     } else {
       // 30% bet/raise (minimum raise or half pot)
-      const minRaise = currentBet + (state.bettingRound?.minimumRaise || bigBlind);
       const halfPot = Math.floor((state.pot || 0) / 2);
-      const betAmount = Math.max(minRaise, halfPot);
-      amount = Math.min(betAmount, myChips);
-      
-      if (currentBet === 0) {
-        action = "BET";
-        console.log(`[POKER] Test player ${player.name || userId} decided to BET ${amount} (rand=${rand.toFixed(2)})`);
-      } else {
-        action = "RAISE";
-        console.log(`[POKER] Test player ${player.name || userId} decided to RAISE ${amount} (rand=${rand.toFixed(2)})`);
-      }
+      action = raiseOption.type;
+      amount = Math.min(raiseOption.max, Math.max(raiseOption.min, halfPot));
+      console.log(`[POKER] Test player ${player.name || userId} decided to ${action} to ${amount} (rand=${rand.toFixed(2)})`);
     }
 
-    // Apply the action
-    const newState = await applyPlayerAction({
-      gameId,
-      userId,
-      action,
-      amount
-    });
+    await runEngineStep(gameId, io, applyAction(state, { userId, action, amount }));
+  } catch (err) {
+    console.error("[POKER] Error handling test player action:", err);
+  }
+}
 
-    const game = await prisma.game.findUnique({
+/**
+ * Clear a finished hand, reset its players and deal the next one.
+ * In a tournament, busted players are knocked out and tables broken or
+ * balanced first (only ever between hands).
+ * Also used when a snapshot of an already-settled hand is restored on boot.
+ * Must run on the table's queue; resolves once the next hand is dealt.
+ */
+function finishHand(gameId, state, io) {
+  // Already finished (e.g. by a restored snapshot of the same hand)
+  if (tableState.get(gameId)?.handNumber !== state.handNumber) {
+    console.log(`[POKER] Game ${gameId}: hand ${state.handNumber} is no longer on the table, not finishing it again`);
+    return Promise.resolve();
+  }
+
+  console.log(`[SHOWDOWN] Clearing hand state for next hand`);
+  const savedPlayers = [...state.players]; // Save players array before clearing state
+  clearTableState(gameId);
+  
+  return resetPlayersForNextHand(savedPlayers).then(async () => {
+    console.log(`[SHOWDOWN] All players reset for next hand`);
+
+    let consolidation;
+    try {
+      const knockouts = state.handLog?.find((e) => e.type === "SHOWDOWN")?.results.knockouts || [];
+      consolidation = await tournamentEngine.onHandFinished(gameId, {
+        startingStacks: state.startingStacks,
+        finalStacks: Object.fromEntries(savedPlayers.map((p) => [p.id, p.chips])),
+        knockouts
+      });
+    } catch (err) {
+      console.error(`[TOURNAMENT] Error consolidating tables after a hand in game ${gameId}:`, err);
+      consolidation = { dealAgain: true, moves: [], closedGameIds: [] };
+    }
+    announceTableMoves(io || ioInstance, consolidation);
+    if (!consolidation.dealAgain) {
+      console.log(`[POKER] Game ${gameId}: not dealing another hand here`);
+      return;
+    }
+    
+    const gameForNextHand = await prisma.game.findUnique({
       where: { id: gameId },
       include: {
         players: {
@@ -690,612 +720,313 @@ async function handleTestPlayerAction(gameId, userId, io) {
         }
       }
     });
-
-    if (!game) return;
-
-    // Check if betting round is complete (same logic as regular player action)
-    const activePlayerIds = newState.players
-      .filter(p => p.status !== 'FOLDED' && p.status !== 'ELIMINATED')
-      .map(p => p.id);
-    
-    console.log(`[TEST PLAYER] Checking betting complete after ${action} by ${player.name || userId}`);
-    console.log(`[TEST PLAYER] Active players: ${activePlayerIds.length}, lastRaiseUserId=${newState.lastRaiseUserId || 'null'}, currentTurnUserId=${newState.currentTurnUserId || 'null'}`);
     
-    const bettingComplete = newState.bettingRound.isBettingComplete(
-      activePlayerIds, 
-      newState.lastRaiseUserId,
-      newState.currentTurnUserId,
-      newState.players
-    );
-    
-    console.log(`[TEST PLAYER] Betting complete? ${bettingComplete}`);
-    
-    if (bettingComplete) {
-      // Check if only 1 player remains - award pot immediately without dealing cards
-      const activePlayersAfterAction = newState.players.filter(p => p.status !== 'FOLDED' && p.status !== 'ELIMINATED');
-      if (activePlayersAfterAction.length === 1) {
-        // Only one player remaining - award pot and end hand (same logic as regular player action)
-        const winner = activePlayersAfterAction[0];
-        const collectedPot = newState.bettingRound.getTotalPot();
-        const totalPot = newState.pot + collectedPot;
-        
-        winner.chips += totalPot;
-        newState.pot = 0;
-        
-        console.log(`[TEST PLAYER] Single player remaining - awarding pot of ${totalPot} to ${winner.name || winner.userId}`);
-        
-        // Update winner chips in database (async)
-        prisma.player.update({
-          where: { id: winner.id },
-          data: { chips: winner.chips }
-        }).catch(err => console.error('[TEST PLAYER] Error updating winner chips:', err));
-        
-        // Update game pot in database (async)
-        prisma.game.update({
-          where: { id: gameId },
-          data: { pot: 0 }
-        }).catch(err => console.error('[TEST PLAYER] Error updating game pot:', err));
-        
-        // Clear hand state
-        const savedPlayers = [...newState.players];
-        tableState.delete(gameId);
-        
-        // Reset player statuses (async)
-        setTimeout(() => {
-          savedPlayers.forEach(p => {
-            prisma.player.update({
-              where: { id: p.id },
-              data: { 
-                status: 'ACTIVE',
-                holeCards: "",
-                lastAction: null
-              }
-            }).catch(err => console.error(`[TEST PLAYER] Error resetting player ${p.id}:`, err));
-          });
-        }, 2000);
-        
-        // Emit updated state
-        const updatedGameFromState = {
-          id: gameId,
-          pot: 0,
-          players: newState.players.map(p => ({
-            id: p.id,
-            userId: p.userId,
-            name: p.name,
-            chips: p.chips,
-            seatNumber: p.seatNumber,
-            status: p.status,
-            holeCards: p.holeCards,
-            avatarUrl: p.avatarUrl || p.user?.avatarUrl,
-            user: p.user
-          }))
-        };
-        const payload = buildClientGameState(updatedGameFromState, newState);
-        if (io) io.to(`game:${gameId}`).emit("game-state", payload);
-        return; // Don't advance to next street
-      }
-      
-      // Multiple players remaining - advance to next street
-      await advanceToNextStreet(gameId, io);
-      // Get updated state after advancing street
-      const updatedGame = await prisma.game.findUnique({
-        where: { id: gameId },
-        include: { players: { include: { user: true } } }
-      });
-      if (updatedGame) {
-        const updatedState = tableState.get(gameId);
-        if (updatedState) {
-          const updatedGameFromState = {
-            id: gameId,
-            pot: updatedState.pot,
-            communityCards: updatedState.communityCards,
-            players: updatedState.players.map(p => ({
-              id: p.id,
-              userId: p.userId,
-              name: p.name,
-              chips: p.chips,
-              seatNumber: p.seatNumber,
-              status: p.status,
-              holeCards: p.holeCards,
-              avatarUrl: p.avatarUrl || p.user?.avatarUrl,
-              user: p.user
-            }))
-          };
-          const payload = buildClientGameState(updatedGameFromState, updatedState);
-          if (io) io.to(`game:${gameId}`).emit("game-state", payload);
+    if (gameForNextHand && seatedPlayers(gameForNextHand.players).length >= 2) {
+      // Start new hand (startHand moves the button on from this one)
+      if (io) {
+        try {
+          await startHand(gameId, io);
+          console.log(`[SHOWDOWN] Started new hand after showdown`);
+        } catch (err) {
+          console.error(`[SHOWDOWN] Error starting new hand:`, err);
         }
       }
-    } else {
-      // Move to next player in current betting round
-      await moveToNextPlayer(gameId, io);
-      const payload = buildClientGameState(game, newState);
-      if (io) io.to(`game:${gameId}`).emit("game-state", payload);
     }
-  } catch (err) {
-    console.error("[POKER] Error handling test player action:", err);
-  }
+  });
 }
 
 /**
- * Handle showdown when river betting completes - determine winners and distribute pot
+ * Send moved players to their new tables and everyone else at a broken
+ * table back to the lobby, then deal at tables that were waiting for players.
  */
-async function handleShowdown(gameId, io) {
-  const state = tableState.get(gameId);
-  if (!state) return;
-
-  const evaluator = new HandEvaluator();
-  
-  // Collect pot from current betting round
-  const collectedPot = state.bettingRound.getTotalPot();
-  const oldPot = state.pot || 0;
-  state.pot = oldPot + collectedPot;
-  
-  const activePlayers = state.players.filter(p => p.status !== 'FOLDED' && p.status !== 'ELIMINATED');
-  
-  if (activePlayers.length === 0) {
-    console.log(`[SHOWDOWN] No active players for showdown`);
-    return;
+function announceTableMoves(io, { moves, closedGameIds }) {
+  if (!io) return;
+
+  for (const move of moves) {
+    const oldSeatRoom = seatRoom(move.fromGameId, move.userId);
+    io.to(oldSeatRoom).emit("table-changed", {
+      gameId: move.toGameId,
+      fromGameId: move.fromGameId,
+      tableNumber: move.tableNumber,
+      seatNumber: move.seatNumber
+    });
+    // Their sockets stop getting the old table's updates; they join the new one themselves
+    io.in(oldSeatRoom).socketsLeave([`game:${move.fromGameId}`, oldSeatRoom]);
   }
 
-  console.log(`[SHOWDOWN] Starting showdown with ${activePlayers.length} active players`);
-  console.log(`[SHOWDOWN] Community cards:`, state.communityCards);
-  console.log(`[SHOWDOWN] Total pot: ${state.pot} (old: ${oldPot}, collected: ${collectedPot})`);
-
-  // Evaluate all active players' hands
-  const handResults = activePlayers.map(player => {
-    if (!player.holeCards || !Array.isArray(player.holeCards) || player.holeCards.length !== 2) {
-      console.warn(`[SHOWDOWN] Player ${player.name || player.userId} (seat ${player.seatNumber}) has invalid hole cards:`, player.holeCards);
-      return { player, hand: null, strength: -1 };
-    }
-
-    const sevenCards = [...state.communityCards, ...player.holeCards];
-    const hand = evaluator.evaluateBestHand(sevenCards);
-    
-    console.log(`[SHOWDOWN] Player ${player.name || player.userId} (seat ${player.seatNumber}): ${hand.category}, strength=${hand.strength}`);
-    
-    return {
-      player,
-      hand,
-      strength: hand.strength
-    };
-  }).filter(result => result.hand !== null);
-
-  if (handResults.length === 0) {
-    console.error(`[SHOWDOWN] No valid hands evaluated`);
-    return;
+  for (const gameId of closedGameIds) {
+    io.to(`game:${gameId}`).emit("table-closed", { gameId });
   }
 
-  // Find maximum strength (best hand)
-  const maxStrength = Math.max(...handResults.map(r => r.strength));
-  const winners = handResults.filter(r => r.strength === maxStrength);
-
-  console.log(`[SHOWDOWN] ${winners.length} winner(s) with strength ${maxStrength}:`);
-  winners.forEach(w => {
-    console.log(`[SHOWDOWN]   Winner: ${w.player.name || w.player.userId} (seat ${w.player.seatNumber}) - ${w.hand.category}`);
-  });
-
-  // Distribute pot among winners (split evenly)
-  const potPerWinner = Math.floor(state.pot / winners.length);
-  const remainder = state.pot % winners.length; // Extra chips go to first winner
-
-  winners.forEach((winner, index) => {
-    const amount = potPerWinner + (index === 0 ? remainder : 0);
-    winner.player.chips += amount;
-    console.log(`[SHOWDOWN] Distributing ${amount} chips to ${winner.player.name || winner.player.userId} (seat ${winner.player.seatNumber})`);
-    
-    // Update player chips in database (async)
-    prisma.player.update({
-      where: { id: winner.player.id },
-      data: { chips: winner.player.chips }
-    }).catch(err => console.error(`[SHOWDOWN] Error updating chips for player ${winner.player.id}:`, err));
-  });
-
-  // Reset pot
-  state.pot = 0;
-
-  // Update game pot in database (async)
-  prisma.game.update({
-    where: { id: gameId },
-    data: { pot: 0 }
-  }).catch(err => console.error(`[SHOWDOWN] Error updating game pot:`, err));
-
-  // Build game state with showdown results
-  const game = await prisma.game.findUnique({
-    where: { id: gameId },
-    include: {
-      players: {
-        include: { user: true }
-      }
-    }
-  });
-
-  if (!game) return;
-
-  // Build result payload for clients
-  const showdownResults = {
-    winners: winners.map(w => ({
-      playerId: w.player.id,
-      userId: w.player.userId,
-      name: w.player.name || w.player.user?.username || `Player ${w.player.seatNumber}`,
-      seatNumber: w.player.seatNumber,
-      handCategory: w.hand.category,
-      potWon: potPerWinner + (winners.indexOf(w) === 0 ? remainder : 0)
-    })),
-    allHands: handResults.map(r => ({
-      playerId: r.player.id,
-      userId: r.player.userId,
-      name: r.player.name || r.player.user?.username || `Player ${r.player.seatNumber}`,
-      seatNumber: r.player.seatNumber,
-      handCategory: r.hand.category,
-      strength: r.strength
-    }))
-  };
-
-  // Emit showdown results
-  if (io) {
-    io.to(`game:${gameId}`).emit("showdown", {
-      gameId,
-      results: showdownResults
+  // Queued on each table, so a hand already running there is left alone
+  const destinations = new Set(moves.map((m) => m.toGameId));
+  for (const gameId of destinations) {
+    if (closedGameIds.includes(gameId)) continue;
+    startHandForGame(gameId, io).catch((err) => {
+      console.log(`[POKER] Game ${gameId}: not dealing yet (${err.message})`);
     });
-
-    // Also emit updated game state
-    const payload = buildClientGameState(game, state);
-    io.to(`game:${gameId}`).emit("game-state", payload);
   }
+}
 
-  // Clear hand state after a short delay (allow clients to see results)
-  setTimeout(() => {
-    console.log(`[SHOWDOWN] Clearing hand state for next hand`);
-    const savedPlayers = [...state.players]; // Save players array before clearing state
-    tableState.delete(gameId);
-    
-    // Reset all players' statuses for next hand
-    const resetPromises = savedPlayers.map(p => 
+/**
+ * Reset every player's per-hand status, cards and last action, and save
+ * their stack as the hand left it (the per-action chip writes aren't
+ * awaited, so one could otherwise be the last to land).
+ */
+function resetPlayersForNextHand(players) {
+  return Promise.all(
+    players.map(p =>
       prisma.player.update({
         where: { id: p.id },
         data: { 
+          chips: p.chips,
+          handStartChips: null,
           status: 'ACTIVE',
           holeCards: "",
           lastAction: null
         }
-      }).catch(err => console.error(`[SHOWDOWN] Error resetting player ${p.id}:`, err))
-    );
-    
-    Promise.all(resetPromises).then(async () => {
-      console.log(`[SHOWDOWN] All players reset for next hand`);
-      
-      // Move dealer button clockwise (decrease seat number, wrap if needed)
-      const gameForNextHand = await prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          players: {
-            include: { user: true }
-          }
-        }
-      });
-      
-      if (gameForNextHand && gameForNextHand.players.length >= 2) {
-        // Note: dealerSeat is not stored in database, it's recalculated in startHandForGame
-        // The dealer button moves clockwise automatically when startHandForGame is called
-        // because it randomly selects a dealer from active players, ensuring rotation over time
-        
-        // Start new hand (dealer will be selected/rotated in startHandForGame)
-        if (io) {
-          try {
-            await startHandForGame(gameId, io);
-            console.log(`[SHOWDOWN] Started new hand after showdown`);
-          } catch (err) {
-            console.error(`[SHOWDOWN] Error starting new hand:`, err);
-          }
-        }
-      }
-    });
-  }, 5000); // 5 second delay to show results
+      }).catch(err => console.error(`[POKER] Error resetting player ${p.id}:`, err))
+    )
+  );
 }
 
 /**
- * Advance to next street (deal community cards) when betting round completes
+ * Take over a table's persisted hand (after a restart, or from an instance
+ * that died) and resume it: running hands get their turn timer back with
+ * whatever time was left, finished streets are dealt on, and settled hands
+ * move straight on to the next deal.
  */
-async function advanceToNextStreet(gameId, io) {
-  const state = tableState.get(gameId);
-  if (!state) return;
+async function adoptTable(gameId, io) {
+  if (tableState.has(gameId)) return;
 
-  const { TexasHoldem } = await import("../poker/TexasHoldem.js");
-  const smallBlind = state.bettingRound?.smallBlind || 10;
-  const bigBlind = state.bettingRound?.bigBlind || 20;
-  const engine = new TexasHoldem({ smallBlind, bigBlind });
-
-  // Collect pot from current betting round
-  const collectedPot = state.bettingRound.getTotalPot();
-  const oldPot = state.pot || 0;
-  state.pot = oldPot + collectedPot;
-
-  // Clear betting round contributions
-  state.bettingRound.playerBets.clear();
-  state.bettingRound.currentBet = 0;
-  state.lastRaiseUserId = null;
-  // Reset acted players tracking for new betting round
-  state.actedPlayersInRound = new Set();
-
-  // Deal community cards based on current street
-  if (state.street === "PREFLOP") {
-    // Deal flop
-    const { deck: newDeck, cards: flopCards } = engine.dealFlop(state.deck);
-    state.deck = newDeck;
-    state.communityCards = flopCards;
-    state.street = "FLOP";
-  } else if (state.street === "FLOP") {
-    // Deal turn
-    const { deck: newDeck, card: turnCard } = engine.dealTurnOrRiver(state.deck);
-    state.deck = newDeck;
-    state.communityCards = [...state.communityCards, turnCard];
-    state.street = "TURN";
-  } else if (state.street === "TURN") {
-    // Deal river
-    const { deck: newDeck, card: riverCard } = engine.dealTurnOrRiver(state.deck);
-    state.deck = newDeck;
-    state.communityCards = [...state.communityCards, riverCard];
-    state.street = "RIVER";
-  } else if (state.street === "RIVER") {
-    // Hand complete - showdown
-    await handleShowdown(gameId, io);
-    return;
-  }
+  const snapshot = await tableStore.load(gameId);
+  if (!snapshot || tableState.has(gameId)) return;
 
-  // Start new betting round - first player to act is first active player after dealer
-  const activePlayers = state.players.filter(p => p.status !== 'FOLDED' && p.status !== 'ELIMINATED');
-  if (activePlayers.length > 1) {
-    // Find first active player after dealer (clockwise)
-    const dealerSeat = state.dealerSeat;
-    const maxSeat = Math.max(...state.players.map(p => p.seatNumber));
-    const minSeat = Math.min(...state.players.map(p => p.seatNumber));
-    
-    let firstToActSeat = dealerSeat - 1; // Clockwise = decrease
-    if (firstToActSeat < minSeat) firstToActSeat = maxSeat;
-    
-    // Find active player at or after this seat
-    let firstToActPlayer = activePlayers.find(p => p.seatNumber === firstToActSeat);
-    let attempts = 0;
-    while (!firstToActPlayer && attempts < activePlayers.length) {
-      firstToActSeat = firstToActSeat - 1;
-      if (firstToActSeat < minSeat) firstToActSeat = maxSeat;
-      firstToActPlayer = activePlayers.find(p => p.seatNumber === firstToActSeat);
-      attempts++;
-    }
-    
-    if (firstToActPlayer) {
-      console.log(`[POKER] advanceToNextStreet: Starting new betting round on ${state.street}, first to act: seat ${firstToActPlayer.seatNumber} (${firstToActPlayer.name || firstToActPlayer.userId})`);
-      state.currentTurnUserId = firstToActPlayer.userId;
-      state.lastRaiseUserId = null; // Reset last raise for new street
-      startTurnTimer(gameId, firstToActPlayer.userId, io);
+  const { state, turnTimer } = snapshot;
+  tableState.set(gameId, state);
+
+  if (state.handComplete) {
+    console.log(`[TABLE STATE] Game ${gameId}: hand was already settled, dealing the next one`);
+    await finishHand(gameId, state, io);
+  } else if (state.currentTurnUserId) {
+    const resumeAt = turnTimer?.userId === state.currentTurnUserId ? turnTimer.expiresAt : null;
+    console.log(`[TABLE STATE] Game ${gameId}: resuming ${state.street} with ${state.currentTurnUserId} to act`);
+    startTurnTimer(gameId, state.currentTurnUserId, io, resumeAt);
+  } else {
+    // Betting on this street had finished (e.g. mid run-out); deal on
+    console.log(`[TABLE STATE] Game ${gameId}: ${state.street} betting was complete, advancing`);
+    try {
+      await runEngineStep(gameId, io, advanceStreet(state));
+    } catch (err) {
+      console.error(`[TABLE STATE] Game ${gameId}: failed to advance restored hand:`, err);
     }
   }
+}
 
-  // Update community cards in database (async - don't block)
-  prisma.game.update({
-    where: { id: gameId },
-    data: {
-      pot: state.pot,
-      communityCards: JSON.stringify(state.communityCards)
+/**
+ * Claim and resume every persisted hand whose table has no live owner.
+ */
+async function adoptOrphanedTables(io) {
+  const gameIds = await tableStore.listGameIds();
+  for (const gameId of gameIds) {
+    if (tableState.has(gameId)) continue;
+    if (await ownership.claim(gameId)) {
+      await runOnTable(gameId, () => adoptTable(gameId, io));
     }
-  }).catch(err => console.error('[ADVANCE STREET] Error updating game in DB:', err));
-
-  tableState.set(gameId, state);
+  }
 }
 
 /**
- * Move to the next player to act (clockwise - decreasing seat numbers for anticlockwise seat numbering)
+ * Another instance took over this table: stop running it here, but leave the
+ * Redis snapshot alone (it belongs to the new owner now).
  */
-async function moveToNextPlayer(gameId, io) {
-  const state = tableState.get(gameId);
-  if (!state) return;
+function dropTable(gameId) {
+  clearTurnTimer(gameId);
+  tableState.delete(gameId);
+}
 
-  const activePlayers = state.players.filter((p) => p.status !== 'FOLDED' && p.status !== 'ELIMINATED');
-  
-  if (activePlayers.length === 0) {
-    state.currentTurnUserId = null;
+async function restoreTableStates(io) {
+  const ready = await tableStore.whenReady();
+  if (!ready) {
+    console.warn("[TABLE STATE] Redis not available, starting with no restored hands");
     return;
   }
 
-  if (!state.currentTurnUserId) {
-    // No current player, start with UTG (first player after BB, which we'll calculate from dealer)
-    // For now, just use the first active player with lowest seat number
-    const sortedPlayers = [...activePlayers].sort((a, b) => a.seatNumber - b.seatNumber);
-    state.currentTurnUserId = sortedPlayers[0].userId;
-    startTurnTimer(gameId, state.currentTurnUserId, io);
-    return;
+  await adoptOrphanedTables(io);
+  console.log(`[TABLE STATE] Running ${tableState.size} restored table(s)`);
+
+  // Failover: keep picking up hands whose owner stopped renewing its lease
+  setInterval(() => {
+    adoptOrphanedTables(io).catch((err) => {
+      console.error("[TABLE OWNERSHIP] Failed to adopt orphaned tables:", err);
+    });
+  }, RENEW_INTERVAL_MS);
+}
+
+/**
+ * Run a table event on this instance if it owns (or can claim) the table,
+ * otherwise forward it to the owner.
+ */
+async function routeTableEvent(io, event, payload) {
+  if (await ownership.claim(payload.gameId)) {
+    return runOnTable(payload.gameId, async () => {
+      await adoptTable(payload.gameId, io);
+      return tableEventHandlers[event](io, payload);
+    });
   }
 
-  // Get all seat numbers to find min and max for wrapping
-  const allSeatNumbers = state.players.map(p => p.seatNumber);
-  const minSeat = Math.min(...allSeatNumbers);
-  const maxSeat = Math.max(...allSeatNumbers);
-  
-  const currentPlayer = activePlayers.find((p) => p.userId === state.currentTurnUserId);
-  
-  if (!currentPlayer) {
-    // Current player not found (they might have folded or been eliminated)
-    // Find the player that was the current turn from ALL players (including folded)
-    const allPlayersCurrent = state.players.find((p) => p.userId === state.currentTurnUserId);
-    
-    console.log(`[TURN ORDER] Current player not in active players. Looking for folded player: ${state.currentTurnUserId}, found: ${!!allPlayersCurrent}`);
-    
-    if (allPlayersCurrent) {
-      // The current player exists but is folded/eliminated - start from next seat clockwise after them
-      const currentSeat = allPlayersCurrent.seatNumber;
-      const allSeatNumbers = state.players.map(p => p.seatNumber);
-      const minSeat = Math.min(...allSeatNumbers);
-      const maxSeat = Math.max(...allSeatNumbers);
-      
-      console.log(`[TURN ORDER] Folded player was at seat ${currentSeat}, starting search clockwise from seat ${currentSeat - 1 < minSeat ? maxSeat : currentSeat - 1}`);
-      
-      // Start from next seat clockwise after the folded player
-      let nextSeat = currentSeat - 1;
-      if (nextSeat < minSeat) nextSeat = maxSeat;
-      
-      // Find first active player at or after this seat
-      let nextPlayer = activePlayers.find(p => p.seatNumber === nextSeat);
-      let attempts = 0;
-      while (!nextPlayer && attempts < activePlayers.length) {
-        nextSeat = nextSeat - 1;
-        if (nextSeat < minSeat) nextSeat = maxSeat;
-        nextPlayer = activePlayers.find(p => p.seatNumber === nextSeat);
-        attempts++;
-        console.log(`[TURN ORDER] Searching for active player, checked seat ${nextSeat}, found: ${!!nextPlayer}`);
-      }
-      
-      if (nextPlayer) {
-        console.log(`[TURN ORDER] Found next player after folded player: seat ${nextPlayer.seatNumber} (${nextPlayer.name || nextPlayer.userId})`);
-        state.currentTurnUserId = nextPlayer.userId;
-        startTurnTimer(gameId, state.currentTurnUserId, io);
-        return;
-      } else {
-        console.log(`[TURN ORDER] No active players found after folded player at seat ${currentSeat}`);
-      }
-    }
-    
-    // Fallback: start with first active player
-    console.log(`[TURN ORDER] Falling back to first active player`);
-    const sortedPlayers = [...activePlayers].sort((a, b) => a.seatNumber - b.seatNumber);
-    if (sortedPlayers.length > 0) {
-      state.currentTurnUserId = sortedPlayers[0].userId;
-      startTurnTimer(gameId, state.currentTurnUserId, io);
-      console.log(`[TURN ORDER] Set turn to first active player: seat ${sortedPlayers[0].seatNumber} (${sortedPlayers[0].name || sortedPlayers[0].userId})`);
-    } else {
-      console.log(`[TURN ORDER] No active players found, setting currentTurnUserId to null`);
-      state.currentTurnUserId = null;
-    }
-    return;
+  console.log(`[TABLE OWNERSHIP] Forwarding ${event} for game ${payload.gameId} to its owner`);
+  if (!(await forwardTableEvent(io, event, payload))) {
+    throw new Error("The table isn't available right now, please try again");
   }
+}
 
-  const currentSeat = currentPlayer.seatNumber;
-  
-  // Create a map of seat number to player for faster lookup (include ALL active players)
-  // We need ALL players who haven't folded, not just those who haven't acted yet
-  const seatMap = new Map();
-  const activeSeats = new Set();
-  activePlayers.forEach(p => {
-    // Include all active players (even current one for logging, but we'll skip them in search)
-    seatMap.set(p.seatNumber, p);
-    activeSeats.add(p.seatNumber);
+/**
+ * Send a table event to the instance that owns the table. Every other
+ * instance acknowledges it, the owner with `true`.
+ * @returns {Promise<boolean>} whether an owner took the event
+ */
+function forwardTableEvent(io, event, payload) {
+  return new Promise((resolve) => {
+    const giveUp = setTimeout(() => resolve(false), FORWARD_TIMEOUT_MS);
+    io.serverSideEmit(TABLE_EVENT, { event, payload }, (err, responses = []) => {
+      clearTimeout(giveUp);
+      resolve(responses.includes(true));
+    });
+  }).then((handled) => {
+    if (!handled) {
+      console.error(`[TABLE OWNERSHIP] No instance took the forwarded ${event} for game ${payload.gameId}`);
+    }
+    return handled;
   });
-  
-  console.log(`[POKER] Turn rotation from seat ${currentSeat}: ALL active seats = [${Array.from(activeSeats).sort((a,b) => a-b).join(', ')}], min=${minSeat}, max=${maxSeat}, currentTurn=${state.currentTurnUserId}`);
-  
-  // Find next player clockwise who needs to act
-  // Seats are numbered ANTICLOCKWISE, so clockwise = DECREASING seat numbers
-  // Start from currentSeat - 1 and wrap to maxSeat if we go below minSeat
-  let nextSeat = currentSeat - 1;
-  if (nextSeat < minSeat) nextSeat = maxSeat;
-  
-  let attempts = 0;
-  let nextPlayer = null;
-  const totalSeats = maxSeat - minSeat + 1;
-  const checkedSeats = [];
-  const currentBet = state.bettingRound?.currentBet || 0;
-  
-  // Search through all possible seats (at most totalSeats attempts)
-  // Give turn to players who need to act:
-  // - When currentBet > 0: players with contribution < currentBet need to act
-  // - When currentBet === 0: ALL players need ONE turn (they can check or bet)
-  //   Problem: When currentBet === 0 and a player checks, contribution stays 0 (same as currentBet)
-  //   So "contribution < currentBet" is false (0 < 0), and they're skipped incorrectly
-  //   Solution: Track which players have acted in this betting round in state
-  //   When currentBet === 0, give turns to players who haven't acted yet in this round
-  
-  // Initialize actedPlayersInRound if not exists (for new betting rounds)
-  if (!state.actedPlayersInRound) {
-    state.actedPlayersInRound = new Set();
+}
+
+/**
+ * Apply a player's action on the table's owning instance and move the hand on.
+ * Identity has already been checked against the socket's JWT.
+ */
+async function processPlayerAction(io, { gameId, userId, action, amount, handNumber, actionSeq, socketId }) {
+  try {
+    const currentState = tableState.get(gameId);
+    if (!currentState) {
+      io.to(socketId).emit("error", { message: "No hand in progress" });
+      return;
+    }
+    if (!currentState.players.some((p) => p.userId === userId)) {
+      io.to(socketId).emit("error", { message: "You are not seated at this table" });
+      return;
+    }
+    // Actions must name the hand and step they were made against, so double
+    // clicks and clicks that lost a race with the turn timer are dropped
+    if (!isCurrentTurn(currentState, userId, { handNumber, actionSeq })) {
+      console.log(`[POKER] Rejecting stale ${action} from ${userId} in game ${gameId} (hand ${handNumber}, seq ${actionSeq}; table is at hand ${currentState.handNumber}, seq ${currentState.actionSeq})`);
+      io.to(socketId).emit("action-rejected", {
+        gameId,
+        action,
+        message: currentState.currentTurnUserId === userId ? "That action is out of date" : "It's not your turn"
+      });
+      return;
+    }
+
+    // Illegal moves (checking into a bet, raising too little...) leave the
+    // turn and its timer as they were
+    const move = { userId, action, amount: Number(amount) || 0 };
+    const problem = validateAction(currentState, move);
+    if (problem) {
+      console.log(`[POKER] Rejecting illegal ${action} ${move.amount} from ${userId} in game ${gameId}: ${problem}`);
+      io.to(socketId).emit("action-rejected", { gameId, action, message: problem });
+      return;
+    }
+
+    await runEngineStep(gameId, io, applyAction(currentState, move));
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("player-action error", err);
+    io.to(socketId).emit("error", { message: err.message || "Action failed" });
   }
-  
-  // Go through seats sequentially in clockwise order (decreasing for anticlockwise numbering)
-  // Use the variables already initialized above (lines 861-865)
-  while (attempts < totalSeats && !nextPlayer) {
-    checkedSeats.push(nextSeat);
-    
-    // Check if there's a player at this seat
-    const playerAtSeat = seatMap.get(nextSeat);
-    
-    if (playerAtSeat && playerAtSeat.userId !== state.currentTurnUserId) {
-      const contribution = state.bettingRound?.getPlayerContribution(playerAtSeat.id) || 0;
-      const hasActed = state.actedPlayersInRound.has(playerAtSeat.userId);
-      const isLastRaiser = state.lastRaiseUserId === playerAtSeat.userId;
-      
-      let needsToAct = false;
-      if (currentBet === 0) {
-        // When currentBet === 0, player needs to act if they haven't acted yet this round
-        needsToAct = !hasActed;
-        console.log(`[TURN ORDER] Checking seat ${nextSeat} (${playerAtSeat.name || playerAtSeat.userId}): currentBet=0, hasActed=${hasActed}, needsToAct=${needsToAct}`);
-      } else {
-        // When currentBet > 0, player needs to act if their contribution < currentBet
-        // (they haven't matched the bet yet)
-        needsToAct = contribution < currentBet;
-        console.log(`[TURN ORDER] Checking seat ${nextSeat} (${playerAtSeat.name || playerAtSeat.userId}): contribution=${contribution}, currentBet=${currentBet}, hasActed=${hasActed}, isLastRaiser=${isLastRaiser}, needsToAct=${needsToAct}`);
+}
+
+/**
+ * Owner-side half of join-table: deal a hand if the table is waiting for one
+ * and send the joining socket its view of the table.
+ */
+async function processJoinTable(io, { gameId, userId, socketId }) {
+  try {
+    const game = await prisma.game.findUnique({
+      where: { id: gameId },
+      include: {
+        players: {
+          include: {
+            user: true
+          }
+        },
+        tournament: true
       }
-      
-      if (needsToAct) {
-        nextPlayer = playerAtSeat;
-        console.log(`[TURN ORDER] ✓ Selected seat ${nextSeat} (${playerAtSeat.name || playerAtSeat.userId}) as next player. Checked seats in order: ${checkedSeats.join(' → ')}`);
-        break;
-      } else {
-        console.log(`[TURN ORDER] ✗ Skipped seat ${nextSeat} (${playerAtSeat.name || playerAtSeat.userId}): doesn't need to act`);
+    });
+
+    if (!game) {
+      io.to(socketId).emit("error", { message: "Game not found" });
+      return;
+    }
+
+    // Auto-start a hand if:
+    // 1. No hand state exists yet
+    // 2. Game is ACTIVE
+    // 3. Tournament is RUNNING (not just SEATED)
+    // 4. There are at least 2 players
+    let state = tableState.get(gameId);
+    if (!state && game.status === "ACTIVE" && seatedPlayers(game.players).length >= 2) {
+      // Only start hand if tournament is RUNNING
+      if (game.tournament && game.tournament.status === "RUNNING") {
+        try {
+          // Already on the table's queue, so deal directly
+          state = await startHand(gameId, io);
+        } catch (handError) {
+          console.error("[POKER] Error auto-starting hand:", handError);
+          // Continue without state if hand creation fails
+        }
       }
-    } else if (playerAtSeat && playerAtSeat.userId === state.currentTurnUserId) {
-      console.log(`[TURN ORDER] ✗ Skipped seat ${nextSeat}: this is the current player`);
     }
+
+    // Get state again in case it was just created
+    state = tableState.get(gameId);
+    io.to(socketId).emit("game-state", buildClientGameState(game, state, userId));
     
-    // Move to next seat clockwise (decreasing)
-    nextSeat = nextSeat - 1;
-    if (nextSeat < minSeat) nextSeat = maxSeat;
-    attempts++;
-  }
-  
-  if (nextPlayer) {
-    const nextContribution = state.bettingRound?.getPlayerContribution(nextPlayer.id) || 0;
-    console.log(`[POKER] Turn rotation: seat ${currentSeat} → seat ${nextPlayer.seatNumber} (${nextPlayer.name || nextPlayer.userId})`);
-    console.log(`[POKER] Next player contribution=${nextContribution}, currentBet=${currentBet}, needsToAct=${nextContribution < currentBet}`);
-    console.log(`[POKER] Checked seats in order: ${checkedSeats.join(' → ')}`);
-    state.currentTurnUserId = nextPlayer.userId;
-    startTurnTimer(gameId, state.currentTurnUserId, io);
-  } else {
-    // No player found who needs to act - betting round should be complete
-    // Set currentTurnUserId to null to signal that betting is complete
-    console.log(`[POKER] Turn rotation: No next player found from seat ${currentSeat}`);
-    console.log(`[POKER] Checked seats: ${checkedSeats.join(' → ')}`);
-    console.log(`[POKER] Current bet: ${currentBet}, All active players:`);
-    activePlayers.forEach(p => {
-      const contrib = state.bettingRound?.getPlayerContribution(p.id) || 0;
-      console.log(`[POKER]   Seat ${p.seatNumber} (${p.name || p.userId}): contribution=${contrib}, status=${p.status}`);
-    });
-    state.currentTurnUserId = null;
-    
-    // Immediately check if betting is complete and advance if needed
-    // This ensures post-flop betting rounds complete correctly
-    // Note: Only do this if no player needs to act, otherwise the action handler will check
-    const activePlayerIds = state.players
-      .filter(p => p.status !== 'FOLDED' && p.status !== 'ELIMINATED')
-      .map(p => p.id);
-    
-    const bettingComplete = state.bettingRound.isBettingComplete(
-      activePlayerIds,
-      state.lastRaiseUserId,
-      state.currentTurnUserId, // This is now null
-      state.players
-    );
-    
-    if (bettingComplete && io) {
-      // Advance to next street - don't return here, let the action handler handle it
-      // This is a fallback for when betting completes naturally (e.g., all check)
-      console.log(`[POKER] Betting complete in moveToNextPlayer, advancing street`);
-      await advanceToNextStreet(gameId, io);
-      return; // Return early to avoid emitting state here
+    // Broadcast to all players in the room if we just started a hand
+    if (state) {
+      emitGameState(io, gameId, game, state);
     }
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("join-table error", err);
+    io.to(socketId).emit("error", { message: "Failed to join table" });
   }
 }
 
+const tableEventHandlers = {
+  "join-table": processJoinTable,
+  "player-action": processPlayerAction,
+  "start-hand": (io, { gameId }) => startHand(gameId, io)
+};
+
 export function registerPokerHandlers(io) {
   // Store io instance for use by other modules
   ioInstance = io;
+
+  ownership.startRenewing(dropTable);
+  restoreTableStates(io).catch((err) => {
+    console.error("[TABLE STATE] Failed to restore table states:", err);
+  });
+
+  // Table events forwarded by other instances; only the owner acts on them
+  io.on(TABLE_EVENT, ({ event, payload }, ack) => {
+    const handled = ownership.owns(payload.gameId) && !!tableEventHandlers[event];
+    if (typeof ack === "function") ack(handled);
+    if (!handled) return;
+    runOnTable(payload.gameId, () => tableEventHandlers[event](io, payload)).catch((err) => {
+      console.error(`[TABLE OWNERSHIP] Forwarded ${event} for game ${payload.gameId} failed:`, err);
+    });
+  });
   
   io.on("connection", (socket) => {
     // eslint-disable-next-line no-console
@@ -1305,14 +1036,7 @@ export function registerPokerHandlers(io) {
       try {
         const game = await prisma.game.findUnique({
           where: { id: gameId },
-          include: {
-            players: {
-              include: {
-                user: true
-              }
-            },
-            tournament: true
-          }
+          select: { id: true, players: { select: { userId: true } } }
         });
 
         if (!game) {
@@ -1322,36 +1046,14 @@ export function registerPokerHandlers(io) {
 
         socket.join(`game:${gameId}`);
 
-        // Auto-start a hand if:
-        // 1. No hand state exists yet
-        // 2. Game is ACTIVE
-        // 3. Tournament is RUNNING (not just SEATED)
-        // 4. There are at least 2 players
-        let state = tableState.get(gameId);
-        if (!state && game.status === "ACTIVE" && game.players.length >= 2) {
-          // Only start hand if tournament is RUNNING
-          if (game.tournament && game.tournament.status === "RUNNING") {
-            try {
-              // Use the exported startHandForGame function to ensure consistency
-              state = await startHandForGame(gameId, socket.server);
-            } catch (handError) {
-              console.error("[POKER] Error auto-starting hand:", handError);
-              // Continue without state if hand creation fails
-            }
-          }
+        // Seated players also join their private seat room, which is the only
+        // place their hole cards are sent. Identity comes from the handshake JWT.
+        const viewerUserId = socket.data.userId || null;
+        if (viewerUserId && game.players.some((p) => p.userId === viewerUserId)) {
+          socket.join(seatRoom(gameId, viewerUserId));
         }
 
-        // Get state again in case it was just created
-        state = tableState.get(gameId);
-        const payload = buildClientGameState(game, state);
-
-        socket.emit("game-state", payload);
-        
-        // Broadcast to all players in the room if we just started a hand
-        // (socket.server is the io instance)
-        if (state) {
-          socket.server.to(`game:${gameId}`).emit("game-state", payload);
-        }
+        await routeTableEvent(io, "join-table", { gameId, userId: viewerUserId, socketId: socket.id });
       } catch (err) {
         // eslint-disable-next-line no-console
         console.error("join-table error", err);
@@ -1359,199 +1061,83 @@ export function registerPokerHandlers(io) {
       }
     });
 
-    socket.on("player-action", async ({ gameId, userId, action, amount }) => {
+    socket.on("player-action", async ({ gameId, userId: claimedUserId, action, amount, handNumber, actionSeq }) => {
       try {
-        // Clear turn timer for this game before processing action
-        const existingTimer = turnTimers.get(gameId);
-        if (existingTimer) {
-          clearTimeout(existingTimer.timerId);
-          if (existingTimer.graceTimerId) {
-            clearTimeout(existingTimer.graceTimerId);
-          }
-          turnTimers.delete(gameId);
+        // Act only as the authenticated user, never as whoever the payload names
+        const userId = socket.data.userId;
+        if (!userId) {
+          socket.emit("error", { message: "You must be logged in to act" });
+          return;
+        }
+        if (claimedUserId && claimedUserId !== userId) {
+          console.warn(`[POKER] Socket ${socket.id} (user ${userId}) tried to act for user ${claimedUserId} in game ${gameId}`);
+          socket.emit("error", { message: "You can only act for your own seat" });
+          return;
         }
 
-        const state = await applyPlayerAction({
+        await routeTableEvent(io, "player-action", {
           gameId,
           userId,
           action,
-          amount: Number(amount) || 0
+          amount,
+          handNumber,
+          actionSeq,
+          socketId: socket.id
         });
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error("player-action error", err);
+        socket.emit("error", { message: err.message || "Action failed" });
+      }
+    });
 
-        // Build game state from in-memory state (fast - no DB query)
-        // We need game data but can use the state we have
-        const gameFromState = {
-          id: gameId,
-          pot: state.pot,
-          players: state.players.map(p => ({
-            id: p.id,
-            userId: p.userId,
-            name: p.name,
-            chips: p.chips,
-            seatNumber: p.seatNumber,
-            status: p.status,
-            holeCards: p.holeCards,
-            avatarUrl: p.avatarUrl || p.user?.avatarUrl,
-            user: p.user
-          }))
-        };
+    // Rebuys and add-ons; the chips go on the stack before the player's next hand
+    socket.on("buy-chips", async ({ tournamentId, kind }) => {
+      try {
+        const userId = socket.data.userId;
+        if (!userId) {
+          socket.emit("error", { message: "You must be logged in to buy chips" });
+          return;
+        }
 
-        // Emit game state IMMEDIATELY after action (no DB query - use in-memory state)
-        const immediatePayload = buildClientGameState(gameFromState, state);
-        io.to(`game:${gameId}`).emit("game-state", immediatePayload);
-
-        // Check if betting round is complete
-        const activePlayerIds = state.players
-          .filter(p => p.status !== 'FOLDED' && p.status !== 'ELIMINATED')
-          .map(p => p.id);
-        
-        // Get player name for logging
-        const player = state.players.find((p) => p.userId === userId);
-        const playerName = player?.name || player?.user?.username || `Player ${player?.seatNumber || userId}`;
-        
-        console.log(`[BETTING] Checking if betting complete after ${action} by ${playerName}`);
-        console.log(`[BETTING] Active players: ${activePlayerIds.length}, lastRaiseUserId=${state.lastRaiseUserId || 'null'}, currentTurnUserId=${state.currentTurnUserId || 'null'}`);
-        activePlayerIds.forEach(id => {
-          const p = state.players.find(pl => pl.id === id);
-          const contrib = state.bettingRound?.getPlayerContribution(id) || 0;
-          console.log(`[BETTING]   Player ${p?.name || id} (seat ${p?.seatNumber}): contribution=${contrib}`);
-        });
-        
-        const bettingComplete = state.bettingRound.isBettingComplete(
-          activePlayerIds, 
-          state.lastRaiseUserId,
-          state.currentTurnUserId,
-          state.players
-        );
-        
-        console.log(`[BETTING] Betting complete? ${bettingComplete}`);
-        
-        if (bettingComplete) {
-          // Check if only 1 player remains - award pot immediately without dealing cards
-          const activePlayersAfterAction = state.players.filter(p => p.status !== 'FOLDED' && p.status !== 'ELIMINATED');
-          if (activePlayersAfterAction.length === 1) {
-            // Only one player remaining - award pot and end hand
-            const winner = activePlayersAfterAction[0];
-            const collectedPot = state.bettingRound.getTotalPot();
-            const totalPot = state.pot + collectedPot;
-            
-            winner.chips += totalPot;
-            state.pot = 0;
-            
-            console.log(`[POKER] Single player remaining - awarding pot of ${totalPot} to ${winner.name || winner.userId}`);
-            
-            // Update winner chips in database (async)
-            prisma.player.update({
-              where: { id: winner.id },
-              data: { chips: winner.chips }
-            }).catch(err => console.error('[POKER] Error updating winner chips:', err));
-            
-            // Update game pot in database (async)
-            prisma.game.update({
-              where: { id: gameId },
-              data: { pot: 0 }
-            }).catch(err => console.error('[POKER] Error updating game pot:', err));
-            
-            // Clear hand state
-            const savedPlayers = [...state.players];
-            tableState.delete(gameId);
-            
-            // Reset player statuses (async)
-            setTimeout(() => {
-              savedPlayers.forEach(p => {
-                prisma.player.update({
-                  where: { id: p.id },
-                  data: { 
-                    status: 'ACTIVE',
-                    holeCards: "",
-                    lastAction: null
-                  }
-                }).catch(err => console.error(`[POKER] Error resetting player ${p.id}:`, err));
-              });
-            }, 2000);
-            
-            // Emit updated state
-            const updatedGameFromState = {
-              id: gameId,
-              pot: 0,
-              players: state.players.map(p => ({
-                id: p.id,
-                userId: p.userId,
-                name: p.name,
-                chips: p.chips,
-                seatNumber: p.seatNumber,
-                status: p.status,
-                holeCards: p.holeCards,
-                avatarUrl: p.avatarUrl || p.user?.avatarUrl,
-                user: p.user
-              }))
-            };
-            const payload = buildClientGameState(updatedGameFromState, state);
-            io.to(`game:${gameId}`).emit("game-state", payload);
-            
-            return; // Don't advance to next street
-          }
-          
-          // Multiple players remaining - advance to next street
-          await advanceToNextStreet(gameId, io);
-          // Emit updated state immediately from in-memory state (no DB query needed)
-          const updatedState = tableState.get(gameId);
-          if (updatedState) {
-            const updatedGameFromState = {
-              id: gameId,
-              pot: updatedState.pot,
-              communityCards: updatedState.communityCards,
-              players: updatedState.players.map(p => ({
-                id: p.id,
-                userId: p.userId,
-                name: p.name,
-                chips: p.chips,
-                seatNumber: p.seatNumber,
-                status: p.status,
-                holeCards: p.holeCards,
-                avatarUrl: p.avatarUrl || p.user?.avatarUrl,
-                user: p.user
-              }))
-            };
-            const payload = buildClientGameState(updatedGameFromState, updatedState);
-            io.to(`game:${gameId}`).emit("game-state", payload);
-          }
-        } else {
-          // Move to next player in current betting round
-          await moveToNextPlayer(gameId, io);
-          // Emit updated state immediately from in-memory state (no DB query needed)
-          const updatedState = tableState.get(gameId);
-          if (updatedState) {
-            const updatedGameFromState = {
-              id: gameId,
-              pot: updatedState.pot,
-              players: updatedState.players.map(p => ({
-                id: p.id,
-                userId: p.userId,
-                name: p.name,
-                chips: p.chips,
-                seatNumber: p.seatNumber,
-                status: p.status,
-                holeCards: p.holeCards,
-                avatarUrl: p.avatarUrl || p.user?.avatarUrl,
-                user: p.user
-              }))
-            };
-            const payload = buildClientGameState(updatedGameFromState, updatedState);
-            io.to(`game:${gameId}`).emit("game-state", payload);
-          }
+        const purchase = await tournamentEngine.buyChips(tournamentId, userId, kind);
+        if (purchase.error) {
+          socket.emit("error", { message: purchase.error });
         }
       } catch (err) {
         // eslint-disable-next-line no-console
-        console.error("player-action error", err);
-        socket.emit("error", { message: err.message || "Action failed" });
+        console.error("buy-chips error", err);
+        socket.emit("error", { message: "Failed to buy chips" });
       }
     });
 
     socket.on("game_message", async ({ gameId, message }) => {
       try {
+        const userId = socket.data.userId;
+        if (!userId) {
+          socket.emit("error", { message: "You must be logged in to chat" });
+          return;
+        }
+        if (!socket.rooms.has(`game:${gameId}`)) {
+          socket.emit("error", { message: "Join the table before chatting" });
+          return;
+        }
+
+        // Sender details come from the authenticated user, not the payload
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { username: true }
+        });
+
         // Broadcast message to all players in the game
-        io.to(`game:${gameId}`).emit("game_message", { gameId, message });
+        io.to(`game:${gameId}`).emit("game_message", {
+          gameId,
+          message: {
+            ...message,
+            userId,
+            userName: user?.username || 'Unknown'
+          }
+        });
       } catch (err) {
         // eslint-disable-next-line no-console
         console.error("game_message error", err);
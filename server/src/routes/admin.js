@@ -2,11 +2,16 @@ import { Router } from "express";
 import { authenticateToken } from "../middleware/auth.js";
 import { requireAdminRole } from "../middleware/admin.js";
 import { TournamentEngine } from "../services/TournamentEngine.js";
+import { tournamentClock } from "../services/TournamentClock.js";
+import { tournamentScheduler } from "../services/TournamentScheduler.js";
+import { TournamentService, tournamentSettings } from "../services/TournamentService.js";
+import { tournamentTemplates, templatePayload } from "../services/TournamentTemplates.js";
 import { prisma } from "../config/database.js";
-import { postTournamentEmbed, getDiscordClient } from "../discord/bot.js";
+import { getDiscordClient } from "../discord/bot.js";
 
 const router = Router();
 const engine = new TournamentEngine();
+const service = new TournamentService();
 
 // Check if current user is an admin (accessible without admin role to check status)
 router.get("/check", authenticateToken, async (req, res, next) => {
@@ -121,121 +126,13 @@ router.get("/servers", async (req, res, next) => {
 // Create a new tournament
 router.post("/tournaments", async (req, res, next) => {
   try {
-    const {
-      name,
-      description,
-      startTime,
-      maxPlayers = 100,
-      seatsPerTable = 9,
-      startingChips = 10000,
-      blindLevelsJson,
-      prizePlaces = 3,
-      serverIds = [], // Array of Discord server IDs to post to
-    } = req.body;
-
-    if (!name || !startTime) {
-      return res.status(400).json({ error: "Name and startTime are required" });
-    }
-
-    // Default blind levels if not provided
-    const defaultBlindLevels = [
-      { level: 1, smallBlind: 25, bigBlind: 50, duration: 10 },
-      { level: 2, smallBlind: 50, bigBlind: 100, duration: 10 },
-      { level: 3, smallBlind: 100, bigBlind: 200, duration: 10 },
-      { level: 4, smallBlind: 150, bigBlind: 300, duration: 10 },
-      { level: 5, smallBlind: 200, bigBlind: 400, duration: 10 },
-      { level: 6, smallBlind: 250, bigBlind: 500, duration: 10, breakAfter: 5 },
-      { level: 7, smallBlind: 300, bigBlind: 600, duration: 10 },
-      { level: 8, smallBlind: 400, bigBlind: 800, duration: 10 },
-      { level: 9, smallBlind: 500, bigBlind: 1000, duration: 10 },
-      { level: 10, smallBlind: 600, bigBlind: 1200, duration: 10 },
-      { level: 11, smallBlind: 750, bigBlind: 1500, duration: 10 },
-      { level: 12, smallBlind: 1000, bigBlind: 2000, duration: 10, breakAfter: 5 },
-      { level: 13, smallBlind: 1250, bigBlind: 2500, duration: 10 },
-      { level: 14, smallBlind: 1500, bigBlind: 3000, duration: 10 },
-      { level: 15, smallBlind: 2000, bigBlind: 4000, duration: 10 },
-      { level: 16, smallBlind: 2500, bigBlind: 5000, duration: 10 },
-      { level: 17, smallBlind: 3000, bigBlind: 6000, duration: 10 },
-      { level: 18, smallBlind: 4000, bigBlind: 8000, duration: 10, breakAfter: 5 },
-      { level: 19, smallBlind: 5000, bigBlind: 10000, duration: null }, // Infinite
-    ];
-
-    const blindLevels = blindLevelsJson
-      ? typeof blindLevelsJson === "string"
-        ? JSON.parse(blindLevelsJson)
-        : blindLevelsJson
-      : defaultBlindLevels;
-
-    const tournament = await prisma.tournament.create({
-      data: {
-        name,
-        description,
-        startTime: new Date(startTime),
-        maxPlayers,
-        seatsPerTable,
-        startingChips,
-        blindLevelsJson: JSON.stringify(blindLevels),
-        prizePlaces,
-        createdById: req.userId, // From JWT auth middleware
-      },
-      include: {
-        createdBy: {
-          select: {
-            id: true,
-            username: true,
-            avatarUrl: true,
-          },
-        },
-      },
+    const { serverIds = [], ...settings } = req.body; // serverIds: Discord servers to post to
+    const { tournament, error } = await service.createTournament(settings, {
+      createdById: req.userId, // From JWT auth middleware
+      serverIds,
     });
-
-    // Create TournamentPost entries immediately for selected servers (even if posting fails)
-    if (serverIds && serverIds.length > 0) {
-      try {
-        // Find Discord servers by serverId
-        const discordServers = await prisma.discordServer.findMany({
-          where: {
-            serverId: { in: serverIds },
-            enabled: true,
-            setupCompleted: true,
-          },
-        });
-
-        // Create post entries for each server (messageId will be null until post succeeds)
-        await Promise.all(
-          discordServers.map((server) =>
-            prisma.tournamentPost.upsert({
-              where: {
-                tournamentId_serverId: {
-                  tournamentId: tournament.id,
-                  serverId: server.id,
-                },
-              },
-              update: {}, // No update needed if exists
-              create: {
-                tournamentId: tournament.id,
-                serverId: server.id,
-                messageId: null, // Will be set when embed is successfully posted
-                postedAt: null,
-              },
-            })
-          )
-        );
-
-        console.log(`[ADMIN] Created TournamentPost entries for ${discordServers.length} server(s)`);
-      } catch (error) {
-        console.error("[ADMIN] Error creating tournament post entries:", error);
-        // Continue even if post creation fails
-      }
-
-      // Now attempt to post tournament embed to Discord
-      try {
-        await postTournamentEmbed(tournament, serverIds);
-      } catch (error) {
-        console.error("[ADMIN] Error posting tournament embed:", error);
-        // Don't fail the tournament creation if embed posting fails
-        // Posts are already created, so servers will still show
-      }
+    if (error) {
+      return res.status(400).json({ error });
     }
 
     // Fetch tournament with posts to include in response
@@ -294,20 +191,83 @@ router.post("/tournaments/:id/advance-blinds", async (req, res, next) => {
   }
 });
 
+// Tournament clock: pause, resume, or jump to the next level
+const clockActions = {
+  pause: (id) => tournamentClock.pause(id),
+  resume: (id) => tournamentClock.resume(id),
+  "skip-level": (id) => tournamentClock.skipLevel(id)
+};
+
+router.post("/tournaments/:id/clock/:action", async (req, res, next) => {
+  try {
+    const { id, action } = req.params;
+    if (!clockActions[action]) {
+      return res.status(404).json({ error: `Unknown clock action: ${action}` });
+    }
+
+    const clock = await clockActions[action](id);
+    if (!clock) {
+      return res.status(400).json({ error: "Tournament is not running" });
+    }
+    res.json(clock);
+  } catch (err) {
+    next(err);
+  }
+});
+
 router.post("/tournaments/:id/end", async (req, res, next) => {
   try {
     const { id } = req.params;
-    await engine.advanceBlindLevel(id); // optional last blind bump
-    await prisma.tournament.update({
+
+    const tournament = await prisma.tournament.findUnique({
       where: { id },
-      data: { status: "COMPLETED" }
     });
+
+    if (!tournament) {
+      return res.status(404).json({ error: "Tournament not found" });
+    }
+
+    if (tournament.status === "COMPLETED" || tournament.status === "CANCELLED") {
+      return res.status(400).json({ error: "Tournament is already completed or cancelled" });
+    }
+
+    // Players still in are placed by chip count
+    await engine.completeTournament(id);
     res.json({ tournamentId: id, status: "COMPLETED" });
   } catch (err) {
     next(err);
   }
 });
 
+// Final table deals: show everyone the ICM and chip-chop numbers, then
+// record the deal the players agree to
+router.post("/tournaments/:id/deal/propose", async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const proposal = await engine.proposeDeal(id);
+    if (!proposal) {
+      return res.status(400).json({ error: "Tournament is not running" });
+    }
+    res.json(proposal);
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post("/tournaments/:id/deal", async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { method, amounts = null } = req.body;
+    const { deal, error } = await engine.recordDeal(id, method, amounts);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    res.json({ tournamentId: id, deal });
+  } catch (err) {
+    next(err);
+  }
+});
+
 // Cancel tournament
 router.patch("/tournaments/:id/cancel", async (req, res, next) => {
   try {
@@ -330,6 +290,8 @@ router.patch("/tournaments/:id/cancel", async (req, res, next) => {
       where: { id },
       data: { status: "CANCELLED" },
     });
+    tournamentClock.stop(id);
+    await tournamentScheduler.cancelJobs({ tournamentId: id });
 
     res.json({ tournamentId: id, status: "CANCELLED" });
   } catch (err) {
@@ -358,7 +320,16 @@ router.delete("/tournaments/:id", async (req, res, next) => {
       where: { tournamentId: id },
       include: { players: true },
     });
-    
+
+    // Hand histories point at both games and players, so they go first
+    const gameIds = games.map((game) => game.id);
+    await prisma.handAction.deleteMany({
+      where: { hand: { gameId: { in: gameIds } } },
+    });
+    await prisma.hand.deleteMany({
+      where: { gameId: { in: gameIds } },
+    });
+
     for (const game of games) {
       // Delete players in each game
       await prisma.player.deleteMany({
@@ -381,7 +352,12 @@ router.delete("/tournaments/:id", async (req, res, next) => {
       where: { tournamentId: id },
     });
     
-    // 5. Finally, delete the tournament itself
+    // 5. Delete results
+    await prisma.tournamentResult.deleteMany({
+      where: { tournamentId: id },
+    });
+    
+    // 6. Finally, delete the tournament itself
     await prisma.tournament.delete({
       where: { id },
     });
@@ -405,24 +381,95 @@ router.get("/tournaments/:id/duplicate", async (req, res, next) => {
       return res.status(404).json({ error: "Tournament not found" });
     }
 
-    // Parse blind levels
-    let blindLevels = [];
-    try {
-      blindLevels = JSON.parse(tournament.blindLevelsJson || '[]');
-    } catch (e) {
-      blindLevels = [];
-    }
-
     // Return tournament data for pre-filling form
+    const { blindLevelsJson, ...settings } = tournamentSettings(tournament);
     res.json({
       name: `${tournament.name} (Copy)`,
       description: tournament.description || '',
-      maxPlayers: tournament.maxPlayers,
-      seatsPerTable: tournament.seatsPerTable,
-      startingChips: tournament.startingChips,
-      prizePlaces: tournament.prizePlaces,
-      blindLevels: blindLevels,
+      ...settings,
+      blindLevels: blindLevelsJson,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Tournament templates: saved settings to create tournaments from, by hand
+// or on a weekly schedule (see TournamentTemplates)
+router.get("/templates", async (req, res, next) => {
+  try {
+    const templates = await prisma.tournamentTemplate.findMany({
+      orderBy: { name: "asc" },
+      include: {
+        _count: { select: { tournaments: true } },
+      },
+    });
+    res.json(templates.map(templatePayload));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post("/templates", async (req, res, next) => {
+  try {
+    const { template, error } = await tournamentTemplates.create(req.body, req.userId);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    res.status(201).json(templatePayload(template));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.patch("/templates/:id", async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { template, error } = await tournamentTemplates.update(id, req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    if (!template) {
+      return res.status(404).json({ error: "Template not found" });
+    }
+    res.json(templatePayload(template));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.delete("/templates/:id", async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const deleted = await tournamentTemplates.remove(id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Template not found" });
+    }
+    res.json({ templateId: id, deleted: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Create one tournament from a template now, starting at `startTime`
+router.post("/templates/:id/tournaments", async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { startTime } = req.body;
+
+    const template = await prisma.tournamentTemplate.findUnique({
+      where: { id },
     });
+
+    if (!template) {
+      return res.status(404).json({ error: "Template not found" });
+    }
+
+    const { tournament, error } = await tournamentTemplates.createTournament(template, startTime);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    res.status(201).json(tournament);
   } catch (err) {
     next(err);
   }
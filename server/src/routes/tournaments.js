@@ -1,11 +1,13 @@
 import { Router } from "express";
 import { TournamentService } from "../services/TournamentService.js";
+import { TournamentEngine } from "../services/TournamentEngine.js";
 import { authenticateToken } from "../middleware/auth.js";
 import { getDiscordClient } from "../discord/bot.js";
 import { prisma } from "../config/database.js";
 
 const router = Router();
 const service = new TournamentService();
+const engine = new TournamentEngine();
 
 router.get("/", async (req, res, next) => {
   try {
@@ -33,18 +35,16 @@ router.get("/:id", async (req, res, next) => {
   }
 });
 
-router.post("/:id/register", async (req, res, next) => {
+// Register (or late-register / re-enter) the logged-in player
+router.post("/:id/register", authenticateToken, async (req, res, next) => {
   try {
-    // TODO: get userId from auth middleware/session
-    const userId = req.user?.id || req.body.userId;
-    if (!userId) {
-      return res.status(401).json({ error: "User not authenticated" });
-    }
-
     const registration = await service.registerForTournament({
       tournamentId: req.params.id,
-      userId
+      userId: req.userId
     });
+    if (registration.error) {
+      return res.status(400).json({ error: registration.error });
+    }
 
     res.json(registration);
   } catch (err) {
@@ -52,6 +52,19 @@ router.post("/:id/register", async (req, res, next) => {
   }
 });
 
+// Rebuy or add-on for the logged-in player (kind: REBUY or ADD_ON)
+router.post("/:id/buy-chips", authenticateToken, async (req, res, next) => {
+  try {
+    const purchase = await engine.buyChips(req.params.id, req.userId, req.body.kind);
+    if (purchase.error) {
+      return res.status(400).json({ error: purchase.error });
+    }
+    res.json(purchase);
+  } catch (err) {
+    next(err);
+  }
+});
+
 // Check Discord server membership for tournaments
 router.get("/:id/server-membership", authenticateToken, async (req, res, next) => {
   try {
@@ -125,7 +138,7 @@ router.get("/:id/my-table", authenticateToken, async (req, res, next) => {
     const { id } = req.params;
     const userId = req.userId;
 
-    // Find player in tournament games
+    // Find player in tournament games (their latest entry, after a re-entry)
     const player = await prisma.player.findFirst({
       where: {
         userId: userId,
@@ -133,6 +146,7 @@ router.get("/:id/my-table", authenticateToken, async (req, res, next) => {
           tournamentId: id,
         },
       },
+      orderBy: { entryNumber: "desc" },
       include: {
         game: {
           include: {
@@ -162,5 +176,18 @@ router.get("/:id/my-table", authenticateToken, async (req, res, next) => {
   }
 });
 
+// What a deal would pay the players still in (and the deal, once made)
+router.get("/:id/deal", async (req, res, next) => {
+  try {
+    const proposal = await engine.dealProposal(req.params.id);
+    if (!proposal) {
+      return res.status(400).json({ error: "Tournament is not running" });
+    }
+    res.json(proposal);
+  } catch (err) {
+    next(err);
+  }
+});
+
 export default router;
 
@@ -0,0 +1,103 @@
+// @ts-check
+// Deal math for final tables: what each remaining player's stack is worth
+// in prize money, given the prizes still to be paid (first place first).
+
+export const DEAL_METHODS = ["ICM", "CHIP_CHOP", "CUSTOM"];
+
+// The ICM recursion looks at every subset of players
+export const MAX_ICM_PLAYERS = 12;
+
+/**
+ * The deal a tournament's final players agreed, `{ method, agreedAt,
+ * players: [{ userId, username, chips, amount }] }`, or null.
+ * @param {{ id: string, dealJson?: string | null }} tournament
+ */
+export function parseDeal(tournament) {
+  try {
+    return tournament.dealJson ? JSON.parse(tournament.dealJson) : null;
+  } catch (e) {
+    console.error(`[DEALS] Failed to parse deal for tournament ${tournament.id}:`, e);
+    return null;
+  }
+}
+
+/**
+ * Round `values` to whole amounts that add up to exactly `total`: round
+ * everything down, then hand the rest out one at a time to the biggest
+ * fractions (earliest first on a tie).
+ * @param {number[]} values
+ * @param {number} total
+ */
+function roundToTotal(values, total) {
+  const floors = values.map((v) => Math.floor(v));
+  let rest = total - floors.reduce((sum, v) => sum + v, 0);
+  const order = values
+    .map((v, i) => ({ i, fraction: v - floors[i] }))
+    .sort((a, b) => b.fraction - a.fraction || a.i - b.i);
+  for (let k = 0; rest > 0 && order.length > 0; k = (k + 1) % order.length, rest--) {
+    floors[order[k].i] += 1;
+  }
+  return floors;
+}
+
+/**
+ * Independent Chip Model (Malmuth-Harville): a player finishes first with
+ * probability stack / chips in play, and each later place is shared out
+ * the same way among whoever is left.
+ * @param {number[]} stacks
+ * @param {number[]} prizes - prize for 1st, 2nd, ... (places past the end pay nothing)
+ * @returns {number[]} each player's equity, in whole amounts adding up to the prizes
+ */
+export function icmEquities(stacks, prizes) {
+  const n = stacks.length;
+  if (n > MAX_ICM_PLAYERS) {
+    throw new Error(`ICM is only worked out for ${MAX_ICM_PLAYERS} players or fewer`);
+  }
+
+  /** @type {Map<number, number[]>} */
+  const memo = new Map();
+  // Equity of each player in `mask` from the places still to be decided
+  /** @type {(mask: number) => number[]} */
+  const solve = (mask) => {
+    const known = memo.get(mask);
+    if (known) return known;
+
+    const inPlay = [];
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) inPlay.push(i);
+    }
+    const place = n - inPlay.length;
+    const equity = new Array(n).fill(0);
+    if (place < prizes.length && inPlay.length > 0) {
+      const chips = inPlay.reduce((sum, i) => sum + stacks[i], 0);
+      for (const i of inPlay) {
+        const p = chips > 0 ? stacks[i] / chips : 1 / inPlay.length;
+        if (p === 0) continue;
+        equity[i] += p * prizes[place];
+        const rest = solve(mask & ~(1 << i));
+        for (const j of inPlay) {
+          equity[j] += p * rest[j];
+        }
+      }
+    }
+
+    memo.set(mask, equity);
+    return equity;
+  };
+
+  const total = prizes.slice(0, n).reduce((sum, p) => sum + p, 0);
+  return roundToTotal(solve((1 << n) - 1), total);
+}
+
+/**
+ * Chip chop: the prize money left is split in proportion to chips.
+ * @param {number[]} stacks
+ * @param {number[]} prizes - prize for 1st, 2nd, ...
+ * @returns {number[]} each player's share, in whole amounts adding up to the prizes
+ */
+export function chipChopEquities(stacks, prizes) {
+  const total = prizes.slice(0, stacks.length).reduce((sum, p) => sum + p, 0);
+  const chips = stacks.reduce((sum, s) => sum + s, 0);
+  const shares = stacks.map((s) => (chips > 0 ? (total * s) / chips : total / stacks.length));
+  return roundToTotal(shares, total);
+}
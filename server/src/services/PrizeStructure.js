@@ -0,0 +1,206 @@
+// @ts-check
+// Prize payouts. A tournament pays its top `prizePlaces` finishers (never
+// more places than it had entrants), either as percentages of the prize
+// pool (`prizePool` plus what rebuys and add-ons paid in) or as fixed
+// prizes. With no structure of its own it pays the standard percentages,
+// and its field decides how many places those cover: `prizePlaces` at
+// most, fewer for a small field (see placesPaidForField).
+
+/**
+ * The tournament fields prizes are worked out from.
+ * @typedef {object} PrizeSettings
+ * @property {string} [id]
+ * @property {number} prizePlaces
+ * @property {number | null} [prizePool]
+ * @property {number | null} [rebuyCost]
+ * @property {number | null} [addOnCost]
+ * @property {string | null} [payoutsJson] - see parsePayoutStructure
+ */
+
+/** @typedef {{ type: "PERCENT" | "FIXED", amounts: number[] }} PayoutStructure */
+/** @typedef {{ place: number, percent: number | null, amount: number }} Payout */
+/** @typedef {{ rebuys?: number, addOns?: number }} Purchases */
+
+export const PAYOUT_TYPES = ["PERCENT", "FIXED"];
+
+// Percent of the pool per place, by number of places paid
+/** @type {Record<number, number[]>} */
+export const STANDARD_PAYOUTS = {
+  1: [100],
+  2: [65, 35],
+  3: [50, 30, 20],
+  4: [40, 30, 20, 10],
+  5: [38, 25, 17, 12, 8],
+  6: [35, 22, 15, 11, 9, 8],
+  7: [33, 21, 14, 10, 8, 7, 7],
+  8: [30, 20, 14, 10, 8, 7, 6, 5],
+  9: [29, 19, 13, 10, 8, 7, 6, 4, 4],
+  10: [28, 18, 12, 9, 7, 6, 5, 5, 5, 5]
+};
+
+// Places the standard payouts cover, by field size: [most entrants, places].
+// Bigger fields pay 15% of the field, rounded up.
+const FIELD_PLACES_PAID = [
+  [3, 1],
+  [6, 2],
+  [10, 3],
+  [18, 4],
+  [27, 5]
+];
+
+/**
+ * How many places the standard payouts cover for a field of `entrants`.
+ * @param {number} entrants
+ */
+export function placesPaidForField(entrants) {
+  if (entrants <= 0) return 0;
+  const bracket = FIELD_PLACES_PAID.find(([most]) => entrants <= most);
+  return bracket ? bracket[1] : Math.ceil(entrants * 0.15);
+}
+
+/**
+ * Standard percentages for `places` paid places. Past the templates, each
+ * place is weighted 1/(place + 1), to two decimals; first place takes the
+ * rounding.
+ * @param {number} places
+ * @returns {number[]}
+ */
+export function standardPercentages(places) {
+  if (places <= 0) return [];
+  if (STANDARD_PAYOUTS[places]) return STANDARD_PAYOUTS[places];
+
+  const weights = Array.from({ length: places }, (_, i) => 1 / (i + 2));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const percents = weights.map((w) => Math.floor((w / total) * 10000) / 100);
+  const rest = 100 - percents.reduce((sum, p) => sum + p, 0);
+  percents[0] = Math.round((percents[0] + rest) * 100) / 100;
+  return percents;
+}
+
+/**
+ * The tournament's own payout structure, `{ type, amounts }` with one
+ * amount per place from first, or null for the standard one.
+ * @param {PrizeSettings} tournament
+ * @returns {PayoutStructure | null}
+ */
+export function parsePayoutStructure(tournament) {
+  try {
+    return tournament.payoutsJson ? JSON.parse(tournament.payoutsJson) : null;
+  } catch (e) {
+    console.error(`[PRIZES] Failed to parse payouts for tournament ${tournament.id}:`, e);
+    return null;
+  }
+}
+
+/**
+ * Check a payout structure sent by an admin.
+ * @param {any} structure
+ * @param {number} prizePlaces
+ * @returns {string|null} what's wrong with it, or null if it's usable
+ */
+export function validatePayoutStructure(structure, prizePlaces) {
+  if (structure == null) return null;
+  if (!PAYOUT_TYPES.includes(structure.type)) {
+    return `Payout type must be one of ${PAYOUT_TYPES.join(", ")}`;
+  }
+
+  const { amounts } = structure;
+  if (!Array.isArray(amounts) || amounts.length !== prizePlaces) {
+    return `Payouts need one amount for each of the ${prizePlaces} prize places`;
+  }
+  if (amounts.some((a) => typeof a !== "number" || !Number.isFinite(a) || a < 0)) {
+    return "Payout amounts must be numbers of zero or more";
+  }
+  if (amounts.some((a, i) => i > 0 && a > amounts[i - 1])) {
+    return "A place can't pay more than the place above it";
+  }
+  if (structure.type === "PERCENT" && Math.abs(amounts.reduce((sum, a) => sum + a, 0) - 100) > 0.01) {
+    return "Payout percentages must add up to 100";
+  }
+  return null;
+}
+
+/**
+ * The prize pool with every rebuy and add-on taken so far paid in.
+ * @param {PrizeSettings} tournament
+ * @param {Purchases} purchases - how many were taken
+ */
+export function totalPrizePool(tournament, purchases = {}) {
+  const { rebuys = 0, addOns = 0 } = purchases;
+  return (tournament.prizePool || 0) +
+    rebuys * (tournament.rebuyCost || 0) +
+    addOns * (tournament.addOnCost || 0);
+}
+
+/**
+ * What each place pays for a field of `entrants`, best place first:
+ * `[{ place, percent, amount }]` (`percent` is null for fixed prizes).
+ * Percentages of the pool round down; first place takes what's left over.
+ * @param {PrizeSettings} tournament
+ * @param {number|null} entrants - null before anyone's seated: the payouts as planned, for `prizePlaces`
+ * @param {Purchases} purchases - see totalPrizePool
+ * @returns {Payout[]}
+ */
+export function calculatePayouts(tournament, entrants = null, purchases = {}) {
+  const structure = parsePayoutStructure(tournament);
+  const places = entrants == null
+    ? tournament.prizePlaces
+    : Math.min(tournament.prizePlaces, structure ? entrants : placesPaidForField(entrants));
+  if (places <= 0) return [];
+
+  if (structure?.type === "FIXED") {
+    return structure.amounts.slice(0, places).map((amount, i) => ({ place: i + 1, percent: null, amount }));
+  }
+
+  // Custom percentages for fewer places than planned are scaled back up to 100
+  const template = structure?.type === "PERCENT"
+    ? structure.amounts.slice(0, places)
+    : standardPercentages(places);
+  const templateTotal = template.reduce((sum, p) => sum + p, 0) || 100;
+  const percents = template.map((p) => (p * 100) / templateTotal);
+
+  const pool = totalPrizePool(tournament, purchases);
+  const payouts = percents.map((percent, i) => ({
+    place: i + 1,
+    percent: Math.round(percent * 100) / 100,
+    amount: Math.floor((pool * percent) / 100)
+  }));
+  payouts[0].amount += pool - payouts.reduce((sum, p) => sum + p.amount, 0);
+  return payouts;
+}
+
+// 1 -> "1st", 2 -> "2nd", 11 -> "11th", 22 -> "22nd"
+/** @param {number} place */
+export function formatPlace(place) {
+  const tens = place % 100;
+  if (tens >= 11 && tens <= 13) return `${place}th`;
+  return `${place}${["th", "st", "nd", "rd"][place % 10] || "th"}`;
+}
+
+/**
+ * Prize for each finisher. Players sharing a place split the prizes for
+ * the places they cover (two tied for 3rd share 3rd and 4th), the odd chip
+ * going to whoever is listed first.
+ * @param {Array<{ id: string, place: number }>} results
+ * @param {Array<{ place: number, amount: number }>} payouts
+ * @returns {Map<string, number>} result id -> prize
+ */
+export function prizesForResults(results, payouts) {
+  /** @type {Map<number, Array<{ id: string, place: number }>>} */
+  const byPlace = new Map();
+  for (const result of results) {
+    byPlace.set(result.place, [...(byPlace.get(result.place) || []), result]);
+  }
+
+  const prizes = new Map();
+  for (const [place, tied] of byPlace) {
+    const shared = payouts
+      .filter((p) => p.place >= place && p.place < place + tied.length)
+      .reduce((sum, p) => sum + p.amount, 0);
+    const each = Math.floor(shared / tied.length);
+    tied.forEach((result, i) => {
+      prizes.set(result.id, each + (i < shared - each * tied.length ? 1 : 0));
+    });
+  }
+  return prizes;
+}
@@ -0,0 +1,121 @@
+import os from "os";
+import crypto from "crypto";
+import { redisClient, isRedisConfigured } from "../config/redis.js";
+
+const KEY_PREFIX = "poker:table-owner:";
+
+// Lease length and how often we renew. An instance that dies loses its
+// tables at most LEASE_MS after its last renewal.
+const LEASE_MS = 15000;
+const RENEW_INTERVAL_MS = 5000;
+
+// Extend the lease if we still hold it, or take it back if it lapsed and
+// nobody else has claimed it in the meantime
+const RENEW_SCRIPT = `
+local owner = redis.call("get", KEYS[1])
+if owner == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+elseif not owner then
+  redis.call("set", KEYS[1], ARGV[1], "PX", ARGV[2])
+  return 1
+else
+  return 0
+end`;
+
+/**
+ * TableOwnership: lease-based ownership of poker tables across server
+ * instances. Exactly one instance holds a table's lease and runs its hand
+ * (state, timers, actions); the others forward to it.
+ *
+ * Without Redis configured there is only one instance, so it owns
+ * everything. With Redis configured but not reachable (starting up, or an
+ * outage) nobody can tell who holds a lease, so this instance owns nothing
+ * until it can: two instances running one table would split its state.
+ */
+export class TableOwnership {
+  constructor(client = redisClient, distributed = isRedisConfigured) {
+    this.client = client;
+    this.distributed = distributed;
+    this.instanceId =
+      process.env.FLY_MACHINE_ID ||
+      `${os.hostname()}-${process.pid}-${crypto.randomBytes(4).toString("hex")}`;
+    this.ownedTables = new Set();
+    this.renewTimer = null;
+    this.onLost = null;
+  }
+
+  isDistributed() {
+    return this.distributed;
+  }
+
+  /**
+   * True if this instance holds the table's lease (as far as we last knew).
+   */
+  owns(gameId) {
+    if (!this.isDistributed()) return true;
+    return this.client.isReady && this.ownedTables.has(gameId);
+  }
+
+  /**
+   * Take the table's lease if nobody holds it (or we already do).
+   * @returns {Promise<boolean>} whether this instance now owns the table
+   */
+  async claim(gameId) {
+    if (!this.isDistributed()) return true;
+    if (!this.client.isReady) {
+      console.warn(`[TABLE OWNERSHIP] Redis not ready, can't claim game ${gameId}`);
+      return false;
+    }
+
+    const key = KEY_PREFIX + gameId;
+    const acquired = await this.client.set(key, this.instanceId, { NX: true, PX: LEASE_MS });
+    if (acquired === "OK") {
+      console.log(`[TABLE OWNERSHIP] ${this.instanceId} acquired game ${gameId}`);
+      this.ownedTables.add(gameId);
+      return true;
+    }
+
+    const owner = await this.client.get(key);
+    if (owner === this.instanceId) {
+      this.ownedTables.add(gameId);
+      return true;
+    }
+
+    this.ownedTables.delete(gameId);
+    return false;
+  }
+
+  /**
+   * Keep our leases alive. `onLost(gameId)` is called for any table whose
+   * lease was taken over (e.g. after this instance stalled past LEASE_MS).
+   */
+  startRenewing(onLost) {
+    this.onLost = onLost;
+    if (this.renewTimer) return;
+
+    this.renewTimer = setInterval(() => {
+      this.renewAll().catch((err) => {
+        console.error("[TABLE OWNERSHIP] Lease renewal failed:", err);
+      });
+    }, RENEW_INTERVAL_MS);
+  }
+
+  async renewAll() {
+    if (!this.isDistributed() || !this.client.isReady) return;
+
+    for (const gameId of [...this.ownedTables]) {
+      const renewed = await this.client.eval(RENEW_SCRIPT, {
+        keys: [KEY_PREFIX + gameId],
+        arguments: [this.instanceId, String(LEASE_MS)]
+      });
+
+      if (!renewed) {
+        console.warn(`[TABLE OWNERSHIP] ${this.instanceId} lost the lease on game ${gameId}`);
+        this.ownedTables.delete(gameId);
+        if (this.onLost) this.onLost(gameId);
+      }
+    }
+  }
+}
+
+export { RENEW_INTERVAL_MS };
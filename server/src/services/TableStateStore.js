@@ -0,0 +1,130 @@
+import { redisClient } from "../config/redis.js";
+import { BettingRound } from "../modules/poker/BettingRound.js";
+
+const KEY_PREFIX = "poker:table:";
+const INDEX_KEY = "poker:tables";
+
+// Snapshots outlive a hand by a wide margin, but shouldn't linger forever if a
+// table is abandoned without its hand being cleared
+const SNAPSHOT_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * TableStateStore: persists live hand state (deck, street, bets, acted set,
+ * turn and turn-timer deadline) to Redis so a restarted server can pick up
+ * hands where they stopped.
+ *
+ * Writes for a table are chained so a late save can never land after the
+ * snapshot has been removed.
+ */
+export class TableStateStore {
+  constructor(client = redisClient) {
+    this.client = client;
+    this.pending = new Map(); // gameId -> promise of the last queued write
+  }
+
+  isAvailable() {
+    return this.client.isReady;
+  }
+
+  /**
+   * Wait for the Redis connection (it's opened in the background at import).
+   * @returns {Promise<boolean>} false if it didn't come up in time
+   */
+  whenReady(timeoutMs = 5000) {
+    if (this.isAvailable()) return Promise.resolve(true);
+    return new Promise((resolve) => {
+      const onReady = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.client.off('ready', onReady);
+        resolve(false);
+      }, timeoutMs);
+      this.client.once('ready', onReady);
+    });
+  }
+
+  /**
+   * Snapshot a table's hand state.
+   * @param {string} gameId
+   * @param {object} state - Live hand state from the poker handler
+   * @param {{ userId: string, expiresAt: number } | null} turnTimer - Current turn deadline, if any
+   */
+  save(gameId, state, turnTimer = null) {
+    const payload = JSON.stringify(serializeState(state, turnTimer));
+    return this.enqueue(gameId, async () => {
+      await this.client.set(KEY_PREFIX + gameId, payload, { EX: SNAPSHOT_TTL_SECONDS });
+      await this.client.sAdd(INDEX_KEY, gameId);
+    });
+  }
+
+  remove(gameId) {
+    return this.enqueue(gameId, async () => {
+      await this.client.del(KEY_PREFIX + gameId);
+      await this.client.sRem(INDEX_KEY, gameId);
+    });
+  }
+
+  /**
+   * IDs of every table with a persisted hand.
+   * @returns {Promise<string[]>}
+   */
+  async listGameIds() {
+    if (!this.isAvailable()) return [];
+    return this.client.sMembers(INDEX_KEY);
+  }
+
+  /**
+   * Load one persisted table.
+   * @returns {Promise<{ state: object, turnTimer: object | null } | null>}
+   */
+  async load(gameId) {
+    if (!this.isAvailable()) return null;
+
+    const raw = await this.client.get(KEY_PREFIX + gameId);
+    if (!raw) {
+      // Snapshot expired; drop it from the index
+      await this.client.sRem(INDEX_KEY, gameId);
+      return null;
+    }
+
+    try {
+      const { turnTimer, ...state } = JSON.parse(raw);
+      return { state: deserializeState(state), turnTimer: turnTimer || null };
+    } catch (err) {
+      console.error(`[TABLE STATE] Failed to parse snapshot for game ${gameId}:`, err);
+      return null;
+    }
+  }
+
+  enqueue(gameId, write) {
+    const previous = this.pending.get(gameId) || Promise.resolve();
+    const next = previous
+      .then(() => (this.isAvailable() ? write() : undefined))
+      .catch((err) => console.error(`[TABLE STATE] Redis write failed for game ${gameId}:`, err));
+
+    this.pending.set(gameId, next);
+    next.then(() => {
+      if (this.pending.get(gameId) === next) this.pending.delete(gameId);
+    });
+    return next;
+  }
+}
+
+function serializeState(state, turnTimer) {
+  return {
+    ...state,
+    bettingRound: state.bettingRound ? state.bettingRound.toJSON() : null,
+    actedPlayersInRound: state.actedPlayersInRound ? [...state.actedPlayersInRound] : [],
+    turnTimer: turnTimer ? { userId: turnTimer.userId, expiresAt: turnTimer.expiresAt } : null
+  };
+}
+
+function deserializeState(data) {
+  return {
+    ...data,
+    bettingRound: data.bettingRound ? BettingRound.fromJSON(data.bettingRound) : null,
+    actedPlayersInRound: new Set(data.actedPlayersInRound || [])
+  };
+}
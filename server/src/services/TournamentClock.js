@@ -0,0 +1,451 @@
+import { prisma } from "../config/database.js";
+
+// Longest we sleep between looks at a running clock, so a pause or skip
+// made on another instance is picked up here too
+const POLL_MS = 60000;
+
+export function parseBlindLevels(tournament) {
+  try {
+    return tournament.blindLevelsJson ? JSON.parse(tournament.blindLevelsJson) : [];
+  } catch (e) {
+    console.error(`[TOURNAMENT CLOCK] Failed to parse blind levels for tournament ${tournament.id}:`, e);
+    return [];
+  }
+}
+
+/**
+ * No new hands are dealt while the clock is paused or the tables are on a
+ * break; hands already running are played out.
+ */
+export function isPlayHalted(tournament) {
+  return !!tournament && (tournament.clockOnBreak || !!tournament.clockPausedAt);
+}
+
+/**
+ * Late registration (and re-entry) runs from seating through the first
+ * `lateRegLevels` levels, including the break after the last of them.
+ */
+export function isLateRegistrationOpen(tournament) {
+  if (!tournament.lateRegLevels) return false;
+  if (tournament.status === "SEATED") return true;
+  return tournament.status === "RUNNING" && tournament.clockLevel < tournament.lateRegLevels;
+}
+
+/**
+ * Rebuys run the same way: from seating through the first `rebuyLevels`
+ * levels and the break after the last of them.
+ */
+export function isRebuyOpen(tournament) {
+  if (!tournament.rebuyLevels) return false;
+  if (tournament.status === "SEATED") return true;
+  return tournament.status === "RUNNING" && tournament.clockLevel < tournament.rebuyLevels;
+}
+
+/**
+ * The add-on is on offer for the length of the tournament's first break.
+ */
+export function isAddOnOpen(tournament) {
+  if (!tournament.addOnChips || tournament.status !== "RUNNING" || !tournament.clockOnBreak) return false;
+  const firstBreak = parseBlindLevels(tournament).findIndex((level) => level.breakAfter);
+  return tournament.clockLevel === firstBreak;
+}
+
+/**
+ * Why an entry still in the tournament can't buy chips right now, or null
+ * if it can. Checked when chips are bought, and sent with the tournament so
+ * clients only offer what would be allowed.
+ * @param {"REBUY"|"ADD_ON"} kind
+ */
+export function purchaseError(tournament, player, kind) {
+  if (kind === "REBUY") {
+    if (!isRebuyOpen(tournament)) return "Rebuys are closed";
+    if (tournament.maxRebuys !== null && player.rebuys >= tournament.maxRebuys) {
+      return `You have used all ${tournament.maxRebuys} rebuys`;
+    }
+    // Mid-hand, chips in the pot still count: an all-in big stack has none
+    // left behind but isn't short
+    const maxStack = tournament.rebuyMaxStack ?? tournament.startingChips;
+    const stack = player.handStartChips ?? player.chips;
+    if (stack + player.pendingChips > maxStack) {
+      return `Rebuys are only for stacks of ${maxStack.toLocaleString()} or less`;
+    }
+    return null;
+  }
+  if (kind === "ADD_ON") {
+    if (!isAddOnOpen(tournament)) return "The add-on is only available on the first break";
+    if (player.addOn) return "You have already taken the add-on";
+    return null;
+  }
+  return "Purchase must be a REBUY or an ADD_ON";
+}
+
+/**
+ * Tell each entry still in (at `gameId`, or at every table) what it can
+ * buy now, on its own seat room. Sent when stacks, the level or the break
+ * change, so clients don't refetch the tournament to find out.
+ */
+export async function sendChipsEligibility(tournament, gameId = null) {
+  if (!tournament.rebuyLevels && !tournament.addOnChips) return;
+
+  const { getIO, seatRoom } = await import("../modules/socket-handlers/pokerHandler.js");
+  const socketIO = getIO();
+  if (!socketIO) return;
+
+  const players = await prisma.player.findMany({
+    where: {
+      status: { not: "ELIMINATED" },
+      game: { tournamentId: tournament.id, status: "ACTIVE", ...(gameId ? { id: gameId } : {}) }
+    }
+  });
+  for (const player of players) {
+    socketIO.to(seatRoom(player.gameId, player.userId)).emit("chips-eligibility", {
+      tournamentId: tournament.id,
+      playerId: player.id,
+      pendingChips: player.pendingChips,
+      canRebuy: !purchaseError(tournament, player, "REBUY"),
+      canAddOn: !purchaseError(tournament, player, "ADD_ON")
+    });
+  }
+}
+
+/**
+ * The clock as clients see it. They count down from `remainingMs` (frozen
+ * while paused, null on a level with no end) instead of working the
+ * schedule out themselves.
+ */
+export function clockPayload(tournament, now = Date.now()) {
+  const paused = !!tournament.clockPausedAt;
+  let remainingMs = null;
+  if (paused) {
+    remainingMs = tournament.clockRemainingMs ?? null;
+  } else if (tournament.clockEndsAt) {
+    remainingMs = Math.max(0, new Date(tournament.clockEndsAt).getTime() - now);
+  }
+
+  return {
+    tournamentId: tournament.id,
+    level: tournament.clockLevel,
+    onBreak: tournament.clockOnBreak,
+    paused,
+    levelStartedAt: tournament.levelStartedAt,
+    endsAt: tournament.clockEndsAt,
+    remainingMs
+  };
+}
+
+function minutesAfter(date, minutes) {
+  return new Date(new Date(date).getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Clock fields for starting level `levelIndex` at `at`.
+ */
+function levelStart(blindLevels, levelIndex, at) {
+  const duration = blindLevels[levelIndex]?.duration;
+  return {
+    clockLevel: levelIndex,
+    clockOnBreak: false,
+    levelStartedAt: at,
+    clockEndsAt: duration == null ? null : minutesAfter(at, duration)
+  };
+}
+
+/**
+ * Play the schedule forward to `now`: a level that has run out goes to its
+ * break (if it has one) and then to the next level. Each step starts when
+ * the last one was due, so time spent with the server down isn't lost.
+ */
+function catchUp(tournament, blindLevels, now) {
+  let clock = {
+    clockLevel: tournament.clockLevel,
+    clockOnBreak: tournament.clockOnBreak,
+    levelStartedAt: tournament.levelStartedAt,
+    clockEndsAt: tournament.clockEndsAt
+  };
+
+  while (clock.clockEndsAt && clock.clockEndsAt <= now) {
+    const level = blindLevels[clock.clockLevel];
+    if (!clock.clockOnBreak && level?.breakAfter) {
+      clock = { ...clock, clockOnBreak: true, clockEndsAt: minutesAfter(clock.clockEndsAt, level.breakAfter) };
+    } else if (clock.clockLevel + 1 < blindLevels.length) {
+      clock = levelStart(blindLevels, clock.clockLevel + 1, clock.clockEndsAt);
+    } else {
+      // Out of levels: the last one carries on
+      clock = { ...clock, clockOnBreak: false, clockEndsAt: null };
+    }
+  }
+
+  return clock;
+}
+
+/**
+ * TournamentClock: the server-side blind clock. Its state lives on the
+ * Tournament row, so it survives restarts and every instance agrees on it;
+ * each instance keeps a timer per running tournament to move it on, and
+ * changes are written conditionally so only one instance applies each step.
+ *
+ * Clients get a `clock` event on every change, and `blind-level-changed`
+ * when the blinds go up. Tables pick the new level up on their next hand.
+ */
+export class TournamentClock {
+  constructor() {
+    this.timers = new Map();
+  }
+
+  /**
+   * Start level 1 now. Called when the tournament starts.
+   */
+  async start(tournamentId) {
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    if (!tournament) {
+      throw new Error("Tournament not found");
+    }
+
+    const blindLevels = parseBlindLevels(tournament);
+    const started = await prisma.tournament.update({
+      where: { id: tournamentId },
+      data: {
+        ...levelStart(blindLevels, 0, new Date()),
+        clockPausedAt: null,
+        clockRemainingMs: null
+      }
+    });
+
+    console.log(`[TOURNAMENT CLOCK] Started clock for tournament ${tournamentId}`);
+    await this.announce(tournament, started, blindLevels);
+    this.schedule(started);
+    return clockPayload(started);
+  }
+
+  /**
+   * Pick up every running tournament's clock after a restart.
+   */
+  async restore() {
+    const running = await prisma.tournament.findMany({
+      where: { status: "RUNNING" },
+      include: { games: { where: { status: "ACTIVE" } } }
+    });
+
+    for (const tournament of running) {
+      if (!tournament.levelStartedAt) {
+        // Started before the clock was persisted: carry on from the tables' level
+        const blindLevels = parseBlindLevels(tournament);
+        const levelIndex = Math.max(0, ...tournament.games.map((g) => g.currentBlindLevel || 0));
+        await prisma.tournament.update({
+          where: { id: tournament.id },
+          data: levelStart(blindLevels, Math.min(levelIndex, Math.max(0, blindLevels.length - 1)), new Date())
+        });
+      }
+      await this.tick(tournament.id);
+    }
+
+    console.log(`[TOURNAMENT CLOCK] Restored ${running.length} running clock(s)`);
+  }
+
+  stop(tournamentId) {
+    clearTimeout(this.timers.get(tournamentId));
+    this.timers.delete(tournamentId);
+  }
+
+  /**
+   * Freeze the clock; no new hands are dealt until it's resumed.
+   * @returns {Promise<object|null>} the clock, or null if the tournament isn't running
+   */
+  async pause(tournamentId) {
+    const tournament = await this.loadRunning(tournamentId);
+    if (!tournament) return null;
+    if (tournament.clockPausedAt) return clockPayload(tournament);
+
+    const now = new Date();
+    const updated = await this.commit(tournament, {
+      clockPausedAt: now,
+      clockRemainingMs: tournament.clockEndsAt
+        ? Math.max(0, tournament.clockEndsAt.getTime() - now.getTime())
+        : null,
+      clockEndsAt: null
+    });
+    console.log(`[TOURNAMENT CLOCK] Paused tournament ${tournamentId}`);
+    this.schedule(updated);
+    return clockPayload(updated);
+  }
+
+  /**
+   * Restart a paused clock with the time it had left.
+   * @returns {Promise<object|null>} the clock, or null if the tournament isn't running
+   */
+  async resume(tournamentId) {
+    const tournament = await this.loadRunning(tournamentId);
+    if (!tournament) return null;
+    if (!tournament.clockPausedAt) return clockPayload(tournament);
+
+    const now = new Date();
+    const updated = await this.commit(tournament, {
+      clockPausedAt: null,
+      clockRemainingMs: null,
+      clockEndsAt: tournament.clockRemainingMs == null
+        ? null
+        : new Date(now.getTime() + tournament.clockRemainingMs)
+    });
+    console.log(`[TOURNAMENT CLOCK] Resumed tournament ${tournamentId}`);
+    this.schedule(updated);
+    return clockPayload(updated);
+  }
+
+  /**
+   * Go straight to the next level (ending a break if the tables are on one).
+   * A paused clock stays paused, with the new level's full time left.
+   * @returns {Promise<object|null>} the clock, or null if the tournament isn't running
+   */
+  async skipLevel(tournamentId) {
+    const tournament = await this.loadRunning(tournamentId);
+    if (!tournament) return null;
+
+    const blindLevels = parseBlindLevels(tournament);
+    if (tournament.clockLevel + 1 >= blindLevels.length) {
+      console.log(`[TOURNAMENT CLOCK] Tournament ${tournamentId} is already on its last level`);
+      return clockPayload(tournament);
+    }
+
+    const next = levelStart(blindLevels, tournament.clockLevel + 1, new Date());
+    const data = tournament.clockPausedAt
+      ? {
+          ...next,
+          clockEndsAt: null,
+          clockRemainingMs: next.clockEndsAt ? next.clockEndsAt.getTime() - next.levelStartedAt.getTime() : null
+        }
+      : next;
+    const updated = await this.commit(tournament, data, blindLevels);
+    console.log(`[TOURNAMENT CLOCK] Skipped tournament ${tournamentId} to level ${updated.clockLevel + 1}`);
+    this.schedule(updated);
+    return clockPayload(updated);
+  }
+
+  async loadRunning(tournamentId) {
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    return tournament?.status === "RUNNING" ? tournament : null;
+  }
+
+  /**
+   * Move a running clock on if its level or break is over, then sleep until
+   * it's next due.
+   */
+  async tick(tournamentId) {
+    this.stop(tournamentId);
+
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    if (!tournament || tournament.status !== "RUNNING") {
+      console.log(`[TOURNAMENT CLOCK] Tournament ${tournamentId} not running, stopping its clock`);
+      return;
+    }
+
+    let current = tournament;
+    const now = new Date();
+    if (!tournament.clockPausedAt && tournament.clockEndsAt && tournament.clockEndsAt <= now) {
+      const blindLevels = parseBlindLevels(tournament);
+      current = await this.commit(tournament, catchUp(tournament, blindLevels, now), blindLevels);
+    }
+
+    this.schedule(current);
+  }
+
+  schedule(tournament) {
+    this.stop(tournament.id);
+
+    const dueIn = !tournament.clockPausedAt && tournament.clockEndsAt
+      ? tournament.clockEndsAt.getTime() - Date.now()
+      : POLL_MS;
+    const timerId = setTimeout(() => {
+      this.tick(tournament.id).catch((err) => {
+        console.error(`[TOURNAMENT CLOCK] Error in clock for tournament ${tournament.id}:`, err);
+      });
+    }, Math.min(POLL_MS, Math.max(1000, dueIn)));
+
+    this.timers.set(tournament.id, timerId);
+  }
+
+  /**
+   * Write a clock change, unless another instance changed the clock first
+   * (it will have announced its own change). Returns the clock as it now is.
+   */
+  async commit(tournament, data, blindLevels = parseBlindLevels(tournament)) {
+    const { count } = await prisma.tournament.updateMany({
+      where: {
+        id: tournament.id,
+        clockLevel: tournament.clockLevel,
+        clockOnBreak: tournament.clockOnBreak,
+        clockEndsAt: tournament.clockEndsAt,
+        clockPausedAt: tournament.clockPausedAt
+      },
+      data
+    });
+    const updated = await prisma.tournament.findUnique({ where: { id: tournament.id } });
+
+    if (count > 0) {
+      await this.announce(tournament, updated, blindLevels);
+    }
+    return updated;
+  }
+
+  /**
+   * Tell the tables and clients about a clock change.
+   */
+  async announce(before, after, blindLevels) {
+    if (after.clockLevel !== before.clockLevel) {
+      // The next hand on each table is dealt at the new level
+      await prisma.game.updateMany({
+        where: { tournamentId: after.id, status: "ACTIVE" },
+        data: { currentBlindLevel: after.clockLevel }
+      });
+    }
+
+    const { getIO, startHandForGame } = await import("../modules/socket-handlers/pokerHandler.js");
+    const socketIO = getIO();
+    if (!socketIO) return;
+
+    if (after.clockLevel !== before.clockLevel) {
+      const level = blindLevels[after.clockLevel] || {};
+      socketIO.emit("blind-level-changed", {
+        tournamentId: after.id,
+        currentBlindLevel: after.clockLevel,
+        smallBlind: level.smallBlind,
+        bigBlind: level.bigBlind,
+        ante: level.ante || 0,
+        bigBlindAnte: !!level.bigBlindAnte
+      });
+      console.log(`[TOURNAMENT CLOCK] Tournament ${after.id} is now on level ${after.clockLevel + 1}`);
+    }
+    socketIO.emit("clock", clockPayload(after));
+
+    if (after.clockLevel !== before.clockLevel || after.clockOnBreak !== before.clockOnBreak) {
+      await sendChipsEligibility(after).catch((err) => {
+        console.error(`[TOURNAMENT CLOCK] Error sending rebuy and add-on eligibility for tournament ${after.id}:`, err);
+      });
+    }
+
+    if (isLateRegistrationOpen(before) && !isLateRegistrationOpen(after)) {
+      console.log(`[TOURNAMENT CLOCK] Late registration closed for tournament ${after.id}`);
+      try {
+        const { updateTournamentEmbeds } = await import("../discord/bot.js");
+        await updateTournamentEmbeds(after.id);
+      } catch (error) {
+        console.error("[TOURNAMENT CLOCK] Error updating Discord embeds:", error);
+      }
+    }
+
+    if (isPlayHalted(before) && !isPlayHalted(after)) {
+      // Back from a break or pause: deal at every table that's waiting
+      const games = await prisma.game.findMany({
+        where: { tournamentId: after.id, status: "ACTIVE" },
+        select: { id: true }
+      });
+      for (const game of games) {
+        startHandForGame(game.id, socketIO).catch((err) => {
+          console.error(`[TOURNAMENT CLOCK] Could not deal at game ${game.id}:`, err.message);
+        });
+      }
+    }
+  }
+}
+
+// One clock per process, shared by the routes, the tournament engine and the tables
+export const tournamentClock = new TournamentClock();
@@ -1,9 +1,24 @@
 import { prisma } from "../config/database.js";
+import { tournamentClock, isLateRegistrationOpen, purchaseError, sendChipsEligibility } from "./TournamentClock.js";
+import { nextButtonPositions } from "../modules/poker/TableEngine.js";
+import { calculatePayouts, prizesForResults } from "./PrizeStructure.js";
+import { icmEquities, chipChopEquities, parseDeal, DEAL_METHODS, MAX_ICM_PLAYERS } from "./DealCalculator.js";
+import { tournamentLock } from "./TournamentLock.js";
 
 // TournamentEngine: manages tables, seating, and basic progression.
 // This is intentionally simplified but provides real table assignment
 // and consolidation hooks.
 
+// tournamentId -> promise of the last change to its tables on this
+// instance (see serialize). Shared by every engine, since the routes and
+// the tables each have one.
+const settling = new Map();
+
+async function broadcast(event, payload) {
+  const { getIO } = await import("../modules/socket-handlers/pokerHandler.js");
+  getIO()?.emit(event, payload);
+}
+
 export class TournamentEngine {
   /**
    * Close registration: seat players into tables but don't start the game.
@@ -97,6 +112,9 @@ export class TournamentEngine {
       }
     });
 
+    // Level 1 starts now; the clock takes the blinds up from here
+    await tournamentClock.start(tournamentId);
+
     // Start a hand for each game
     const { startHandForGame, getIO } = await import("../modules/socket-handlers/pokerHandler.js");
     // Use provided io or get from pokerHandler
@@ -133,17 +151,15 @@ export class TournamentEngine {
       }
     }
 
-    // Start blind level timer
-    console.log(`[TOURNAMENT] Starting blind level timer for tournament ${tournamentId}`);
-    this.startBlindLevelTimer(tournamentId);
-
-    // Refresh games after starting hands
+    // Refresh games after starting hands (hole cards are dealt by now, so leave them out)
     const updatedTournament = await prisma.tournament.findUnique({
       where: { id: tournamentId },
       include: {
         games: {
           include: {
-            players: true
+            players: {
+              omit: { holeCards: true }
+            }
           }
         }
       }
@@ -153,115 +169,97 @@ export class TournamentEngine {
   }
 
   /**
-   * Start blind level progression timer for a running tournament
+   * Register for a Sit & Go. The registration that takes the last seat
+   * seats everyone and starts the tournament, and with `autoRespawn` opens
+   * a fresh copy for the next players.
+   * @returns {Promise<{ registration?: object, started?: boolean, error?: string }>}
    */
-  startBlindLevelTimer(tournamentId) {
-    // Clear existing timer if any
-    if (this.blindTimers && this.blindTimers.has(tournamentId)) {
-      clearInterval(this.blindTimers.get(tournamentId));
-      this.blindTimers.delete(tournamentId);
-    }
-
-    // Initialize timers map if needed
-    if (!this.blindTimers) {
-      this.blindTimers = new Map();
-    }
+  async registerForSitAndGo(tournamentId, userId) {
+    const entry = await this.serialize(tournamentId, async () => {
+      const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+      if (!tournament) return { error: "Tournament not found" };
+      if (tournament.status !== "SCHEDULED" && tournament.status !== "REGISTERING") {
+        return { error: "This Sit & Go has already started" };
+      }
 
-    // Check tournament blind levels every minute
-    console.log(`[TOURNAMENT] Blind level timer started for tournament ${tournamentId}, checking every 60 seconds`);
-    const intervalId = setInterval(async () => {
-      try {
-        const tournament = await prisma.tournament.findUnique({
-          where: { id: tournamentId },
-        });
+      const existing = await prisma.tournamentRegistration.findUnique({
+        where: { tournamentId_userId: { tournamentId, userId } }
+      });
+      if (existing?.status === "CONFIRMED") return { registration: existing };
 
-        if (!tournament || tournament.status !== 'RUNNING' || !tournament.startedAt) {
-          // Tournament not running, clear timer
-          console.log(`[TOURNAMENT] Tournament ${tournamentId} not running, clearing blind timer`);
-          clearInterval(intervalId);
-          if (this.blindTimers) {
-            this.blindTimers.delete(tournamentId);
-          }
-          return;
-        }
-        
-        console.log(`[TOURNAMENT] Blind timer check for tournament ${tournamentId}`);
-
-        // Parse blind levels
-        let blindLevels = [];
-        try {
-          blindLevels = tournament.blindLevelsJson ? JSON.parse(tournament.blindLevelsJson) : [];
-        } catch (e) {
-          console.error(`[TOURNAMENT] Failed to parse blind levels for tournament ${tournamentId}:`, e);
-          return;
-        }
+      const registered = await prisma.tournamentRegistration.count({
+        where: { tournamentId, status: "CONFIRMED" }
+      });
+      if (registered >= tournament.maxPlayers) return { error: "Tournament is full" };
 
-        if (blindLevels.length === 0) return;
-
-        // Calculate elapsed time since tournament started
-        const now = new Date();
-        const startedAt = new Date(tournament.startedAt);
-        const elapsedMs = now.getTime() - startedAt.getTime();
-        let elapsedMinutes = elapsedMs / 1000 / 60;
-
-        // Determine current blind level based on elapsed time
-        let currentLevelIndex = 0;
-        for (let i = 0; i < blindLevels.length; i++) {
-          const level = blindLevels[i];
-          if (level.duration === null) {
-            // Final level (infinite duration)
-            currentLevelIndex = i;
-            break;
-          }
-          if (elapsedMinutes <= level.duration) {
-            currentLevelIndex = i;
-            break;
-          }
-          elapsedMinutes -= level.duration;
-          // Account for break after level
-          if (level.breakAfter) {
-            elapsedMinutes -= level.breakAfter;
-          }
-        }
+      const registration = await prisma.tournamentRegistration.upsert({
+        where: { tournamentId_userId: { tournamentId, userId } },
+        create: { tournamentId, userId, status: "CONFIRMED" },
+        update: { status: "CONFIRMED" }
+      });
+      if (registered + 1 < tournament.maxPlayers) return { registration };
 
-        // Get current level from games
-        const games = await prisma.game.findMany({
-          where: {
-            tournamentId,
-            status: "ACTIVE"
-          }
-        });
+      // Full: seat everyone here, so nobody else gets in
+      console.log(`[TOURNAMENT] Sit & Go ${tournamentId} is full, seating ${tournament.maxPlayers} players`);
+      await this.closeRegistration(tournamentId);
+      return { registration, tournament, full: true };
+    });
+    if (!entry.full) return entry;
 
-        if (games.length === 0) return;
-
-        // Check if we need to advance to next level
-        const gameLevel = games[0].currentBlindLevel || 0;
-        if (currentLevelIndex > gameLevel) {
-          console.log(`[TOURNAMENT] Advancing blind level for tournament ${tournamentId} from ${gameLevel} to ${currentLevelIndex}`);
-          await this.advanceBlindLevel(tournamentId);
-          
-          // Update blinds in active games
-          const newLevel = blindLevels[currentLevelIndex];
-          if (newLevel) {
-            for (const game of games) {
-              // Update game blinds - this will affect new hands
-              // Existing hands continue with their current blinds
-              await prisma.game.update({
-                where: { id: game.id },
-                data: {
-                  smallBlind: newLevel.smallBlind,
-                  bigBlind: newLevel.bigBlind
-                }
-              });
-            }
-          }
-        }
-      } catch (err) {
-        console.error(`[TOURNAMENT] Error in blind level timer for tournament ${tournamentId}:`, err);
+    // Dealing runs on the tables' queues, which settle hands through this
+    // tournament's queue, so start outside it. If it fails the players
+    // stay seated for an admin to start.
+    let started = true;
+    try {
+      await this.startTournament(tournamentId);
+    } catch (error) {
+      started = false;
+      console.error(`[TOURNAMENT] Failed to start Sit & Go ${tournamentId}:`, error);
+    }
+    if (entry.tournament.autoRespawn) {
+      try {
+        await this.respawnSitAndGo(entry.tournament);
+      } catch (error) {
+        console.error(`[TOURNAMENT] Failed to open a new copy of Sit & Go ${tournamentId}:`, error);
       }
-    }, 60000); // Check every minute
+    }
+    return { registration: entry.registration, started };
+  }
+
+  /**
+   * Open a fresh copy of a Sit & Go that just filled, with the same
+   * settings, posted to the same Discord servers.
+   */
+  async respawnSitAndGo(tournament) {
+    const {
+      id, status, startTime, startedAt, createdAt, updatedAt, dealJson,
+      clockLevel, clockOnBreak, levelStartedAt, clockEndsAt, clockPausedAt, clockRemainingMs,
+      ...settings
+    } = tournament;
+    const copy = await prisma.tournament.create({
+      data: { ...settings, startTime: new Date() }
+    });
+
+    const posts = await prisma.tournamentPost.findMany({
+      where: { tournamentId: id },
+      include: { server: true }
+    });
+    for (const post of posts) {
+      await prisma.tournamentPost.create({
+        data: { tournamentId: copy.id, serverId: post.serverId }
+      });
+    }
+    console.log(`[TOURNAMENT] Opened Sit & Go ${copy.id} to replace ${id}`);
 
-    this.blindTimers.set(tournamentId, intervalId);
+    try {
+      const { postTournamentEmbed } = await import("../discord/bot.js");
+      await postTournamentEmbed(copy, posts.map((post) => post.server.serverId));
+    } catch (error) {
+      console.error("[TOURNAMENT ENGINE] Error posting Discord embeds:", error);
+    }
+    await broadcast("tournament-created", { tournamentId: copy.id, respawnedFromId: id });
+
+    return copy;
   }
 
   /**
@@ -299,6 +297,7 @@ export class TournamentEngine {
           tournamentId,
           tableNumber,
           status: "ACTIVE",
+          currentBlindLevel: 0,
           pot: 0,
           communityCards: ""
         }
@@ -312,6 +311,7 @@ export class TournamentEngine {
             userId: reg.userId,
             seatNumber: i + 1,
             chips: tournament.startingChips,
+            bounty: tournament.bountyType ? tournament.bountyAmount : 0,
             holeCards: "",
             status: "ACTIVE"
           }
@@ -326,74 +326,760 @@ export class TournamentEngine {
   }
 
   /**
-   * Basic consolidation stub: in a real engine this would:
-   * - find short-handed tables
-   * - move players to balance seats
-   * For now, we only expose a placeholder.
+   * A hand just finished at `gameId` and no new one has been dealt there:
+   * knock out anyone who busted, then break or balance tables.
+   * Must run on the table's queue, so this table can't be dealing meanwhile.
+   * @param {string} gameId
+   * @param {object} hand
+   * @param {Record<string, number>} hand.startingStacks - playerId -> chips at the start of the hand
+   * @param {Record<string, number>} hand.finalStacks - playerId -> chips at the end of it
+   * @param {Array<{ playerId: string, eliminatedBy: string[] }>} hand.knockouts - from the showdown
+   * @returns {Promise<{ dealAgain: boolean, moves: Array<object>, closedGameIds: string[] }>}
+   *   whether this table deals its next hand, and who was moved where
    */
-  async consolidateTables(tournamentId) {
-    // TODO: implement real consolidation logic.
-    const games = await prisma.game.findMany({
-      where: { tournamentId, status: "ACTIVE" },
-      include: { players: true }
+  async onHandFinished(gameId, { startingStacks = {}, finalStacks = {}, knockouts = [] } = {}) {
+    const game = await prisma.game.findUnique({
+      where: { id: gameId },
+      select: { tournamentId: true }
+    });
+    if (!game?.tournamentId) {
+      return { dealAgain: true, moves: [], closedGameIds: [] };
+    }
+
+    const settled = await this.serialize(game.tournamentId, async () => {
+      // Chips bought during the hand can save a player who busted in it
+      const toppedUp = await this.applyPendingChips(gameId);
+      await this.knockOutBusted(game.tournamentId, gameId, { startingStacks, finalStacks, knockouts }, toppedUp);
+      return this.rebalance(game.tournamentId, gameId);
     });
 
-    return games;
+    // The stacks here are what the next hand is dealt with
+    await prisma.tournament.findUnique({ where: { id: game.tournamentId } })
+      .then((tournament) => tournament && sendChipsEligibility(tournament, gameId))
+      .catch((err) => console.error(`[TOURNAMENT] Error sending rebuy and add-on eligibility at game ${gameId}:`, err));
+    return settled;
+  }
+
+  /**
+   * Run `task` after any earlier one for the same tournament has settled.
+   * Tables finish hands at once, and places, table moves and late entries
+   * have to be worked out one at a time. Tasks queue up here on each
+   * instance, and take the tournament's lock (see TournamentLock) against
+   * the instances running its other tables.
+   */
+  serialize(tournamentId, task) {
+    const previous = settling.get(tournamentId) || Promise.resolve();
+    const run = previous.catch(() => {}).then(() => tournamentLock.run(tournamentId, task));
+    settling.set(tournamentId, run);
+    return run;
   }
 
   /**
-   * Mark a player as eliminated and optionally trigger consolidation.
+   * Knock out everyone at the table who ran out of chips. Players busting on
+   * the same hand are placed by the stack they started it with (the bigger
+   * stack finishes higher); equal stacks share the higher place. In a
+   * bounty tournament whoever knocked them out collects their bounty.
+   *
+   * Busts are decided from the hand's own final stacks (plus chips bought
+   * during it), not the player rows: the per-action chip writes aren't
+   * awaited and can land out of order.
+   * @param {Map<string, number>} toppedUp - playerId -> pending chips just added (see applyPendingChips)
    */
-  async onPlayerBust(tournamentId, playerId) {
+  async knockOutBusted(tournamentId, gameId, { startingStacks = {}, finalStacks = {}, knockouts = [] }, toppedUp = new Map()) {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: { id: true, status: true, bountyType: true }
+    });
+    if (tournament?.status !== "RUNNING") return;
+
+    const seated = await prisma.player.findMany({
+      where: { gameId, status: { not: "ELIMINATED" } }
+    });
+    // Anyone who wasn't dealt in (seated mid-hand) goes by their row
+    const chipsAfter = (player) => player.id in finalStacks
+      ? finalStacks[player.id] + (toppedUp.get(player.id) || 0)
+      : player.chips;
+    const busted = seated.filter((player) => chipsAfter(player) <= 0);
+    if (busted.length === 0) return;
+
+    const stackOf = (player) => startingStacks[player.id] ?? 0;
+    busted.sort((a, b) => stackOf(b) - stackOf(a));
+
+    // They're all still counted in, so the first of them takes the place
+    // just above everyone who went out before
+    const remaining = await this.countRemaining(tournamentId);
+    const firstPlace = remaining - busted.length + 1;
+    let place = firstPlace;
+    for (let i = 0; i < busted.length; i++) {
+      if (i > 0 && stackOf(busted[i]) !== stackOf(busted[i - 1])) {
+        place = firstPlace + i;
+      }
+      // Before the bust, which may end the tournament and pay everything out
+      const knockout = knockouts.find((k) => k.playerId === busted[i].id);
+      await this.collectBounty(tournament, busted[i], knockout?.eliminatedBy || []);
+      await this.onPlayerBust(tournamentId, busted[i].id, place);
+    }
+  }
+
+  /**
+   * Pay a knocked-out player's bounty to the players who knocked them out,
+   * split evenly (odd chips to the first of them). In a progressive
+   * tournament half of each share is paid out and the rest goes onto the
+   * eliminator's own head.
+   */
+  async collectBounty(tournament, busted, eliminatorIds) {
+    if (!tournament.bountyType || !busted.bounty || eliminatorIds.length === 0) return;
+
+    const share = Math.floor(busted.bounty / eliminatorIds.length);
+    const oddChips = busted.bounty - share * eliminatorIds.length;
+    const collected = [];
+    for (let i = 0; i < eliminatorIds.length; i++) {
+      const amount = share + (i < oddChips ? 1 : 0);
+      const paid = tournament.bountyType === "PROGRESSIVE" ? Math.ceil(amount / 2) : amount;
+      await prisma.player.update({
+        where: { id: eliminatorIds[i] },
+        data: {
+          bountyWon: { increment: paid },
+          bounty: { increment: amount - paid }
+        }
+      });
+      collected.push({ playerId: eliminatorIds[i], paid, addedToBounty: amount - paid });
+    }
     await prisma.player.update({
-      where: { id: playerId },
+      where: { id: busted.id },
+      data: { bounty: 0 }
+    });
+
+    console.log(`[TOURNAMENT] Bounty of ${busted.bounty} on player ${busted.id} collected by ${eliminatorIds.join(", ")} in tournament ${tournament.id}`);
+    await broadcast("bounty-collected", {
+      tournamentId: tournament.id,
+      playerId: busted.id,
+      userId: busted.userId,
+      bounty: busted.bounty,
+      collected
+    });
+  }
+
+  /**
+   * Players still in, whatever they did on the last hand.
+   */
+  countRemaining(tournamentId) {
+    return prisma.player.count({
+      where: {
+        game: { tournamentId, status: "ACTIVE" },
+        status: { not: "ELIMINATED" }
+      }
+    });
+  }
+
+  /**
+   * Break a table once everyone fits on one table fewer, otherwise move a
+   * player from the biggest table to the smallest when they're two or more
+   * apart. Only tables between hands give up players: the one whose hand
+   * just finished, or one too short-handed to be dealing at all.
+   *
+   * Must run on the tournament's queue (see serialize).
+   */
+  async rebalance(tournamentId, finishedGameId) {
+    const result = { dealAgain: false, moves: [], closedGameIds: [] };
+
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        games: {
+          where: { status: "ACTIVE" },
+          include: { players: { where: { status: { not: "ELIMINATED" } } } },
+          orderBy: { tableNumber: "asc" }
+        }
+      }
+    });
+    if (!tournament || tournament.status !== "RUNNING") return result;
+
+    const games = tournament.games;
+    const finished = games.find((g) => g.id === finishedGameId);
+    if (!finished) return result;
+
+    result.dealAgain = true;
+    if (games.length < 2) return result;
+
+    const canMoveFrom = (g) => g.id === finishedGameId || g.players.length < 2;
+    const bySize = () => [...games].sort((a, b) => a.players.length - b.players.length || b.tableNumber - a.tableNumber);
+
+    const total = games.reduce((sum, g) => sum + g.players.length, 0);
+    if (Math.ceil(total / tournament.seatsPerTable) < games.length) {
+      // The smallest table breaks (the highest-numbered one on a tie); if it's
+      // mid-hand, it breaks when that hand is over
+      const breaking = bySize()[0];
+      if (!canMoveFrom(breaking)) return result;
+
+      const others = games.filter((g) => g !== breaking);
+      for (const player of [...breaking.players]) {
+        const destination = [...others].sort((a, b) => a.players.length - b.players.length || a.tableNumber - b.tableNumber)[0];
+        result.moves.push(await this.movePlayer(tournament, breaking, destination, player));
+      }
+
+      await prisma.game.update({
+        where: { id: breaking.id },
+        data: { status: "COMPLETED" }
+      });
+      console.log(`[TOURNAMENT] Broke table ${breaking.tableNumber} of tournament ${tournamentId}`);
+      result.closedGameIds.push(breaking.id);
+      result.dealAgain = breaking !== finished;
+      return result;
+    }
+
+    const sorted = bySize();
+    const smallest = sorted[0];
+    const biggest = sorted[sorted.length - 1];
+    if (biggest.players.length - smallest.players.length >= 2 && finished.players.length === biggest.players.length) {
+      // The player due the big blind next moves, so nobody dodges a blind
+      const previous = finished.bigBlindSeat != null
+        ? { dealerSeat: finished.dealerSeat, smallBlindSeat: finished.smallBlindSeat, bigBlindSeat: finished.bigBlindSeat }
+        : null;
+      const { bigBlindSeat } = nextButtonPositions(finished.players, previous, finished.players[0].seatNumber);
+      const player = finished.players.find((p) => p.seatNumber === bigBlindSeat) || finished.players[0];
+
+      result.moves.push(await this.movePlayer(tournament, finished, smallest, player));
+      console.log(`[TOURNAMENT] Balanced tournament ${tournamentId}: table ${finished.tableNumber} -> table ${smallest.tableNumber}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Move a player's row to a free seat at another table: the first one
+   * clockwise after that table's big blind, so they take the big blind on
+   * their first hand there rather than sitting in between the blinds and
+   * the button.
+   */
+  async movePlayer(tournament, from, to, player) {
+    const seatNumber = this.freeSeat(tournament, to);
+
+    const moved = await prisma.player.update({
+      where: { id: player.id },
       data: {
-        status: "ELIMINATED"
+        gameId: to.id,
+        seatNumber,
+        status: "ACTIVE",
+        holeCards: "",
+        lastAction: null
+      }
+    });
+
+    from.players = from.players.filter((p) => p.id !== player.id);
+    to.players.push(moved);
+
+    return {
+      playerId: player.id,
+      userId: player.userId,
+      fromGameId: from.id,
+      toGameId: to.id,
+      tableNumber: to.tableNumber,
+      seatNumber
+    };
+  }
+
+  /**
+   * The first free seat clockwise after a table's big blind.
+   */
+  freeSeat(tournament, game) {
+    const { seatsPerTable } = tournament;
+    const taken = new Set(game.players.map((p) => p.seatNumber));
+    const fromSeat = game.bigBlindSeat ?? 1;
+    for (let i = 1; i <= seatsPerTable; i++) {
+      // Clockwise is decreasing seat numbers
+      const seat = ((fromSeat - i - 1 + seatsPerTable * 2) % seatsPerTable) + 1;
+      if (!taken.has(seat)) return seat;
+    }
+    throw new Error(`No free seat at table ${game.tableNumber}`);
+  }
+
+  /**
+   * Late registration, or a re-entry for a player who busted: seat them
+   * with a starting stack at the shortest table (a new one if every table
+   * is full; balancing fills it). Each entry is its own Player row.
+   * @returns {Promise<{ player?: object, error?: string }>}
+   */
+  lateRegister(tournamentId, userId) {
+    return this.serialize(tournamentId, () => this.seatLateEntry(tournamentId, userId));
+  }
+
+  async seatLateEntry(tournamentId, userId) {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        games: {
+          include: { players: true },
+          orderBy: { tableNumber: "asc" }
+        }
       }
     });
+    if (!tournament) return { error: "Tournament not found" };
+    if (!isLateRegistrationOpen(tournament)) {
+      return { error: "This tournament is no longer accepting registrations" };
+    }
+
+    const entries = await prisma.player.findMany({
+      where: { userId, game: { tournamentId } }
+    });
+    if (entries.some((p) => p.status !== "ELIMINATED")) {
+      return { error: "You are already playing in this tournament" };
+    }
+    if (entries.length > 0 && entries.length > tournament.maxReentries) {
+      return {
+        error: tournament.maxReentries > 0
+          ? `You have used all ${tournament.maxReentries} re-entries`
+          : "This tournament doesn't allow re-entry"
+      };
+    }
+    if (entries.length === 0) {
+      const registered = await prisma.tournamentRegistration.count({
+        where: { tournamentId, status: "CONFIRMED" }
+      });
+      if (registered >= tournament.maxPlayers) {
+        return { error: "Tournament is full" };
+      }
+    }
 
-    // Count remaining active players across all games
-    const remaining = await prisma.player.count({
+    const active = tournament.games.filter((g) => g.status === "ACTIVE");
+    const seatedAt = (g) => g.players.filter((p) => p.status !== "ELIMINATED").length;
+    let game = [...active].sort((a, b) => seatedAt(a) - seatedAt(b) || a.tableNumber - b.tableNumber)[0];
+    if (!game || seatedAt(game) >= tournament.seatsPerTable) {
+      const tableNumber = Math.max(0, ...tournament.games.map((g) => g.tableNumber || 0)) + 1;
+      game = await prisma.game.create({
+        data: {
+          tournamentId,
+          tableNumber,
+          status: "ACTIVE",
+          currentBlindLevel: tournament.clockLevel,
+          pot: 0,
+          communityCards: ""
+        }
+      });
+      game.players = [];
+      console.log(`[TOURNAMENT] Opened table ${tableNumber} of tournament ${tournamentId} for late entries`);
+    }
+
+    const player = await prisma.player.create({
+      data: {
+        gameId: game.id,
+        userId,
+        seatNumber: this.freeSeat(tournament, game),
+        chips: tournament.startingChips,
+        bounty: tournament.bountyType ? tournament.bountyAmount : 0,
+        holeCards: "",
+        status: "ACTIVE",
+        entryNumber: entries.length + 1
+      }
+    });
+    await prisma.tournamentRegistration.upsert({
+      where: { tournamentId_userId: { tournamentId, userId } },
+      create: { tournamentId, userId, status: "CONFIRMED" },
+      update: { status: "CONFIRMED" }
+    });
+
+    // One more entry still in, so every entry already out finishes one
+    // place lower. Results are per entry: a re-entering player's earlier
+    // bust stays on record and moves down with the rest.
+    await prisma.tournamentResult.updateMany({
+      where: { tournamentId },
+      data: { place: { increment: 1 } }
+    });
+
+    console.log(`[TOURNAMENT] ${entries.length ? `Re-entry ${entries.length}` : "Late registration"} for user ${userId} in tournament ${tournamentId}: table ${game.tableNumber}, seat ${player.seatNumber}`);
+    await broadcast("tournament-entry", {
+      tournamentId,
+      userId,
+      playerId: player.id,
+      gameId: game.id,
+      tableNumber: game.tableNumber,
+      seatNumber: player.seatNumber,
+      entryNumber: player.entryNumber
+    });
+
+    // A table that was waiting for a second player can deal now
+    if (tournament.status === "RUNNING" && seatedAt(game) + 1 >= 2) {
+      const { startHandForGame, getIO } = await import("../modules/socket-handlers/pokerHandler.js");
+      startHandForGame(game.id, getIO()).catch((err) => {
+        console.error(`[TOURNAMENT] Could not deal at game ${game.id}:`, err.message);
+      });
+    }
+
+    try {
+      const { updateTournamentEmbeds } = await import("../discord/bot.js");
+      await updateTournamentEmbeds(tournamentId);
+    } catch (error) {
+      console.error("[TOURNAMENT ENGINE] Error updating Discord embeds:", error);
+    }
+
+    return { player };
+  }
+
+  /**
+   * Buy chips: a rebuy while rebuys are open, for a stack no bigger than
+   * the tournament allows, or the one add-on on the first break. Chips
+   * bought go on the stack before the player's next hand, so a rebuy taken
+   * while all in, or before a busting hand is wrapped up, keeps them in.
+   * @param {"REBUY"|"ADD_ON"} kind
+   * @returns {Promise<{ player?: object, error?: string }>}
+   */
+  buyChips(tournamentId, userId, kind) {
+    return this.serialize(tournamentId, () => this.takePurchase(tournamentId, userId, kind));
+  }
+
+  async takePurchase(tournamentId, userId, kind) {
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    if (!tournament) return { error: "Tournament not found" };
+
+    const player = await prisma.player.findFirst({
       where: {
-        game: { tournamentId },
-        status: "ACTIVE"
+        userId,
+        status: { not: "ELIMINATED" },
+        game: { tournamentId, status: "ACTIVE" }
       }
     });
+    if (!player) return { error: "You are not playing in this tournament" };
 
-    if (remaining <= 1) {
-      await prisma.tournament.update({
-        where: { id: tournamentId },
+    const error = purchaseError(tournament, player, kind);
+    if (error) return { error };
+
+    const chips = kind === "REBUY" ? tournament.rebuyChips : tournament.addOnChips;
+    const data = kind === "REBUY"
+      ? { rebuys: { increment: 1 }, pendingChips: { increment: chips } }
+      : { addOn: true, pendingChips: { increment: chips } };
+
+    const updated = await prisma.player.update({ where: { id: player.id }, data });
+    console.log(`[TOURNAMENT] Player ${player.id} took ${kind === "REBUY" ? `rebuy ${updated.rebuys}` : "the add-on"} in tournament ${tournamentId} (${chips} chips)`);
+    await broadcast("chips-bought", {
+      tournamentId,
+      userId,
+      playerId: player.id,
+      gameId: player.gameId,
+      kind,
+      chips,
+      pendingChips: updated.pendingChips
+    });
+
+    return { player: updated };
+  }
+
+  /**
+   * Put chips bought since the last hand on the stacks at a table.
+   * Must run between hands there.
+   * @returns {Promise<Map<string, number>>} playerId -> chips added
+   */
+  async applyPendingChips(gameId) {
+    const buyers = await prisma.player.findMany({
+      where: { gameId, pendingChips: { gt: 0 } }
+    });
+    const added = new Map();
+    for (const player of buyers) {
+      // A purchase landing meanwhile stays pending for the hand after
+      await prisma.player.update({
+        where: { id: player.id },
         data: {
-          status: "COMPLETED"
+          chips: { increment: player.pendingChips },
+          pendingChips: { decrement: player.pendingChips }
         }
       });
-    } else {
-      await this.consolidateTables(tournamentId);
+      added.set(player.id, player.pendingChips);
     }
+    return added;
   }
 
   /**
-   * Simple blind level progression: increment currentBlindLevel on active games.
+   * Entries, rebuys and add-ons taken so far: the field and what it paid
+   * into the prize pool.
    */
-  async advanceBlindLevel(tournamentId) {
-    const games = await prisma.game.findMany({
+  async purchases(tournamentId) {
+    const where = { game: { tournamentId } };
+    const [{ _count, _sum }, addOns] = await Promise.all([
+      prisma.player.aggregate({ where, _count: { _all: true }, _sum: { rebuys: true } }),
+      prisma.player.count({ where: { ...where, addOn: true } })
+    ]);
+    return { entries: _count._all, rebuys: _sum.rebuys || 0, addOns };
+  }
+
+  /**
+   * Knock a player out in `place` (the place everyone left would finish in,
+   * if not given). Their row stays for hand history, but gives up its seat
+   * (parked on a negative seat number) so the seat can be refilled.
+   * The last player standing wins the tournament.
+   */
+  async onPlayerBust(tournamentId, playerId, place = null) {
+    const player = await prisma.player.findUnique({
+      where: { id: playerId },
+      include: { user: { select: { username: true } } }
+    });
+    if (!player || player.status === "ELIMINATED") return;
+
+    const finishedIn = place ?? await this.countRemaining(tournamentId);
+    const parked = await prisma.player.count({
+      where: { gameId: player.gameId, seatNumber: { lt: 0 } }
+    });
+    await prisma.player.update({
+      where: { id: playerId },
+      data: {
+        status: "ELIMINATED",
+        seatNumber: -(parked + 1),
+        holeCards: "",
+        lastAction: null
+      }
+    });
+    await this.recordResult(tournamentId, player, finishedIn);
+    console.log(`[TOURNAMENT] Player ${playerId} busted out of tournament ${tournamentId} in place ${finishedIn}`);
+
+    const remaining = await this.countRemaining(tournamentId);
+    await broadcast("player-eliminated", {
+      tournamentId,
+      playerId,
+      userId: player.userId,
+      username: player.user?.username,
+      place: finishedIn,
+      remaining
+    });
+
+    if (remaining <= 1) {
+      await this.completeTournament(tournamentId);
+    }
+  }
+
+  /**
+   * Finish the tournament. Whoever is still in takes the top places by chip
+   * count (equal stacks share a place) - just the winner, unless an admin
+   * ends it early - and every table closes.
+   */
+  async completeTournament(tournamentId) {
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    if (!tournament) {
+      throw new Error("Tournament not found");
+    }
+
+    // Nobody has played a hand before it runs, so nobody places
+    const standing = tournament.status !== "RUNNING" ? [] : await prisma.player.findMany({
       where: {
-        tournamentId,
-        status: "ACTIVE"
+        game: { tournamentId, status: "ACTIVE" },
+        status: { not: "ELIMINATED" }
+      },
+      orderBy: { chips: "desc" }
+    });
+
+    let place = 1;
+    for (let i = 0; i < standing.length; i++) {
+      if (i > 0 && standing[i].chips !== standing[i - 1].chips) {
+        place = i + 1;
       }
+      await this.recordResult(tournamentId, standing[i], place);
+    }
+    if (tournament.status === "RUNNING") {
+      await this.awardPrizes(tournament);
+    }
+
+    await prisma.game.updateMany({
+      where: { tournamentId, status: "ACTIVE" },
+      data: { status: "COMPLETED" }
+    });
+    const completed = await prisma.tournament.update({
+      where: { id: tournamentId },
+      data: { status: "COMPLETED" }
     });
+    tournamentClock.stop(tournamentId);
+
+    try {
+      const { updateTournamentEmbeds } = await import("../discord/bot.js");
+      await updateTournamentEmbeds(tournamentId);
+    } catch (error) {
+      console.error("[TOURNAMENT ENGINE] Error updating Discord embeds:", error);
+    }
+
+    const winner = standing.length === 1 ? standing[0] : null;
+    console.log(`[TOURNAMENT] Tournament ${tournamentId} completed${winner ? `, won by player ${winner.id}` : ""}`);
+    await broadcast("tournament-completed", {
+      tournamentId,
+      winnerUserId: winner?.userId ?? null
+    });
+
+    return completed;
+  }
 
-    const updated = [];
-    for (const game of games) {
-      const nextLevel = (game.currentBlindLevel || 0) + 1;
-      const g = await prisma.game.update({
-        where: { id: game.id },
-        data: { currentBlindLevel: nextLevel }
+  /**
+   * Work out each finisher's prize from the payout structure, for the
+   * field the tournament actually had. Players in a deal get what they
+   * agreed instead, on the entry they made it with (their best finish).
+   * Each result gets the bounties its entry won; entries still in at the
+   * end also keep the bounty on their own head.
+   */
+  async awardPrizes(tournament) {
+    const results = await prisma.tournamentResult.findMany({
+      where: { tournamentId: tournament.id },
+      orderBy: [{ place: "asc" }, { finishedAt: "asc" }]
+    });
+    // Every entry counts towards the field, re-entries included
+    const bought = await this.purchases(tournament.id);
+    const payouts = calculatePayouts(tournament, bought.entries, bought);
+    const prizes = prizesForResults(results, payouts);
+    for (const player of parseDeal(tournament)?.players || []) {
+      const best = results.find((result) => result.userId === player.userId);
+      if (best) prizes.set(best.id, player.amount);
+    }
+
+    const bounties = new Map();
+    if (tournament.bountyType) {
+      const entries = await prisma.player.findMany({
+        where: { game: { tournamentId: tournament.id } },
+        select: { id: true, status: true, bounty: true, bountyWon: true }
+      });
+      for (const entry of entries) {
+        const kept = entry.status !== "ELIMINATED" ? entry.bounty : 0;
+        bounties.set(entry.id, entry.bountyWon + kept);
+      }
+    }
+
+    for (const result of results) {
+      await prisma.tournamentResult.update({
+        where: { id: result.id },
+        data: {
+          prize: prizes.get(result.id) ?? 0,
+          bounty: bounties.get(result.playerId) || 0
+        }
       });
-      updated.push(g);
     }
+    console.log(`[TOURNAMENT] Awarded ${payouts.length} prize place(s) for tournament ${tournament.id}`);
+  }
+
+  /** Record where an entry finished; a player who re-entered has a result per entry. */
+  recordResult(tournamentId, entry, place) {
+    return prisma.tournamentResult.upsert({
+      where: { playerId: entry.id },
+      create: { tournamentId, userId: entry.userId, playerId: entry.id, place },
+      update: { place, finishedAt: new Date() }
+    });
+  }
+
+  /**
+   * What the players still in would get from an ICM or a chip-chop deal,
+   * on their current stacks, for the prizes still to be paid.
+   * @returns {Promise<object|null>} null if the tournament isn't running
+   */
+  async dealProposal(tournamentId) {
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    if (tournament?.status !== "RUNNING") return null;
 
-    return updated;
+    const players = await prisma.player.findMany({
+      where: {
+        game: { tournamentId, status: "ACTIVE" },
+        status: { not: "ELIMINATED" }
+      },
+      include: { user: { select: { username: true } } },
+      orderBy: { chips: "desc" }
+    });
+    const bought = await this.purchases(tournamentId);
+    const prizes = calculatePayouts(tournament, bought.entries, bought)
+      .filter((p) => p.place <= players.length)
+      .map((p) => p.amount);
+
+    const stacks = players.map((p) => p.chips);
+    const icm = players.length <= MAX_ICM_PLAYERS ? icmEquities(stacks, prizes) : null;
+    const chipChop = chipChopEquities(stacks, prizes);
+
+    return {
+      tournamentId,
+      prizes,
+      total: prizes.reduce((sum, p) => sum + p, 0),
+      handInProgress: players.some((p) => p.holeCards),
+      players: players.map((p, i) => ({
+        playerId: p.id,
+        userId: p.userId,
+        username: p.user?.username,
+        chips: p.chips,
+        icm: icm ? icm[i] : null,
+        chipChop: chipChop[i]
+      })),
+      deal: parseDeal(tournament)
+    };
+  }
+
+  /**
+   * Put the numbers in front of the players: everyone gets a
+   * `deal-proposed` event with the proposal.
+   */
+  async proposeDeal(tournamentId) {
+    const proposal = await this.dealProposal(tournamentId);
+    if (proposal) {
+      await broadcast("deal-proposed", proposal);
+    }
+    return proposal;
+  }
+
+  /**
+   * Record the deal the players still in agreed to: ICM or chip chop on
+   * their current stacks, or CUSTOM `amounts` (userId -> amount) sharing
+   * out exactly the prize money left. Play goes on for the places, but
+   * these players get the deal's amounts instead of their places' prizes.
+   * Stacks have to be settled, so not while a hand is being played.
+   * @returns {Promise<{ deal?: object, error?: string }>}
+   */
+  async recordDeal(tournamentId, method, amounts = null) {
+    if (!DEAL_METHODS.includes(method)) {
+      return { error: `Deal method must be one of ${DEAL_METHODS.join(", ")}` };
+    }
+
+    const proposal = await this.dealProposal(tournamentId);
+    if (!proposal) return { error: "Tournament is not running" };
+    if (proposal.deal) return { error: "A deal has already been made" };
+    if (proposal.handInProgress) return { error: "Wait for the hand in progress to finish" };
+    if (method === "ICM" && proposal.players.some((p) => p.icm === null)) {
+      return { error: "Too many players left for an ICM deal" };
+    }
+
+    if (method === "CUSTOM") {
+      const userIds = proposal.players.map((p) => p.userId);
+      if (!amounts || Object.keys(amounts).length !== userIds.length || userIds.some((id) => !(id in amounts))) {
+        return { error: "A custom deal needs an amount for every player still in" };
+      }
+      if (Object.values(amounts).some((a) => !Number.isInteger(a) || a < 0)) {
+        return { error: "Deal amounts must be whole numbers of zero or more" };
+      }
+      if (Object.values(amounts).reduce((sum, a) => sum + a, 0) !== proposal.total) {
+        return { error: `Deal amounts must add up to the ${proposal.total} left in prizes` };
+      }
+    }
+
+    const deal = {
+      method,
+      agreedAt: new Date().toISOString(),
+      players: proposal.players.map((p) => ({
+        userId: p.userId,
+        username: p.username,
+        chips: p.chips,
+        amount: method === "ICM" ? p.icm : method === "CHIP_CHOP" ? p.chipChop : amounts[p.userId]
+      }))
+    };
+
+    // Only one deal, even if two admins agree it at once
+    const { count } = await prisma.tournament.updateMany({
+      where: { id: tournamentId, dealJson: null },
+      data: { dealJson: JSON.stringify(deal) }
+    });
+    if (count === 0) return { error: "A deal has already been made" };
+
+    console.log(`[TOURNAMENT] ${method} deal recorded for tournament ${tournamentId} between ${deal.players.length} players`);
+    await broadcast("deal-recorded", { tournamentId, deal });
+    return { deal };
+  }
+
+  /**
+   * Move the tournament straight on to its next blind level.
+   */
+  async advanceBlindLevel(tournamentId) {
+    await tournamentClock.skipLevel(tournamentId);
+
+    return prisma.game.findMany({
+      where: {
+        tournamentId,
+        status: "ACTIVE"
+      }
+    });
   }
 }
 
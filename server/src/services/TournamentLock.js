@@ -0,0 +1,92 @@
+import crypto from "crypto";
+import { redisClient, isRedisConfigured } from "../config/redis.js";
+
+const KEY_PREFIX = "poker:tournament-lock:";
+
+// Lease length and how often a holder renews it. A lock whose instance
+// died is free again at most LEASE_MS after its last renewal.
+const LEASE_MS = 15000;
+const RENEW_INTERVAL_MS = 5000;
+
+// How long we wait for another instance to let go, and how often we look
+const ACQUIRE_TIMEOUT_MS = 30000;
+const RETRY_MS = 100;
+
+// Only the holder may extend or release a lock
+const RENEW_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * TournamentLock: a lease on a tournament across server instances, held
+ * while its places, table moves and late entries are worked out (see
+ * TournamentEngine.serialize). Its tables can be run by different
+ * instances, which finish hands at the same time.
+ *
+ * Like TableOwnership: without Redis configured there is only one
+ * instance and the lock is a no-op; with Redis configured but not ready
+ * nobody can take it.
+ */
+export class TournamentLock {
+  constructor(client = redisClient, distributed = isRedisConfigured) {
+    this.client = client;
+    this.distributed = distributed;
+  }
+
+  /**
+   * Run `task` holding the tournament's lock.
+   * @throws if the lock can't be taken within ACQUIRE_TIMEOUT_MS
+   */
+  async run(tournamentId, task) {
+    if (!this.distributed) return task();
+
+    const key = KEY_PREFIX + tournamentId;
+    const token = crypto.randomBytes(8).toString("hex");
+    await this.acquire(key, token, tournamentId);
+
+    const renewTimer = setInterval(() => {
+      this.client.eval(RENEW_SCRIPT, { keys: [key], arguments: [token, String(LEASE_MS)] })
+        .then((renewed) => {
+          if (!renewed) console.warn(`[TOURNAMENT LOCK] Lost the lock on tournament ${tournamentId}`);
+        })
+        .catch((err) => console.error(`[TOURNAMENT LOCK] Error renewing the lock on tournament ${tournamentId}:`, err));
+    }, RENEW_INTERVAL_MS);
+
+    try {
+      return await task();
+    } finally {
+      clearInterval(renewTimer);
+      await this.client.eval(RELEASE_SCRIPT, { keys: [key], arguments: [token] })
+        .catch((err) => console.error(`[TOURNAMENT LOCK] Error releasing the lock on tournament ${tournamentId}:`, err));
+    }
+  }
+
+  async acquire(key, token, tournamentId) {
+    const giveUpAt = Date.now() + ACQUIRE_TIMEOUT_MS;
+    for (;;) {
+      if (!this.client.isReady) {
+        throw new Error(`Redis not ready, can't lock tournament ${tournamentId}`);
+      }
+      const acquired = await this.client.set(key, token, { NX: true, PX: LEASE_MS });
+      if (acquired === "OK") return;
+
+      if (Date.now() >= giveUpAt) {
+        throw new Error(`Timed out waiting for the lock on tournament ${tournamentId}`);
+      }
+      await sleep(RETRY_MS);
+    }
+  }
+}
+
+// One per process, shared by every engine
+export const tournamentLock = new TournamentLock();
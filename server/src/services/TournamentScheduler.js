@@ -0,0 +1,262 @@
+import { prisma } from "../config/database.js";
+import { TournamentEngine } from "./TournamentEngine.js";
+import { tournamentClock } from "./TournamentClock.js";
+
+// How often we look for due jobs, so jobs created (or left behind) by
+// another instance get run too. Timers are armed for jobs due before the
+// next look.
+const POLL_MS = 60000;
+
+// A job still RUNNING after this long belonged to an instance that died
+// part way through; it's tried again
+const STALE_MS = 5 * 60 * 1000;
+
+// Failed jobs are retried on the next look, up to this many tries
+export const MAX_JOB_ATTEMPTS = 3;
+
+const engine = new TournamentEngine();
+
+async function updateEmbeds(tournamentId) {
+  try {
+    const { updateTournamentEmbeds } = await import("../discord/bot.js");
+    await updateTournamentEmbeds(tournamentId);
+  } catch (error) {
+    console.error("[SCHEDULER] Error updating Discord embeds:", error);
+  }
+}
+
+async function broadcast(event, payload) {
+  const { getIO } = await import("../modules/socket-handlers/pokerHandler.js");
+  getIO()?.emit(event, payload);
+}
+
+/**
+ * TournamentScheduler: runs ScheduledJob rows when they're due. Jobs are
+ * stored in the database, so they survive restarts; every instance polls
+ * for due jobs, and a job is claimed with a conditional update so only one
+ * instance runs it.
+ *
+ * START_TOURNAMENT closes registration and starts a tournament at its
+ * startTime (see runStart for the minimum-entrants rule);
+ * CREATE_FROM_TEMPLATE creates a recurring template's next tournament (see
+ * TournamentTemplates).
+ */
+export class TournamentScheduler {
+  constructor() {
+    this.timers = new Map();
+    this.pollTimer = null;
+  }
+
+  /**
+   * Re-arm pending jobs after a restart and start polling.
+   */
+  async restore() {
+    const { count } = await prisma.scheduledJob.updateMany({
+      where: { status: "RUNNING", updatedAt: { lt: new Date(Date.now() - STALE_MS) } },
+      data: { status: "PENDING" }
+    });
+    if (count > 0) {
+      console.log(`[SCHEDULER] Re-queued ${count} job(s) left running by a previous instance`);
+    }
+
+    const armed = await this.poll();
+    clearInterval(this.pollTimer);
+    this.pollTimer = setInterval(() => {
+      this.poll().catch((err) => {
+        console.error("[SCHEDULER] Error polling for jobs:", err);
+      });
+    }, POLL_MS);
+
+    console.log(`[SCHEDULER] Restored ${armed} pending job(s)`);
+  }
+
+  /**
+   * Arm a timer for every pending job due before the next poll.
+   * @returns {Promise<number>} how many jobs were armed
+   */
+  async poll() {
+    const jobs = await prisma.scheduledJob.findMany({
+      where: {
+        OR: [
+          { status: "PENDING" },
+          { status: "FAILED", attempts: { lt: MAX_JOB_ATTEMPTS } }
+        ],
+        runAt: { lte: new Date(Date.now() + POLL_MS) }
+      }
+    });
+
+    for (const job of jobs) {
+      this.arm(job);
+    }
+    return jobs.length;
+  }
+
+  /**
+   * Schedule (or reschedule) a tournament's start at its startTime. A
+   * tournament that doesn't start itself has its pending start cancelled.
+   */
+  async scheduleStart(tournament) {
+    await this.cancelJobs({ tournamentId: tournament.id });
+    if (!tournament.autoStart || tournament.type === "SIT_AND_GO") return null;
+
+    const job = await this.scheduleJob({
+      type: "START_TOURNAMENT",
+      tournamentId: tournament.id,
+      runAt: tournament.startTime
+    });
+    console.log(`[SCHEDULER] Tournament ${tournament.id} starts automatically at ${job.runAt.toISOString()}`);
+    return job;
+  }
+
+  /**
+   * Store a job and arm it if it's due soon.
+   * @param {{ type: string, runAt: Date, tournamentId?: string, templateId?: string }} data
+   */
+  async scheduleJob(data) {
+    const job = await prisma.scheduledJob.create({ data });
+    this.arm(job);
+    return job;
+  }
+
+  /**
+   * Cancel the pending jobs matching `where`, e.g. `{ tournamentId }` when
+   * an admin cancels a tournament.
+   */
+  async cancelJobs(where) {
+    const jobs = await prisma.scheduledJob.findMany({
+      where: { ...where, status: { in: ["PENDING", "FAILED"] } },
+      select: { id: true }
+    });
+    for (const job of jobs) {
+      this.disarm(job.id);
+    }
+    await prisma.scheduledJob.updateMany({
+      where: { id: { in: jobs.map((job) => job.id) } },
+      data: { status: "CANCELLED" }
+    });
+  }
+
+  arm(job) {
+    this.disarm(job.id);
+    if (job.runAt.getTime() - Date.now() > POLL_MS) return; // the poll picks it up nearer the time
+
+    const timerId = setTimeout(() => {
+      this.timers.delete(job.id);
+      this.run(job.id).catch((err) => {
+        console.error(`[SCHEDULER] Error running job ${job.id}:`, err);
+      });
+    }, Math.max(0, job.runAt.getTime() - Date.now()));
+
+    this.timers.set(job.id, timerId);
+  }
+
+  disarm(jobId) {
+    clearTimeout(this.timers.get(jobId));
+    this.timers.delete(jobId);
+  }
+
+  /**
+   * Claim a due job and run it. Another instance may have got there first,
+   * or the job may have been cancelled or moved since it was armed.
+   */
+  async run(jobId) {
+    const { count } = await prisma.scheduledJob.updateMany({
+      where: {
+        id: jobId,
+        status: { in: ["PENDING", "FAILED"] },
+        attempts: { lt: MAX_JOB_ATTEMPTS },
+        runAt: { lte: new Date() }
+      },
+      data: { status: "RUNNING", attempts: { increment: 1 } }
+    });
+    if (count === 0) return;
+
+    const job = await prisma.scheduledJob.findUnique({ where: { id: jobId } });
+    try {
+      if (job.type === "START_TOURNAMENT") {
+        await this.runStart(job);
+      } else if (job.type === "CREATE_FROM_TEMPLATE") {
+        const { tournamentTemplates } = await import("./TournamentTemplates.js");
+        await tournamentTemplates.runJob(job);
+      }
+      // runStart may have put the job back for later
+      await prisma.scheduledJob.updateMany({
+        where: { id: jobId, status: "RUNNING" },
+        data: { status: "DONE", lastError: null }
+      });
+    } catch (error) {
+      console.error(`[SCHEDULER] Job ${jobId} (${job.type}) failed:`, error);
+      await prisma.scheduledJob.update({
+        where: { id: jobId },
+        data: { status: "FAILED", lastError: error.message }
+      });
+    }
+  }
+
+  /**
+   * Start a tournament at its scheduled time. With fewer than
+   * `minEntrants` registered it's pushed back (DELAY, while it has delays
+   * left) or cancelled. A tournament an admin has already started or
+   * cancelled is left alone; one they've seated is just started.
+   */
+  async runStart(job) {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: job.tournamentId },
+      include: {
+        _count: { select: { registrations: { where: { status: "CONFIRMED" } } } }
+      }
+    });
+    if (!tournament || !["SCHEDULED", "REGISTERING", "SEATED"].includes(tournament.status)) {
+      console.log(`[SCHEDULER] Tournament ${job.tournamentId} is no longer waiting to start, skipping`);
+      return;
+    }
+
+    const entrants = tournament._count.registrations;
+    if (tournament.status !== "SEATED" && entrants < tournament.minEntrants) {
+      if (tournament.underMinAction === "DELAY" && tournament.startDelays < tournament.maxStartDelays) {
+        await this.delayStart(job, tournament, entrants);
+      } else {
+        await this.cancelUnderMin(tournament, entrants);
+      }
+      return;
+    }
+
+    if (tournament.status !== "SEATED") {
+      await engine.closeRegistration(tournament.id);
+    }
+    await engine.startTournament(tournament.id);
+    console.log(`[SCHEDULER] Started tournament ${tournament.id} with ${entrants} player(s)`);
+  }
+
+  async delayStart(job, tournament, entrants) {
+    const startTime = new Date(Date.now() + tournament.startDelayMinutes * 60 * 1000);
+    await prisma.tournament.update({
+      where: { id: tournament.id },
+      data: { startTime, startDelays: { increment: 1 } }
+    });
+    const rearmed = await prisma.scheduledJob.update({
+      where: { id: job.id },
+      data: { status: "PENDING", runAt: startTime, attempts: 0 }
+    });
+    this.arm(rearmed);
+
+    console.log(`[SCHEDULER] Tournament ${tournament.id} has ${entrants}/${tournament.minEntrants} players, delayed to ${startTime.toISOString()}`);
+    await broadcast("tournament-delayed", { tournamentId: tournament.id, startTime: startTime.toISOString() });
+    await updateEmbeds(tournament.id);
+  }
+
+  async cancelUnderMin(tournament, entrants) {
+    await prisma.tournament.update({
+      where: { id: tournament.id },
+      data: { status: "CANCELLED" }
+    });
+    tournamentClock.stop(tournament.id);
+
+    console.log(`[SCHEDULER] Tournament ${tournament.id} has ${entrants}/${tournament.minEntrants} players, cancelled`);
+    await broadcast("tournament-cancelled", { tournamentId: tournament.id, reason: "NOT_ENOUGH_PLAYERS" });
+    await updateEmbeds(tournament.id);
+  }
+}
+
+// One scheduler per process, shared by the routes and the boot sequence
+export const tournamentScheduler = new TournamentScheduler();
@@ -1,4 +1,201 @@
 import { prisma } from "../config/database.js";
+import { clockPayload, purchaseError } from "./TournamentClock.js";
+import { calculatePayouts, parsePayoutStructure, totalPrizePool, validatePayoutStructure } from "./PrizeStructure.js";
+import { parseDeal } from "./DealCalculator.js";
+import { TournamentEngine } from "./TournamentEngine.js";
+import { tournamentScheduler } from "./TournamentScheduler.js";
+import { postTournamentEmbed } from "../discord/bot.js";
+
+const engine = new TournamentEngine();
+
+/**
+ * Check the settings for a new tournament (the admin create form's fields,
+ * see POST /api/admin/tournaments) and fill in the defaults.
+ * @returns {{ data?: object, error?: string }} the Tournament row's fields, or what's wrong
+ */
+export function tournamentData(settings) {
+  const {
+    name,
+    description,
+    startTime,
+    maxPlayers = 100,
+    seatsPerTable = 9,
+    startingChips = 10000,
+    blindLevelsJson,
+    prizePlaces = 3,
+    prizePool = 0,
+    payouts = null, // { type: "PERCENT" | "FIXED", amounts } - null for the standard percentages
+    lateRegLevels = 0, // levels late registration stays open for
+    maxReentries = 0,
+    rebuyLevels = 0, // levels rebuys stay open for
+    maxRebuys = null, // per entry; null = no limit
+    rebuyChips = startingChips,
+    rebuyMaxStack = null, // biggest stack that can rebuy; null = the starting stack
+    rebuyCost = 0, // added to the prize pool per rebuy
+    addOnChips = 0, // 0 = no add-on
+    addOnCost = 0,
+    bountyType = null, // "STANDARD" | "PROGRESSIVE" - null for no bounties
+    bountyAmount = 0, // on each entry's head
+    type = "MTT", // "MTT" | "SIT_AND_GO"
+    autoRespawn = false, // Sit & Go: open a fresh copy when it fills
+    autoStart = false, // close registration and start at startTime
+    minEntrants = 2, // fewer registered at startTime and the rule below applies
+    underMinAction = "CANCEL", // "CANCEL" | "DELAY"
+    startDelayMinutes = 15,
+    maxStartDelays = 0, // DELAY: times it can be pushed back before it's cancelled
+  } = settings;
+
+  if (!["MTT", "SIT_AND_GO"].includes(type)) {
+    return { error: "Tournament type must be MTT or SIT_AND_GO" };
+  }
+  const isSitAndGo = type === "SIT_AND_GO";
+
+  // A Sit & Go starts when it fills, not at a set time
+  if (!name || (!startTime && !isSitAndGo)) {
+    return { error: "Name and startTime are required" };
+  }
+  if (isSitAndGo && !(Number.isInteger(maxPlayers) && maxPlayers >= 2)) {
+    return { error: "A Sit & Go needs at least 2 seats" };
+  }
+
+  if (!["CANCEL", "DELAY"].includes(underMinAction)) {
+    return { error: "Under-minimum action must be CANCEL or DELAY" };
+  }
+  if (!(Number.isInteger(minEntrants) && minEntrants >= 2)) {
+    return { error: "Minimum entrants must be a whole number of at least 2" };
+  }
+  if (autoStart && minEntrants > maxPlayers) {
+    return { error: "Minimum entrants can't be more than max players" };
+  }
+  if (!(Number.isInteger(startDelayMinutes) && startDelayMinutes >= 1 && Number.isInteger(maxStartDelays) && maxStartDelays >= 0)) {
+    return { error: "Start delays must be whole numbers (at least 1 minute each)" };
+  }
+
+  const payoutsError = validatePayoutStructure(payouts, prizePlaces);
+  if (payoutsError) {
+    return { error: payoutsError };
+  }
+
+  if (![lateRegLevels, maxReentries].every((n) => Number.isInteger(n) && n >= 0)) {
+    return { error: "Late registration levels and re-entries must be whole numbers of zero or more" };
+  }
+
+  const rebuySettings = [rebuyLevels, rebuyChips, rebuyCost, addOnChips, addOnCost, maxRebuys ?? 0, rebuyMaxStack ?? 0];
+  if (!rebuySettings.every((n) => Number.isInteger(n) && n >= 0)) {
+    return { error: "Rebuy and add-on settings must be whole numbers of zero or more" };
+  }
+
+  if (bountyType !== null && !["STANDARD", "PROGRESSIVE"].includes(bountyType)) {
+    return { error: "Bounty type must be STANDARD or PROGRESSIVE" };
+  }
+  if (bountyType !== null && !(Number.isInteger(bountyAmount) && bountyAmount > 0)) {
+    return { error: "A bounty tournament needs a bounty of at least 1" };
+  }
+
+  // Default blind levels if not provided
+  const defaultBlindLevels = [
+    { level: 1, smallBlind: 25, bigBlind: 50, duration: 10 },
+    { level: 2, smallBlind: 50, bigBlind: 100, duration: 10 },
+    { level: 3, smallBlind: 100, bigBlind: 200, duration: 10 },
+    { level: 4, smallBlind: 150, bigBlind: 300, duration: 10 },
+    { level: 5, smallBlind: 200, bigBlind: 400, duration: 10 },
+    { level: 6, smallBlind: 250, bigBlind: 500, duration: 10, breakAfter: 5 },
+    { level: 7, smallBlind: 300, bigBlind: 600, duration: 10 },
+    { level: 8, smallBlind: 400, bigBlind: 800, duration: 10 },
+    { level: 9, smallBlind: 500, bigBlind: 1000, duration: 10 },
+    { level: 10, smallBlind: 600, bigBlind: 1200, duration: 10 },
+    { level: 11, smallBlind: 750, bigBlind: 1500, duration: 10 },
+    { level: 12, smallBlind: 1000, bigBlind: 2000, duration: 10, breakAfter: 5 },
+    { level: 13, smallBlind: 1250, bigBlind: 2500, duration: 10 },
+    { level: 14, smallBlind: 1500, bigBlind: 3000, duration: 10 },
+    { level: 15, smallBlind: 2000, bigBlind: 4000, duration: 10 },
+    { level: 16, smallBlind: 2500, bigBlind: 5000, duration: 10 },
+    { level: 17, smallBlind: 3000, bigBlind: 6000, duration: 10 },
+    { level: 18, smallBlind: 4000, bigBlind: 8000, duration: 10, breakAfter: 5 },
+    { level: 19, smallBlind: 5000, bigBlind: 10000, duration: null }, // Infinite
+  ];
+
+  const blindLevels = blindLevelsJson
+    ? typeof blindLevelsJson === "string"
+      ? JSON.parse(blindLevelsJson)
+      : blindLevelsJson
+    : defaultBlindLevels;
+
+  return {
+    data: {
+      name,
+      description,
+      startTime: startTime ? new Date(startTime) : new Date(),
+      type,
+      autoRespawn: isSitAndGo && !!autoRespawn,
+      autoStart: !isSitAndGo && !!autoStart,
+      minEntrants,
+      underMinAction,
+      startDelayMinutes,
+      maxStartDelays,
+      maxPlayers,
+      seatsPerTable,
+      startingChips,
+      blindLevelsJson: JSON.stringify(blindLevels),
+      prizePlaces,
+      prizePool,
+      payoutsJson: payouts ? JSON.stringify(payouts) : null,
+      lateRegLevels,
+      maxReentries,
+      rebuyLevels,
+      maxRebuys,
+      rebuyChips,
+      rebuyMaxStack,
+      rebuyCost,
+      addOnChips,
+      addOnCost,
+      bountyType,
+      bountyAmount: bountyType ? bountyAmount : 0,
+    }
+  };
+}
+
+/**
+ * The settings a tournament was created with, in the shape tournamentData
+ * takes (less its name, description and start time): what duplicating it
+ * or saving it as a template copies.
+ */
+export function tournamentSettings(tournament) {
+  let blindLevels = [];
+  try {
+    blindLevels = JSON.parse(tournament.blindLevelsJson || "[]");
+  } catch (e) {
+    blindLevels = [];
+  }
+
+  return {
+    maxPlayers: tournament.maxPlayers,
+    seatsPerTable: tournament.seatsPerTable,
+    startingChips: tournament.startingChips,
+    blindLevelsJson: blindLevels,
+    prizePlaces: tournament.prizePlaces,
+    prizePool: tournament.prizePool,
+    payouts: parsePayoutStructure(tournament),
+    lateRegLevels: tournament.lateRegLevels,
+    maxReentries: tournament.maxReentries,
+    rebuyLevels: tournament.rebuyLevels,
+    maxRebuys: tournament.maxRebuys,
+    rebuyChips: tournament.rebuyChips,
+    rebuyMaxStack: tournament.rebuyMaxStack,
+    rebuyCost: tournament.rebuyCost,
+    addOnChips: tournament.addOnChips,
+    addOnCost: tournament.addOnCost,
+    bountyType: tournament.bountyType,
+    bountyAmount: tournament.bountyAmount,
+    type: tournament.type,
+    autoRespawn: tournament.autoRespawn,
+    autoStart: tournament.autoStart,
+    minEntrants: tournament.minEntrants,
+    underMinAction: tournament.underMinAction,
+    startDelayMinutes: tournament.startDelayMinutes,
+    maxStartDelays: tournament.maxStartDelays
+  };
+}
 
 export class TournamentService {
   async listTournaments() {
@@ -129,6 +326,8 @@ export class TournamentService {
           games: {
             include: {
               players: {
+                // Hole cards are only ever sent to their owner over the socket
+                omit: { holeCards: true },
                 include: {
                   user: {
                     select: {
@@ -149,6 +348,20 @@ export class TournamentService {
               server: true,
             },
           },
+          results: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  username: true,
+                  avatarUrl: true,
+                },
+              },
+            },
+            orderBy: {
+              place: 'asc',
+            },
+          },
           createdBy: {
             select: {
               id: true,
@@ -171,10 +384,41 @@ export class TournamentService {
           blindLevels = [];
         }
 
+        // Payouts as planned until players are seated, then for the field
+        // that took a seat (a small field pays fewer places)
+        const entries = (tournament.games || []).flatMap((game) => game.players);
+        const entrants = entries.length || null;
+        // Rebuys and add-ons taken so far add to the pool
+        const purchases = {
+          rebuys: entries.reduce((sum, p) => sum + p.rebuys, 0),
+          addOns: entries.filter((p) => p.addOn).length
+        };
+
+        // What each entry still playing could buy right now (see TournamentEngine.buyChips)
+        const games = (tournament.games || []).map((game) => ({
+          ...game,
+          players: game.players.map((player) => {
+            const playing = game.status === "ACTIVE" && player.status !== "ELIMINATED";
+            return {
+              ...player,
+              canRebuy: playing && !purchaseError(tournament, player, "REBUY"),
+              canAddOn: playing && !purchaseError(tournament, player, "ADD_ON")
+            };
+          })
+        }));
+
         return {
           ...tournament,
+          games,
           startedAt: tournament.startedAt, // Include startedAt for blind timer
           blindLevels: blindLevels, // Add parsed blind levels
+          clock: tournament.status === "RUNNING" ? clockPayload(tournament) : null,
+          payoutStructure: parsePayoutStructure(tournament),
+          prizePoolTotal: totalPrizePool(tournament, purchases),
+          rebuysTaken: purchases.rebuys,
+          addOnsTaken: purchases.addOns,
+          payouts: calculatePayouts(tournament, entrants, purchases),
+          deal: parseDeal(tournament),
           registeredCount: tournament.registrations?.filter(
             (r) => r.status === "CONFIRMED" || r.status === "PENDING"
           ).length || 0,
@@ -206,14 +450,126 @@ export class TournamentService {
     }
   }
 
-  async createTournament(data) {
-    // TODO: add validation and admin auth upstream
-    return prisma.tournament.create({
-      data
+  /**
+   * Create a tournament from the admin create form's settings (see
+   * tournamentData), schedule its start and post it to the given Discord
+   * servers.
+   * @param {{ createdById: string, serverIds?: string[], templateId?: string }} options
+   * @returns {Promise<{ tournament?: object, error?: string }>}
+   */
+  async createTournament(settings, { createdById, serverIds = [], templateId = null }) {
+    const { data, error } = tournamentData(settings);
+    if (error) {
+      return { error };
+    }
+
+    const tournament = await prisma.tournament.create({
+      data: {
+        ...data,
+        templateId,
+        createdById
+      },
+      include: {
+        createdBy: {
+          select: {
+            id: true,
+            username: true,
+            avatarUrl: true
+          }
+        }
+      }
     });
+
+    if (tournament.autoStart) {
+      try {
+        await tournamentScheduler.scheduleStart(tournament);
+      } catch (error) {
+        console.error("[TOURNAMENT] Error scheduling tournament start:", error);
+      }
+    }
+
+    // Create TournamentPost entries immediately for selected servers (even if posting fails)
+    if (serverIds && serverIds.length > 0) {
+      try {
+        // Find Discord servers by serverId
+        const discordServers = await prisma.discordServer.findMany({
+          where: {
+            serverId: { in: serverIds },
+            enabled: true,
+            setupCompleted: true
+          }
+        });
+
+        // Create post entries for each server (messageId will be null until post succeeds)
+        await Promise.all(
+          discordServers.map((server) =>
+            prisma.tournamentPost.upsert({
+              where: {
+                tournamentId_serverId: {
+                  tournamentId: tournament.id,
+                  serverId: server.id
+                }
+              },
+              update: {}, // No update needed if exists
+              create: {
+                tournamentId: tournament.id,
+                serverId: server.id,
+                messageId: null, // Will be set when embed is successfully posted
+                postedAt: null
+              }
+            })
+          )
+        );
+
+        console.log(`[TOURNAMENT] Created TournamentPost entries for ${discordServers.length} server(s)`);
+      } catch (error) {
+        console.error("[TOURNAMENT] Error creating tournament post entries:", error);
+        // Continue even if post creation fails
+      }
+
+      // Now attempt to post tournament embed to Discord
+      try {
+        await postTournamentEmbed(tournament, serverIds);
+      } catch (error) {
+        console.error("[TOURNAMENT] Error posting tournament embed:", error);
+        // Don't fail the tournament creation if embed posting fails
+        // Posts are already created, so servers will still show
+      }
+    }
+
+    return { tournament };
   }
 
+  /**
+   * Register a player. Once players are seated, registering (late, or
+   * re-entering after busting) means taking a seat straight away.
+   * @param {string} userId - the logged-in player; never one named in a request body
+   * @returns the registration, the new Player row for a late entry, or `{ error }`
+   */
   async registerForTournament({ tournamentId, userId }) {
+    // Only ever the caller's own session, so nobody can be signed up for someone else
+    if (!userId) {
+      return { error: "You need to be logged in to register" };
+    }
+
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: { status: true, type: true }
+    });
+    if (!tournament) {
+      return { error: "Tournament not found" };
+    }
+    // The registration that fills a Sit & Go seats and starts it
+    if (tournament.type === "SIT_AND_GO" && (tournament.status === "SCHEDULED" || tournament.status === "REGISTERING")) {
+      return engine.registerForSitAndGo(tournamentId, userId);
+    }
+    if (tournament.status === "SEATED" || tournament.status === "RUNNING") {
+      return engine.lateRegister(tournamentId, userId);
+    }
+    if (tournament.status === "COMPLETED" || tournament.status === "CANCELLED") {
+      return { error: "This tournament is no longer accepting registrations" };
+    }
+
     // Check if already registered first to avoid race conditions
     const existing = await prisma.tournamentRegistration.findUnique({
       where: {
@@ -0,0 +1,319 @@
+import { prisma } from "../config/database.js";
+import { TournamentService, tournamentData } from "./TournamentService.js";
+import { tournamentScheduler, MAX_JOB_ATTEMPTS } from "./TournamentScheduler.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const service = new TournamentService();
+
+/**
+ * A template's create-form settings (see TournamentService.tournamentData).
+ */
+export function parseTemplateSettings(template) {
+  try {
+    return JSON.parse(template.settingsJson);
+  } catch (e) {
+    console.error(`[TEMPLATES] Failed to parse settings for template ${template.id}:`, e);
+    return {};
+  }
+}
+
+function parseServerIds(template) {
+  try {
+    return JSON.parse(template.serverIdsJson || "[]");
+  } catch (e) {
+    console.error(`[TEMPLATES] Failed to parse servers for template ${template.id}:`, e);
+    return [];
+  }
+}
+
+function isValidTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Check a template sent by an admin.
+ * @returns {string|null} what's wrong with it, or null if it's usable
+ */
+export function validateTemplate({ name, settings, recurring, daysOfWeek, timeOfDay, timeZone, leadHours }) {
+  if (!name) return "Templates need a name";
+  if (!settings || typeof settings !== "object") return "Templates need their tournament settings";
+
+  const { error } = tournamentData({ ...settings, name, startTime: new Date() });
+  if (error) return error;
+
+  if (!recurring) return null;
+  if (settings.type === "SIT_AND_GO") {
+    return "A Sit & Go starts when it fills, so it can't be scheduled";
+  }
+  if (!Array.isArray(daysOfWeek) || daysOfWeek.length === 0 ||
+      !daysOfWeek.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)) {
+    return "Pick at least one day of the week (0 = Sunday to 6 = Saturday)";
+  }
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(timeOfDay || "")) {
+    return "Time of day must be HH:MM (24-hour)";
+  }
+  if (!isValidTimeZone(timeZone)) {
+    return `Unknown time zone: ${timeZone}`;
+  }
+  // The job runs at the start time minus the lead; with no lead it would
+  // always be too late to create the tournament
+  if (!(Number.isInteger(leadHours) && leadHours >= 1)) {
+    return "Lead time must be a whole number of hours, at least 1";
+  }
+  return null;
+}
+
+/**
+ * How far `timeZone`'s clocks are ahead of UTC at `date`, in ms.
+ */
+function zoneOffset(date, timeZone) {
+  const at = Math.floor(date.getTime() / 1000) * 1000;
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric"
+  }).formatToParts(new Date(at));
+  const get = (type) => Number(parts.find((p) => p.type === type).value);
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")) - at;
+}
+
+/**
+ * The moment the clocks in `timeZone` read `hours:minutes` on the given
+ * local day. A time skipped when the clocks go forward comes out an hour
+ * early.
+ */
+function zonedTime(year, month, day, hours, minutes, timeZone) {
+  const wall = Date.UTC(year, month, day, hours, minutes);
+  const guess = wall - zoneOffset(new Date(wall), timeZone);
+  // The offset at the answer can differ from the one at our guess across a change
+  return new Date(wall - zoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * The first start on a recurring template's schedule after `after`.
+ */
+export function nextOccurrence(template, after = new Date()) {
+  const [hours, minutes] = template.timeOfDay.split(":").map(Number);
+
+  // Its UTC fields are the local date and time in the template's zone
+  const local = new Date(after.getTime() + zoneOffset(after, template.timeZone));
+  // A week and a day reaches every weekday, including today's once its time has passed
+  for (let i = 0; i <= 7; i++) {
+    const day = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate() + i));
+    if (!template.daysOfWeek.includes(day.getUTCDay())) continue;
+
+    const start = zonedTime(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hours, minutes, template.timeZone);
+    if (start > after) return start;
+  }
+  return null;
+}
+
+/**
+ * A template as the admin panel sees it, with its next scheduled start.
+ */
+export function templatePayload(template) {
+  const { settingsJson, serverIdsJson, ...rest } = template;
+  return {
+    ...rest,
+    settings: parseTemplateSettings(template),
+    serverIds: parseServerIds(template),
+    nextStartTime: template.recurring ? nextOccurrence(template) : null
+  };
+}
+
+/**
+ * TournamentTemplates: saved tournament setups (structure, stack, payouts,
+ * Discord servers) that tournaments can be created from, by hand or on a
+ * weekly schedule. A recurring template keeps one CREATE_FROM_TEMPLATE job
+ * pending (see TournamentScheduler): at `leadHours` before its next start
+ * it creates and posts that tournament, then queues the start after.
+ */
+export class TournamentTemplates {
+  /**
+   * @param {object} input - name, description, settings, serverIds and the recurrence fields
+   * @returns {Promise<{ template?: object, error?: string }>}
+   */
+  async create(input, createdById) {
+    const error = validateTemplate(input);
+    if (error) return { error };
+
+    const template = await prisma.tournamentTemplate.create({
+      data: { ...this.templateData(input), createdById }
+    });
+    console.log(`[TEMPLATES] Created template ${template.id} (${template.name})`);
+
+    await this.schedule(template);
+    return { template };
+  }
+
+  /**
+   * Change a template; fields left out keep their values.
+   * @returns {Promise<{ template?: object, error?: string }>} `template` is null if there's no such template
+   */
+  async update(templateId, input) {
+    const existing = await prisma.tournamentTemplate.findUnique({ where: { id: templateId } });
+    if (!existing) return { template: null };
+
+    const merged = {
+      name: existing.name,
+      description: existing.description,
+      settings: parseTemplateSettings(existing),
+      serverIds: parseServerIds(existing),
+      recurring: existing.recurring,
+      daysOfWeek: existing.daysOfWeek,
+      timeOfDay: existing.timeOfDay,
+      timeZone: existing.timeZone,
+      leadHours: existing.leadHours,
+      ...input
+    };
+    const error = validateTemplate(merged);
+    if (error) return { error };
+
+    const template = await prisma.tournamentTemplate.update({
+      where: { id: templateId },
+      data: this.templateData(merged)
+    });
+
+    // The schedule may have moved, so the pending job is replaced
+    await this.schedule(template);
+    return { template };
+  }
+
+  /**
+   * Delete a template. Tournaments created from it are kept.
+   * @returns {Promise<boolean>} false if there's no such template
+   */
+  async remove(templateId) {
+    const existing = await prisma.tournamentTemplate.findUnique({ where: { id: templateId } });
+    if (!existing) return false;
+
+    await tournamentScheduler.cancelJobs({ templateId });
+    await prisma.tournamentTemplate.delete({ where: { id: templateId } });
+    console.log(`[TEMPLATES] Deleted template ${templateId}`);
+    return true;
+  }
+
+  templateData({ name, description, settings, serverIds, recurring, daysOfWeek, timeOfDay, timeZone, leadHours }) {
+    return {
+      name,
+      description: description || null,
+      settingsJson: JSON.stringify(settings),
+      serverIdsJson: JSON.stringify(Array.isArray(serverIds) ? serverIds : []),
+      recurring: !!recurring,
+      daysOfWeek: recurring ? [...new Set(daysOfWeek)].sort((a, b) => a - b) : [],
+      timeOfDay: recurring ? timeOfDay : null,
+      timeZone: timeZone || "UTC",
+      leadHours: leadHours ?? 24
+    };
+  }
+
+  /**
+   * Create a tournament from a template, starting at `startTime`, and post
+   * it to the template's Discord servers.
+   * @returns {Promise<{ tournament?: object, error?: string }>}
+   */
+  createTournament(template, startTime) {
+    return service.createTournament(
+      {
+        ...parseTemplateSettings(template),
+        name: template.name,
+        description: template.description,
+        startTime
+      },
+      {
+        createdById: template.createdById,
+        serverIds: parseServerIds(template),
+        templateId: template.id
+      }
+    );
+  }
+
+  /**
+   * Queue the job that creates a recurring template's first tournament
+   * starting after `after` (replacing any it had pending).
+   */
+  async schedule(template, after = new Date()) {
+    await tournamentScheduler.cancelJobs({ templateId: template.id, type: "CREATE_FROM_TEMPLATE" });
+    if (!template.recurring) return null;
+
+    const startTime = nextOccurrence(template, after);
+    if (!startTime) return null;
+
+    const job = await tournamentScheduler.scheduleJob({
+      type: "CREATE_FROM_TEMPLATE",
+      templateId: template.id,
+      runAt: new Date(startTime.getTime() - template.leadHours * HOUR_MS)
+    });
+    console.log(`[TEMPLATES] Template ${template.id}'s next tournament starts ${startTime.toISOString()}, created ${job.runAt.toISOString()}`);
+    return job;
+  }
+
+  /**
+   * Run a CREATE_FROM_TEMPLATE job: create the tournament it was queued for
+   * (unless it's already there, or its start has passed while the server
+   * was down), then queue the next one.
+   */
+  async runJob(job) {
+    const template = await prisma.tournamentTemplate.findUnique({ where: { id: job.templateId } });
+    if (!template?.recurring) {
+      console.log(`[TEMPLATES] Template ${job.templateId} no longer recurs, skipping`);
+      return;
+    }
+
+    const startTime = new Date(job.runAt.getTime() + template.leadHours * HOUR_MS);
+    const existing = await prisma.tournament.findFirst({
+      where: { templateId: template.id, startTime }
+    });
+
+    if (startTime <= new Date()) {
+      console.log(`[TEMPLATES] Missed template ${template.id}'s tournament at ${startTime.toISOString()}`);
+    } else if (!existing) {
+      const { tournament, error } = await this.createTournament(template, startTime);
+      if (error) {
+        // The settings were valid when saved; the job fails so it shows up
+        throw new Error(`Template ${template.id} no longer makes a valid tournament: ${error}`);
+      }
+      console.log(`[TEMPLATES] Created tournament ${tournament.id} from template ${template.id}`);
+    }
+
+    await this.schedule(template, new Date(Math.max(startTime.getTime(), Date.now())));
+  }
+
+  /**
+   * Queue every recurring template that has nothing pending, e.g. after its
+   * job failed for good. Called at boot.
+   */
+  async restore() {
+    const templates = await prisma.tournamentTemplate.findMany({
+      where: {
+        recurring: true,
+        jobs: {
+          none: {
+            OR: [
+              { status: { in: ["PENDING", "RUNNING"] } },
+              { status: "FAILED", attempts: { lt: MAX_JOB_ATTEMPTS } }
+            ]
+          }
+        }
+      }
+    });
+    for (const template of templates) {
+      await this.schedule(template);
+    }
+    console.log(`[TEMPLATES] Queued ${templates.length} recurring template(s) with nothing pending`);
+  }
+}
+
+// Shared by the admin routes and the scheduler
+export const tournamentTemplates = new TournamentTemplates();
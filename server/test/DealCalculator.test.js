@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { icmEquities, chipChopEquities, MAX_ICM_PLAYERS } from "../src/services/DealCalculator.js";
+
+/** @param {number[]} values */
+const sum = (values) => values.reduce((total, v) => total + v, 0);
+
+describe("ICM", () => {
+  it("adds up to the prizes still to be paid", () => {
+    const equities = icmEquities([5000, 3000, 2000], [500, 300, 200]);
+    assert.equal(sum(equities), 1000);
+    assert.ok(equities[0] > equities[1] && equities[1] > equities[2]);
+  });
+
+  it("works heads-up equity out from the chances of winning", () => {
+    // 3/4 to win: 0.75 * 700 + 0.25 * 300 and the other way round
+    assert.deepEqual(icmEquities([3000, 1000], [700, 300]), [600, 400]);
+  });
+
+  it("is worth less than a chip chop to the big stack", () => {
+    const stacks = [8000, 1000, 1000];
+    const prizes = [500, 300, 200];
+    assert.ok(icmEquities(stacks, prizes)[0] < chipChopEquities(stacks, prizes)[0]);
+  });
+
+  it("rounds equal stacks to whole amounts, the odd one to the first player", () => {
+    assert.deepEqual(icmEquities([1000, 1000, 1000], [500, 300, 200]), [334, 333, 333]);
+  });
+
+  it("only counts the prizes the players left can win", () => {
+    assert.equal(sum(icmEquities([2000, 1000], [500, 300, 200])), 800);
+  });
+
+  it("refuses more players than it can work out", () => {
+    const stacks = new Array(MAX_ICM_PLAYERS + 1).fill(1000);
+    assert.throws(() => icmEquities(stacks, [100]));
+  });
+});
+
+describe("chip chop", () => {
+  it("splits the prizes in proportion to unequal stacks", () => {
+    assert.deepEqual(chipChopEquities([6000, 3000, 1000], [500, 300, 200]), [600, 300, 100]);
+  });
+
+  it("gives the leftover to the biggest fractions", () => {
+    assert.deepEqual(chipChopEquities([2000, 1000], [100]), [67, 33]);
+  });
+});
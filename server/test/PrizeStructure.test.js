@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  placesPaidForField,
+  standardPercentages,
+  calculatePayouts,
+  prizesForResults
+} from "../src/services/PrizeStructure.js";
+
+/** @param {Array<{ amount: number }>} payouts */
+const amounts = (payouts) => payouts.map((p) => p.amount);
+
+/** @param {number[]} values */
+const sum = (values) => values.reduce((total, v) => total + v, 0);
+
+describe("standard places paid", () => {
+  it("pays fewer places for a small field", () => {
+    assert.equal(placesPaidForField(0), 0);
+    assert.equal(placesPaidForField(2), 1);
+    assert.equal(placesPaidForField(6), 2);
+    assert.equal(placesPaidForField(9), 3);
+    assert.equal(placesPaidForField(18), 4);
+    assert.equal(placesPaidForField(27), 5);
+  });
+
+  it("pays 15% of a bigger field, rounded up", () => {
+    assert.equal(placesPaidForField(28), 5);
+    assert.equal(placesPaidForField(100), 15);
+  });
+
+  it("weights places past the templates to add up to 100%", () => {
+    const percents = standardPercentages(12);
+    assert.equal(percents.length, 12);
+    assert.ok(Math.abs(sum(percents) - 100) < 0.001);
+    assert.ok(percents.every((p, i) => i === 0 || p <= percents[i - 1]));
+  });
+});
+
+describe("payouts", () => {
+  it("pays the standard percentages of the pool", () => {
+    const payouts = calculatePayouts({ prizePlaces: 3, prizePool: 1000 }, 9);
+    assert.deepEqual(amounts(payouts), [500, 300, 200]);
+  });
+
+  it("gives first place what rounding down leaves over", () => {
+    const payouts = calculatePayouts({ prizePlaces: 3, prizePool: 1001 }, 9);
+    assert.deepEqual(amounts(payouts), [501, 300, 200]);
+    assert.equal(sum(amounts(payouts)), 1001);
+  });
+
+  it("pays only the places the field covers", () => {
+    const payouts = calculatePayouts({ prizePlaces: 5, prizePool: 1000 }, 5);
+    assert.deepEqual(amounts(payouts), [650, 350]);
+  });
+
+  it("adds rebuys and add-ons to the pool", () => {
+    const tournament = { prizePlaces: 3, prizePool: 1000, rebuyCost: 100, addOnCost: 50 };
+    const payouts = calculatePayouts(tournament, 9, { rebuys: 2, addOns: 2 });
+    assert.equal(sum(amounts(payouts)), 1300);
+  });
+
+  it("scales custom percentages back up when fewer places are paid", () => {
+    const tournament = {
+      prizePlaces: 3,
+      prizePool: 1000,
+      payoutsJson: JSON.stringify({ type: "PERCENT", amounts: [50, 30, 20] })
+    };
+    assert.deepEqual(amounts(calculatePayouts(tournament, 2)), [625, 375]);
+  });
+});
+
+describe("prizes for results", () => {
+  const payouts = [
+    { place: 1, amount: 501 },
+    { place: 2, amount: 301 },
+    { place: 3, amount: 200 }
+  ];
+
+  it("splits the places a tie covers, the odd chip to the first listed", () => {
+    const prizes = prizesForResults(
+      [{ id: "a", place: 1 }, { id: "b", place: 2 }, { id: "c", place: 2 }],
+      payouts
+    );
+    assert.equal(prizes.get("a"), 501);
+    assert.equal(prizes.get("b"), 251);
+    assert.equal(prizes.get("c"), 250);
+  });
+
+  it("pays nothing outside the prize places", () => {
+    const prizes = prizesForResults([{ id: "d", place: 4 }], payouts);
+    assert.equal(prizes.get("d"), 0);
+  });
+});
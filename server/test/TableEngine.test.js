@@ -0,0 +1,367 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  createHand,
+  applyAction,
+  getLegalActions,
+  validateAction,
+  nextButtonPositions
+} from "../src/modules/poker/TableEngine.js";
+import { buildPots, awardPots } from "../src/modules/poker/PotCalculator.js";
+
+/** @typedef {import("../src/modules/poker/TableEngine.js").TableState} TableState */
+/** @typedef {import("../src/modules/poker/TableEngine.js").SeatState} SeatState */
+/** @typedef {import("../src/modules/poker/TableEngine.js").ActionType} ActionType */
+
+const SUITS = { c: "CLUBS", d: "DIAMONDS", h: "HEARTS", s: "SPADES" };
+const RANKS = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K", "A"];
+
+/**
+ * "As" -> ace of spades, "10h" -> ten of hearts
+ * @param {string} code
+ */
+function card(code) {
+  const suit = SUITS[/** @type {keyof typeof SUITS} */ (code.slice(-1))];
+  return { suit, rank: code.slice(0, -1) };
+}
+
+/**
+ * A full deck with `top` dealt first (hole cards go round the table one at a
+ * time; each street burns a card) and the rest in a fixed order.
+ * @param {string[]} top
+ */
+function deck(top = []) {
+  const first = top.map(card);
+  const rest = Object.values(SUITS)
+    .flatMap((suit) => RANKS.map((rank) => ({ suit, rank })))
+    .filter((c) => !first.some((f) => f.suit === c.suit && f.rank === c.rank));
+  return [...first, ...rest];
+}
+
+/**
+ * @param {number} seatNumber
+ * @param {number} chips
+ * @returns {SeatState}
+ */
+function seat(seatNumber, chips) {
+  return {
+    id: `p${seatNumber}`,
+    userId: `u${seatNumber}`,
+    seatNumber,
+    chips,
+    status: "ACTIVE",
+    holeCards: [],
+    contributions: 0
+  };
+}
+
+/**
+ * @param {TableState} state
+ * @param {number} seatNumber
+ */
+function chipsAt(state, seatNumber) {
+  return /** @type {SeatState} */ (state.players.find((p) => p.seatNumber === seatNumber)).chips;
+}
+
+/**
+ * @param {TableState} state
+ * @param {number} seatNumber
+ */
+function legalTypes(state, seatNumber) {
+  return getLegalActions(state, seatNumber).map((a) => a.type);
+}
+
+/**
+ * Apply moves in order, each as [seat, action, amount?].
+ * @param {TableState} state
+ * @param {Array<[number, ActionType, number?]>} moves
+ */
+function play(state, moves) {
+  /** @type {import("../src/modules/poker/TableEngine.js").TableEvent[]} */
+  const events = [];
+  for (const [seatNumber, action, amount] of moves) {
+    const result = applyAction(state, { userId: `u${seatNumber}`, action, amount });
+    state = result.state;
+    events.push(...result.events);
+  }
+  return { state, events };
+}
+
+// Three-handed with the button on seat 3: seat 2 posts the small blind,
+// seat 1 the big blind, and seat 3 acts first preflop
+const THREE_HANDED = { dealerSeat: 3, smallBlindSeat: 2, bigBlindSeat: 1 };
+
+describe("short all-in raises", () => {
+  /** @param {number} smallBlindStack */
+  const raisedThenShoved = (smallBlindStack) => {
+    const { state } = createHand({
+      handNumber: 1,
+      players: [seat(1, 1000), seat(2, smallBlindStack), seat(3, 1000)],
+      positions: THREE_HANDED,
+      smallBlind: 10,
+      bigBlind: 20,
+      deck: deck()
+    });
+    // Seat 3 raises to 100 (a raise of 80), seat 2 shoves, the big blind calls
+    return play(state, [[3, "RAISE", 100], [2, "ALL_IN"], [1, "CALL"]]).state;
+  };
+
+  it("doesn't reopen the betting for a player who already acted", () => {
+    // All-in to 140 is a raise of 40, short of the 80 minimum
+    const state = raisedThenShoved(140);
+
+    assert.equal(state.currentTurnUserId, "u3");
+    assert.deepEqual(legalTypes(state, 3), ["FOLD", "CALL"]);
+    assert.ok(validateAction(state, { userId: "u3", action: "RAISE", amount: 300 }));
+    assert.ok(validateAction(state, { userId: "u3", action: "ALL_IN" }));
+  });
+
+  it("lets a player who hasn't acted yet raise over it", () => {
+    const { state } = createHand({
+      handNumber: 1,
+      players: [seat(1, 1000), seat(2, 140), seat(3, 1000)],
+      positions: THREE_HANDED,
+      smallBlind: 10,
+      bigBlind: 20,
+      deck: deck()
+    });
+    const afterShove = play(state, [[3, "RAISE", 100], [2, "ALL_IN"]]).state;
+
+    // The big blind hasn't acted: they can make a full raise over the 140
+    const raise = getLegalActions(afterShove, 1).find((a) => a.type === "RAISE");
+    assert.deepEqual(raise, { type: "RAISE", min: 220, max: 1000 });
+  });
+
+  it("reopens the betting when the all-in is a full raise", () => {
+    // All-in to 180 is a raise of 80
+    const state = raisedThenShoved(180);
+
+    assert.equal(state.currentTurnUserId, "u3");
+    assert.deepEqual(legalTypes(state, 3), ["FOLD", "CALL", "RAISE", "ALL_IN"]);
+  });
+
+  it("adds up incomplete raises that together make a full raise", () => {
+    /**
+     * Seat 2 raises to 100 and seat 1 calls, then seat 5 shoves to 150 (+50)
+     * @param {number} smallBlindStack
+     * @param {ActionType} smallBlindAction
+     */
+    const shoves = (smallBlindStack, smallBlindAction) => {
+      const { state } = createHand({
+        handNumber: 1,
+        players: [seat(1, 1000), seat(2, 1000), seat(3, 1000), seat(4, smallBlindStack), seat(5, 150)],
+        positions: { dealerSeat: 5, smallBlindSeat: 4, bigBlindSeat: 3 },
+        smallBlind: 10,
+        bigBlind: 20,
+        deck: deck()
+      });
+      return play(state, [[2, "RAISE", 100], [1, "CALL"], [5, "ALL_IN"], [4, smallBlindAction], [3, "CALL"]]).state;
+    };
+
+    // 50 more to call is short of a full raise
+    const oneShove = shoves(1000, "FOLD");
+    assert.equal(oneShove.currentTurnUserId, "u2");
+    assert.deepEqual(legalTypes(oneShove, 2), ["FOLD", "CALL"]);
+
+    // The small blind shoves to 200 (+50): 100 more to call is a full raise's worth
+    const twoShoves = shoves(200, "ALL_IN");
+    assert.equal(twoShoves.currentTurnUserId, "u2");
+    assert.ok(legalTypes(twoShoves, 2).includes("RAISE"));
+  });
+});
+
+describe("side pots", () => {
+  it("caps a pot at each all-in and leaves folded players ineligible", () => {
+    const pots = buildPots([
+      { id: "short", contribution: 100, folded: false },
+      { id: "big1", contribution: 300, folded: false },
+      { id: "big2", contribution: 300, folded: false },
+      { id: "folder", contribution: 50, folded: true }
+    ]);
+
+    assert.deepEqual(pots, [
+      { amount: 350, eligiblePlayerIds: ["short", "big1", "big2"] },
+      { amount: 400, eligiblePlayerIds: ["big1", "big2"] }
+    ]);
+  });
+
+  it("puts a folded player's chips above every live bet in the last pot", () => {
+    const pots = buildPots([
+      { id: "a", contribution: 100, folded: false },
+      { id: "b", contribution: 100, folded: false },
+      { id: "folder", contribution: 250, folded: true }
+    ]);
+
+    assert.deepEqual(pots, [{ amount: 450, eligiblePlayerIds: ["a", "b"] }]);
+  });
+
+  it("gives the odd chip of a split pot to the first winner from the button", () => {
+    const { awards, potResults } = awardPots(
+      [{ amount: 101, eligiblePlayerIds: ["a", "b", "c"] }],
+      new Map([["a", 5], ["b", 5], ["c", 1]]),
+      ["b", "c", "a"]
+    );
+
+    assert.equal(awards.get("b"), 51);
+    assert.equal(awards.get("a"), 50);
+    assert.equal(awards.has("c"), false);
+    assert.deepEqual(potResults[0].winnerIds, ["b", "a"]);
+  });
+
+  it("pays a short all-in the main pot only at showdown", () => {
+    // Seat 1 (100 chips) has aces, seat 2 kings, seat 3 queens; the board
+    // doesn't help anyone
+    const { state } = createHand({
+      handNumber: 1,
+      players: [seat(1, 100), seat(2, 1000), seat(3, 1000)],
+      positions: THREE_HANDED,
+      smallBlind: 10,
+      bigBlind: 20,
+      deck: deck(["As", "Ks", "Qs", "Ah", "Kh", "Qh", "5c", "2c", "7d", "9s", "6c", "3h", "8c", "Jd"])
+    });
+
+    const { state: end, events } = play(state, [
+      [3, "RAISE", 200], [2, "CALL"], [1, "ALL_IN"],
+      [2, "CHECK"], [3, "CHECK"], // flop
+      [2, "CHECK"], [3, "CHECK"], // turn
+      [2, "CHECK"], [3, "CHECK"] // river
+    ]);
+
+    const showdown = events.find((e) => e.type === "SHOWDOWN");
+    assert.ok(showdown && showdown.type === "SHOWDOWN");
+    assert.deepEqual(
+      showdown.results.sidePots.map((pot) => [pot.amount, pot.winnerPlayerIds]),
+      [[300, ["p1"]], [200, ["p2"]]]
+    );
+    assert.equal(chipsAt(end, 1), 300);
+    assert.equal(chipsAt(end, 2), 1000);
+    assert.equal(chipsAt(end, 3), 800);
+    assert.equal(end.handComplete, true);
+  });
+});
+
+describe("button and blinds", () => {
+  const fourHanded = () => [seat(1, 500), seat(2, 500), seat(3, 500), seat(4, 500)];
+
+  it("moves the big blind one player clockwise each hand", () => {
+    const previous = { dealerSeat: 4, smallBlindSeat: 3, bigBlindSeat: 2 };
+    assert.deepEqual(nextButtonPositions(fourHanded(), previous, 4), {
+      dealerSeat: 3,
+      smallBlindSeat: 2,
+      bigBlindSeat: 1
+    });
+  });
+
+  it("leaves the button on a busted player's seat", () => {
+    const players = fourHanded();
+    players[2].chips = 0; // seat 3 was the small blind and busted
+    const previous = { dealerSeat: 4, smallBlindSeat: 3, bigBlindSeat: 2 };
+
+    assert.deepEqual(nextButtonPositions(players, previous, 4), {
+      dealerSeat: 3,
+      smallBlindSeat: 2,
+      bigBlindSeat: 1
+    });
+  });
+
+  it("skips the small blind when last hand's big blind busted", () => {
+    const players = fourHanded();
+    players[1].chips = 0; // seat 2 was the big blind and busted
+    const positions = nextButtonPositions(players, { dealerSeat: 4, smallBlindSeat: 3, bigBlindSeat: 2 }, 4);
+    assert.deepEqual(positions, { dealerSeat: 3, smallBlindSeat: 2, bigBlindSeat: 1 });
+
+    const { state } = createHand({ handNumber: 2, players, positions, smallBlind: 10, bigBlind: 20, deck: deck() });
+    // Only the big blind is posted; seat 4 is first to act
+    assert.deepEqual([...state.bettingRound.playerBets.entries()], [["p1", 20]]);
+    assert.equal(state.currentTurnUserId, "u4");
+  });
+
+  it("has the button post the small blind heads-up", () => {
+    const players = [seat(1, 500), seat(2, 500)];
+    const positions = nextButtonPositions(players, null, 2);
+    assert.deepEqual(positions, { dealerSeat: 2, smallBlindSeat: 2, bigBlindSeat: 1 });
+
+    const { state } = createHand({ handNumber: 1, players, positions, smallBlind: 10, bigBlind: 20, deck: deck() });
+    // The button acts first preflop and last after the flop
+    assert.equal(state.currentTurnUserId, "u2");
+    const flop = play(state, [[2, "CALL"], [1, "CHECK"]]).state;
+    assert.equal(flop.street, "FLOP");
+    assert.equal(flop.currentTurnUserId, "u1");
+
+    assert.deepEqual(nextButtonPositions(players, positions, 2), {
+      dealerSeat: 1,
+      smallBlindSeat: 1,
+      bigBlindSeat: 2
+    });
+  });
+
+  it("goes heads-up without the big blind skipping a player", () => {
+    const players = [seat(1, 500), seat(2, 0), seat(3, 500)];
+    // Seat 2 busted on the big blind; seat 1 is next to post it
+    assert.deepEqual(nextButtonPositions(players, { dealerSeat: 1, smallBlindSeat: 3, bigBlindSeat: 2 }, 1), {
+      dealerSeat: 3,
+      smallBlindSeat: 3,
+      bigBlindSeat: 1
+    });
+  });
+});
+
+describe("antes", () => {
+  it("takes an ante from every dealt player as dead money", () => {
+    const { state, events } = createHand({
+      handNumber: 1,
+      players: [seat(1, 500), seat(2, 500), seat(3, 500)],
+      positions: THREE_HANDED,
+      smallBlind: 10,
+      bigBlind: 20,
+      ante: 5,
+      deck: deck()
+    });
+
+    const antes = events.find((e) => e.type === "ANTES_POSTED");
+    assert.deepEqual(antes, {
+      type: "ANTES_POSTED",
+      antes: [{ playerId: "p1", amount: 5 }, { playerId: "p2", amount: 5 }, { playerId: "p3", amount: 5 }],
+      total: 15
+    });
+    assert.equal(state.pot, 15);
+    assert.deepEqual([chipsAt(state, 1), chipsAt(state, 2), chipsAt(state, 3)], [475, 485, 495]);
+    // Antes don't count towards calling the big blind
+    assert.deepEqual(getLegalActions(state, 3).find((a) => a.type === "CALL"), { type: "CALL", amount: 20 });
+  });
+
+  it("has only the big blind pay a big blind ante", () => {
+    const { state } = createHand({
+      handNumber: 1,
+      players: [seat(1, 500), seat(2, 500), seat(3, 500)],
+      positions: THREE_HANDED,
+      smallBlind: 10,
+      bigBlind: 20,
+      ante: 20,
+      bigBlindAnte: true,
+      deck: deck()
+    });
+
+    assert.equal(state.pot, 20);
+    assert.deepEqual([chipsAt(state, 1), chipsAt(state, 2), chipsAt(state, 3)], [460, 490, 500]);
+  });
+
+  it("takes the blind before the ante from a short big blind", () => {
+    const { state, events } = createHand({
+      handNumber: 1,
+      players: [seat(1, 30), seat(2, 500), seat(3, 500)],
+      positions: THREE_HANDED,
+      smallBlind: 10,
+      bigBlind: 20,
+      ante: 20,
+      bigBlindAnte: true,
+      deck: deck()
+    });
+
+    assert.equal(state.bettingRound.getPlayerContribution("p1"), 20);
+    assert.equal(state.pot, 10);
+    assert.equal(state.players[0].status, "ALL_IN");
+    assert.ok(events.some((e) => e.type === "ANTES_POSTED" && e.total === 10));
+  });
+});
@@ -55,6 +55,17 @@ export type BettingActionType =
 
 export type Street = "PREFLOP" | "FLOP" | "TURN" | "RIVER";
 
+/**
+ * An action the player to act may take, as computed by the server.
+ * BET/RAISE/ALL_IN amounts are street totals ("raise to"); CALL is the chips it costs.
+ */
+export interface LegalAction {
+  type: BettingActionType;
+  amount?: number;
+  min?: number;
+  max?: number;
+}
+
 export interface BettingAction {
   playerId: string;
   action: BettingActionType;
@@ -103,6 +114,8 @@ export interface PokerGameState {
 
   minimumRaise: number;
   currentBet: number;
+  // Only sent to the player whose turn it is
+  legalActions?: LegalAction[] | null;
 
   actions: BettingAction[];
 }